@@ -0,0 +1,123 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import {IERC20Metadata} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import {Math} from "@openzeppelin/contracts/utils/math/Math.sol";
+import {AggregatorV3Interface} from "./interfaces/AggregatorV3Interface.sol";
+import {IBETRPriceOracle} from "./interfaces/IBETRPriceOracle.sol";
+import {InvalidInput} from "./common/error.sol";
+
+/*
+ * @title BETRChainlinkOracle
+ * @author Mirko Nosenzo (@netnose)
+ * @notice This contract is used to price a token in ETH off Chainlink price feeds
+ * @dev The token feed is either quoted in ETH, or quoted in the same currency as the ETH feed (e.g. USDC/USD and ETH/USD)
+ */
+contract BETRChainlinkOracle is IBETRPriceOracle {
+    address public immutable token;
+    AggregatorV3Interface public immutable tokenFeed;
+    AggregatorV3Interface public immutable ethFeed;
+    AggregatorV3Interface public immutable sequencerUptimeFeed;
+    uint256 public immutable maxStaleness;
+    uint256 public immutable sequencerGracePeriod;
+
+    uint256 private immutable _tokenUnit;
+    uint256 private immutable _tokenFeedUnit;
+    uint256 private immutable _ethFeedUnit;
+
+    /*
+     * @title InvalidFeedAnswer
+     * @notice Error to check if the feed answer is not positive
+     * @param feed The feed address
+     * @param answer The feed answer
+     */
+    error InvalidFeedAnswer(address feed, int256 answer);
+
+    /*
+     * @title StaleFeedAnswer
+     * @notice Error to check if the feed answer is older than the maximum staleness
+     * @param feed The feed address
+     * @param updatedAt The feed answer timestamp
+     */
+    error StaleFeedAnswer(address feed, uint256 updatedAt);
+
+    /*
+     * @title SequencerDown
+     * @notice Error to check if the L2 sequencer is down
+     */
+    error SequencerDown();
+
+    /*
+     * @title SequencerGracePeriodNotOver
+     * @notice Error to check if the L2 sequencer came back up less than the grace period ago
+     * @param startedAt The timestamp the sequencer came back up
+     */
+    error SequencerGracePeriodNotOver(uint256 startedAt);
+
+    /*
+     * @notice Constructor
+     * @param _token The token address
+     * @param _tokenFeed The token price feed address
+     * @param _ethFeed The ETH price feed address, zero if the token feed is quoted in ETH
+     * @param _sequencerUptimeFeed The L2 sequencer uptime feed address, zero to skip the sequencer checks
+     * @param _maxStaleness The maximum age of the feed answers in seconds
+     * @param _sequencerGracePeriod The time to wait after the sequencer comes back up in seconds
+     */
+    constructor(address _token, address _tokenFeed, address _ethFeed, address _sequencerUptimeFeed, uint256 _maxStaleness, uint256 _sequencerGracePeriod) {
+        if (_token == address(0) || _tokenFeed == address(0) || _maxStaleness == 0) revert InvalidInput();
+        token = _token;
+        tokenFeed = AggregatorV3Interface(_tokenFeed);
+        ethFeed = AggregatorV3Interface(_ethFeed);
+        sequencerUptimeFeed = AggregatorV3Interface(_sequencerUptimeFeed);
+        maxStaleness = _maxStaleness;
+        sequencerGracePeriod = _sequencerGracePeriod;
+
+        _tokenUnit = 10 ** IERC20Metadata(_token).decimals();
+        _tokenFeedUnit = 10 ** AggregatorV3Interface(_tokenFeed).decimals();
+        _ethFeedUnit = _ethFeed == address(0) ? 1 : 10 ** AggregatorV3Interface(_ethFeed).decimals();
+    }
+
+    /*
+     * @title _checkSequencer
+     * @notice Function to check the L2 sequencer is up and past its grace period
+     */
+    function _checkSequencer() internal view {
+        if (address(sequencerUptimeFeed) == address(0)) return;
+
+        (, int256 answer, uint256 startedAt, , ) = sequencerUptimeFeed.latestRoundData();
+        // An answer of 0 means the sequencer is up, 1 means it is down
+        if (answer != 0) revert SequencerDown();
+        if (startedAt == 0 || block.timestamp - startedAt <= sequencerGracePeriod) revert SequencerGracePeriodNotOver(startedAt);
+    }
+
+    /*
+     * @title _getFeedAnswer
+     * @notice Function to get the latest answer of the feed
+     * @param _feed The feed
+     * @return answer The latest positive and fresh answer
+     */
+    function _getFeedAnswer(AggregatorV3Interface _feed) internal view returns (uint256 answer) {
+        (, int256 feedAnswer, , uint256 updatedAt, ) = _feed.latestRoundData();
+        if (feedAnswer <= 0) revert InvalidFeedAnswer(address(_feed), feedAnswer);
+        if (updatedAt == 0 || updatedAt > block.timestamp || block.timestamp - updatedAt > maxStaleness) revert StaleFeedAnswer(address(_feed), updatedAt);
+        answer = uint256(feedAnswer);
+    }
+
+    /*
+     * @title getPrice
+     * @notice Function to get the price of the token
+     * @param _token The token address
+     * @param _amount The amount of ETH to pay
+     * @return _price The amount of tokens worth the amount of ETH
+     */
+    function getPrice(address _token, uint256 _amount) public view returns (uint256 _price) {
+        if (_token != token || _amount == 0) revert InvalidInput();
+        _checkSequencer();
+
+        uint256 tokenAnswer = _getFeedAnswer(tokenFeed);
+        uint256 ethAnswer = address(ethFeed) == address(0) ? 1 : _getFeedAnswer(ethFeed);
+
+        // tokens = ETH amount * ETH price / token price, with every amount scaled to its decimals
+        _price = Math.mulDiv(Math.mulDiv(_amount, ethAnswer * _tokenFeedUnit, tokenAnswer * _ethFeedUnit), _tokenUnit, 1e18);
+    }
+}
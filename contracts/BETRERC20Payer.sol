@@ -2,10 +2,19 @@
 pragma solidity ^0.8.28;
 
 import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
-import {IERC20Metadata} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
 import {IERC20Permit} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import {IUniswapV3Pool} from "@uniswap/v3-core/contracts/interfaces/IUniswapV3Pool.sol";
 import {ReentrancyGuardTransient} from "@openzeppelin/contracts/utils/ReentrancyGuardTransient.sol";
+import {Math} from "@openzeppelin/contracts/utils/math/Math.sol";
+import {MessageHashUtils} from "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
+import {SignatureChecker} from "@openzeppelin/contracts/utils/cryptography/SignatureChecker.sol";
+import {IBETRPriceOracle} from "./interfaces/IBETRPriceOracle.sol";
+import {IERC3009} from "./interfaces/IERC3009.sol";
+import {ISignatureTransfer} from "./interfaces/ISignatureTransfer.sol";
+import {IV3SwapRouter} from "./interfaces/IV3SwapRouter.sol";
+import {IWETH9} from "./interfaces/IWETH9.sol";
+import {UniswapV3Price} from "./libraries/UniswapV3Price.sol";
 
 /*
  * @title BETRERC20Payer
@@ -13,11 +22,130 @@ import {ReentrancyGuardTransient} from "@openzeppelin/contracts/utils/Reentrancy
  * @notice This contract is used to pay with ERC20 tokens for ETH transactions
  */
 contract BETRERC20Payer is ReentrancyGuardTransient {
+    using SafeERC20 for IERC20;
+
     address public immutable WETH;
     address public owner;
     address public proposedOwner;
+    address public feeRecipient;
+    address public swapRouter;
+    bool public retainCollectedTokens;
+    uint256 public lowWatermark;
+    uint256 public highWatermark;
+
+    uint256 public constant BPS_DENOMINATOR = 10000;
+    uint256 public constant DEFAULT_MAX_PRICE_DEVIATION_BPS = 100; // 1%
+    uint256 public constant MAX_PRICE_DEVIATION_BPS = 5000; // 50%
+    uint256 public constant MAX_FEE_BPS = 1000; // 10%
+
+    address public constant PERMIT2 = 0x000000000022D473030F116dDEE9F6B43aC78BA3;
+    bytes32 public constant PAYMENT_WITNESS_TYPEHASH = keccak256("PaymentWitness(address destination,bytes32 dataHash,uint256 ethAmount)");
+    string public constant PAYMENT_WITNESS_TYPE_STRING = "PaymentWitness witness)PaymentWitness(address destination,bytes32 dataHash,uint256 ethAmount)TokenPermissions(address token,uint256 amount)";
+    uint256 public constant MAX_PRICE_ROUTE_LENGTH = 3;
+    uint256 public constant QUOTE_VALIDITY_BLOCKS = 10;
+    bytes32 public constant DOMAIN_TYPEHASH = keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+    bytes32 public constant PAYMENT_INTENT_TYPEHASH = keccak256("PaymentIntent(address payer,address token,address destination,bytes32 dataHash,uint256 ethAmount,uint256 maxTokenIn,uint256 maxRelayerFee,uint256 nonce,uint256 deadline)");
+    uint256 public constant RELAYER_GAS_OVERHEAD = 50000;
+
+    /*
+     * @notice TWAP pricing configuration
+     * @param window The TWAP window in seconds, zero to price off the spot price
+     * @param maxSpotDeviationBps The maximum deviation between the spot and the TWAP price in basis points
+     */
+    struct TwapConfig {
+        uint32 window;
+        uint16 maxSpotDeviationBps;
+    }
+
+    /*
+     * @notice Payment configuration
+     * @param maxDeviationBps The maximum deviation between the expected and the actual price in basis points, zero for the default
+     * @param feeBps The fee spread charged on top of the price in basis points
+     */
+    struct PaymentConfig {
+        uint16 maxDeviationBps;
+        uint16 feeBps;
+    }
+
+    /*
+     * @notice Destination selector configuration
+     * @param allowed Whether the selector can be called on the destination
+     * @param maxValue The maximum ETH value per call, zero for no cap
+     */
+    struct SelectorConfig {
+        bool allowed;
+        uint256 maxValue;
+    }
+
+    /*
+     * @notice Spend limits configuration
+     * @param window The time in seconds over which a full cap of spent ETH is released again
+     * @param userCap The maximum ETH spent per address per window, zero for no cap
+     * @param globalCap The maximum ETH spent by all addresses per window, zero for no cap
+     * @param minAmount The minimum ETH amount per payment
+     * @param maxAmount The maximum ETH amount per payment, zero for no maximum
+     */
+    struct SpendLimits {
+        uint32 window;
+        uint128 userCap;
+        uint128 globalCap;
+        uint128 minAmount;
+        uint128 maxAmount;
+    }
+
+    /*
+     * @notice Spend window
+     * @param updatedAt The time the spent ETH was last recorded
+     * @param spent The ETH spent as of the last record, released linearly at the cap per window
+     */
+    struct SpendWindow {
+        uint64 updatedAt;
+        uint192 spent;
+    }
 
-    uint256 public constant MAX_PRICE_DEVIATION = 1; // 1%
+    /*
+     * @notice EIP-3009 receive authorization
+     * @param value The amount of tokens authorized, any amount above the required tokens is refunded
+     * @param validAfter The time after which the authorization is valid
+     * @param validBefore The time before which the authorization is valid
+     * @param nonce The unique nonce of the authorization
+     * @param v The v parameter of the signature
+     * @param r The r parameter of the signature
+     * @param s The s parameter of the signature
+     */
+    struct Authorization {
+        uint256 value;
+        uint256 validAfter;
+        uint256 validBefore;
+        bytes32 nonce;
+        uint8 v;
+        bytes32 r;
+        bytes32 s;
+    }
+
+    /*
+     * @notice Relayed payment intent
+     * @param payer The payer address, signing the intent
+     * @param token The token address
+     * @param destination The destination address
+     * @param dataHash The hash of the data to call the destination with
+     * @param ethAmount The amount of ETH to pay
+     * @param maxTokenIn The maximum amount of tokens to pay, fee and relayer compensation included
+     * @param maxRelayerFee The maximum amount of tokens compensating the relayer's gas
+     * @param nonce The unique nonce of the intent
+     * @param deadline The time before which the intent can be submitted
+     */
+    struct PaymentIntent {
+        address payer;
+        address token;
+        address destination;
+        bytes32 dataHash;
+        uint256 ethAmount;
+        uint256 maxTokenIn;
+        uint256 maxRelayerFee;
+        uint256 nonce;
+        uint256 deadline;
+    }
 
     /*
      * @notice ERC20 token price pool
@@ -25,12 +153,77 @@ contract BETRERC20Payer is ReentrancyGuardTransient {
      */
     mapping(address => IUniswapV3Pool) public erc20TokenPricePool;
 
+    /*
+     * @notice ERC20 token price routes
+     * @dev These mappings store the pools and the token path from each token address to WETH
+     */
+    mapping(address => IUniswapV3Pool[]) private _erc20TokenPriceRoutes;
+    mapping(address => address[]) private _erc20TokenPricePaths;
+
+    /*
+     * @notice ERC20 token price oracle
+     * @dev This mapping is used to store the price oracle overriding the pool pricing for each token address.
+     * An oracle takes priority over the token pools and their TWAP configuration, which only apply once it is cleared
+     */
+    mapping(address => IBETRPriceOracle) public erc20TokenPriceOracle;
+
+    /*
+     * @notice ERC20 token TWAP configuration
+     * @dev This mapping is used to store the TWAP pricing configuration for each token address
+     */
+    mapping(address => TwapConfig) public erc20TokenTwapConfig;
+
+    /*
+     * @notice ERC20 token payment configuration
+     * @dev This mapping is used to store the slippage tolerance and the fee spread for each token address
+     */
+    mapping(address => PaymentConfig) public erc20TokenPaymentConfig;
+
+    /*
+     * @notice ERC20 token payment totals
+     * @dev These mappings store the cumulative tokens collected, fees included, and ETH spent for each token address
+     */
+    mapping(address => uint256) public totalTokensCollected;
+    mapping(address => uint256) public totalETHSpent;
+
     /*
      * @notice Whitelisted destinations
      * @dev This mapping is used to whitelist destinations for ERC20 payments
      */
     mapping(address => bool) public whitelistedDestinations;
 
+    /*
+     * @notice Allowed destination selectors
+     * @dev This mapping is used to allow specific selectors, with an optional ETH value cap, on whitelisted destinations
+     */
+    mapping(address => mapping(bytes4 => SelectorConfig)) public allowedSelectors;
+
+    /*
+     * @notice Keepers
+     * @dev This mapping is used to allow keepers, besides the owner, to replenish the ETH float
+     */
+    mapping(address => bool) public keepers;
+
+    /*
+     * @notice Spend limits
+     * @dev These variables store the spend limits configuration and the current spend windows of each address and of all addresses
+     */
+    SpendLimits public spendLimits;
+    mapping(address => SpendWindow) public userSpendWindows;
+    SpendWindow public globalSpendWindow;
+
+    /*
+     * @notice Used payment intent nonces
+     * @dev This mapping is used to mark the payment intent nonces of each payer as used or cancelled
+     */
+    mapping(address => mapping(uint256 => bool)) public usedNonces;
+
+    /*
+     * @notice Quote expiries
+     * @dev This mapping is used to store the last block each issued quote is valid for, by quote ID
+     */
+    mapping(bytes32 => uint256) public quoteExpiry;
+
     /*
      * @title NotOwner
      * @notice Error to check if the caller is the owner
@@ -61,6 +254,12 @@ contract BETRERC20Payer is ReentrancyGuardTransient {
      */
     error NotProposedOwner();
 
+    /*
+     * @title NotKeeper
+     * @notice Error to check if the caller is a keeper or the owner
+     */
+    error NotKeeper();
+
     /*
      * @title NotEnoughValueInContract
      * @notice Error to check if the ETH value in the contract is not enough
@@ -76,6 +275,24 @@ contract BETRERC20Payer is ReentrancyGuardTransient {
      */
     error NotWhitelistedDestination(address destination);
 
+    /*
+     * @title NotAllowedSelector
+     * @notice Error to check if the selector is not allowed on the destination
+     * @param destination The destination address
+     * @param selector The selector
+     */
+    error NotAllowedSelector(address destination, bytes4 selector);
+
+    /*
+     * @title SelectorValueCapExceeded
+     * @notice Error to check if the ETH value exceeds the cap of the selector on the destination
+     * @param destination The destination address
+     * @param selector The selector
+     * @param value The ETH value
+     * @param maxValue The maximum ETH value per call
+     */
+    error SelectorValueCapExceeded(address destination, bytes4 selector, uint256 value, uint256 maxValue);
+
     /*
      * @title NoPoolForToken
      * @notice Error to check if the token has no pool
@@ -97,6 +314,100 @@ contract BETRERC20Payer is ReentrancyGuardTransient {
      */
     error SlippageError(uint256 expectedPrice, uint256 actualPrice);
 
+    /*
+     * @title MaxTokenInExceeded
+     * @notice Error to check if the required tokens exceed the maximum the payer is willing to pay
+     * @param maxTokenIn The maximum amount of tokens
+     * @param requiredAmount The required amount of tokens, fee included
+     */
+    error MaxTokenInExceeded(uint256 maxTokenIn, uint256 requiredAmount);
+
+    /*
+     * @title QuoteExpired
+     * @notice Error to check if the quote a payment is made against is no longer valid
+     * @param quoteId The quote ID
+     * @param validUntilBlock The last block the quote is valid for, 0 if it was never issued or already used
+     */
+    error QuoteExpired(bytes32 quoteId, uint256 validUntilBlock);
+
+    /*
+     * @title InsufficientAuthorizedAmount
+     * @notice Error to check if the authorized amount of tokens covers the required tokens
+     * @param authorizedAmount The authorized amount of tokens
+     * @param requiredAmount The required amount of tokens, fee included
+     */
+    error InsufficientAuthorizedAmount(uint256 authorizedAmount, uint256 requiredAmount);
+
+    /*
+     * @title PaymentAmountOutOfRange
+     * @notice Error to check if the ETH amount of the payment is within the minimum and the maximum
+     * @param amount The ETH amount
+     * @param minAmount The minimum ETH amount per payment
+     * @param maxAmount The maximum ETH amount per payment, zero for no maximum
+     */
+    error PaymentAmountOutOfRange(uint256 amount, uint256 minAmount, uint256 maxAmount);
+
+    /*
+     * @title UserSpendCapExceeded
+     * @notice Error to check if the payment exceeds the remaining ETH the address can spend in the window
+     * @param user The user address
+     * @param amount The ETH amount
+     * @param remaining The remaining ETH the address can spend in the window
+     */
+    error UserSpendCapExceeded(address user, uint256 amount, uint256 remaining);
+
+    /*
+     * @title GlobalSpendCapExceeded
+     * @notice Error to check if the payment exceeds the remaining ETH all addresses can spend in the window
+     * @param amount The ETH amount
+     * @param remaining The remaining ETH all addresses can spend in the window
+     */
+    error GlobalSpendCapExceeded(uint256 amount, uint256 remaining);
+
+    /*
+     * @title InvalidSignature
+     * @notice Error to check if the payment intent is signed by the payer
+     */
+    error InvalidSignature();
+
+    /*
+     * @title PaymentIntentExpired
+     * @notice Error to check if the payment intent deadline has passed
+     * @param deadline The deadline of the intent
+     */
+    error PaymentIntentExpired(uint256 deadline);
+
+    /*
+     * @title NonceAlreadyUsed
+     * @notice Error to check if the payment intent nonce is already used or cancelled
+     * @param payer The payer address
+     * @param nonce The nonce
+     */
+    error NonceAlreadyUsed(address payer, uint256 nonce);
+
+    /*
+     * @title TwapDeviationError
+     * @notice Error to check if the spot price deviates too much from the TWAP price
+     * @param spotPrice The spot price
+     * @param twapPrice The TWAP price
+     */
+    error TwapDeviationError(uint256 spotPrice, uint256 twapPrice);
+
+    /*
+     * @title FloatAboveLowWatermark
+     * @notice Error to check if the ETH float is below the low watermark before replenishing it
+     * @param balance The ETH balance of the contract
+     * @param lowWatermark The low watermark
+     */
+    error FloatAboveLowWatermark(uint256 balance, uint256 lowWatermark);
+
+    /*
+     * @title NothingToReplenish
+     * @notice Error to check if there are collected tokens to swap
+     * @param token The token address
+     */
+    error NothingToReplenish(address token);
+
     /*
      * @title OwnershipTransferred
      * @notice Event to notify when ownership is transferred
@@ -113,6 +424,82 @@ contract BETRERC20Payer is ReentrancyGuardTransient {
      */
     event ERC20TokenPricePoolSet(address indexed token, address indexed pool);
 
+    /*
+     * @title ERC20TokenPriceRouteSet
+     * @notice Event to notify when the ERC20 token price route is set
+     * @param token The token address
+     * @param pools The pool addresses from the token to WETH
+     */
+    event ERC20TokenPriceRouteSet(address indexed token, address[] pools);
+
+    /*
+     * @title ERC20TokenPriceOracleSet
+     * @notice Event to notify when the ERC20 token price oracle is set
+     * @param token The token address
+     * @param oracle The oracle address, zero to price off the token pools
+     */
+    event ERC20TokenPriceOracleSet(address indexed token, address indexed oracle);
+
+    /*
+     * @title ERC20TokenTwapConfigSet
+     * @notice Event to notify when the ERC20 token TWAP configuration is set
+     * @param token The token address
+     * @param window The TWAP window in seconds
+     * @param maxSpotDeviationBps The maximum deviation between the spot and the TWAP price in basis points
+     */
+    event ERC20TokenTwapConfigSet(address indexed token, uint32 window, uint16 maxSpotDeviationBps);
+
+    /*
+     * @title ERC20TokenPaymentConfigSet
+     * @notice Event to notify when the ERC20 token payment configuration is set
+     * @param token The token address
+     * @param maxDeviationBps The maximum deviation between the expected and the actual price in basis points
+     * @param feeBps The fee spread in basis points
+     */
+    event ERC20TokenPaymentConfigSet(address indexed token, uint16 maxDeviationBps, uint16 feeBps);
+
+    /*
+     * @title FeeRecipientSet
+     * @notice Event to notify when the fee recipient is set
+     * @param feeRecipient The fee recipient address
+     */
+    event FeeRecipientSet(address indexed feeRecipient);
+
+    /*
+     * @title FeeCharged
+     * @notice Event to notify when a fee is charged on a payment
+     * @param token The token address
+     * @param payer The payer address
+     * @param recipient The fee recipient address
+     * @param amount The fee amount in tokens
+     */
+    event FeeCharged(address indexed token, address indexed payer, address indexed recipient, uint256 amount);
+
+    /*
+     * @title PaidWithERC20
+     * @notice Event to notify when a payment with ERC20 tokens is made
+     * @param payer The payer address
+     * @param token The token address
+     * @param destination The destination address
+     * @param selector The selector of the destination call
+     * @param ethAmount The amount of ETH paid
+     * @param tokenAmount The amount of tokens collected, fee included
+     * @param expectedPrice The expected price of the token, 0 for max-in payments
+     * @param maxTokenIn The maximum amount of tokens of max-in payments, 0 for expected price payments
+     */
+    event PaidWithERC20(address indexed payer, address indexed token, address indexed destination, bytes4 selector, uint256 ethAmount, uint256 tokenAmount, uint256 expectedPrice, uint256 maxTokenIn);
+
+    /*
+     * @title QuoteIssued
+     * @notice Event to notify when a quote is issued to a payer
+     * @param quoteId The quote ID
+     * @param payer The payer address
+     * @param token The token address
+     * @param ethAmount The amount of ETH to pay
+     * @param tokenAmount The quoted amount of tokens, fee included
+     */
+    event QuoteIssued(bytes32 indexed quoteId, address indexed payer, address indexed token, uint256 ethAmount, uint256 tokenAmount);
+
     /*
      * @title WhitelistedDestinationSet
      * @notice Event to notify when the whitelisted destination is set
@@ -121,6 +508,94 @@ contract BETRERC20Payer is ReentrancyGuardTransient {
      */
     event WhitelistedDestinationSet(address indexed destination, bool whitelisted);
 
+    /*
+     * @title AllowedSelectorSet
+     * @notice Event to notify when the allowed selector is set
+     * @param destination The destination address
+     * @param selector The selector
+     * @param allowed The allowed status
+     * @param maxValue The maximum ETH value per call, zero for no cap
+     */
+    event AllowedSelectorSet(address indexed destination, bytes4 indexed selector, bool allowed, uint256 maxValue);
+
+    /*
+     * @title RetainCollectedTokensSet
+     * @notice Event to notify when the retention of the collected tokens is set
+     * @param retain Whether the collected tokens stay in the contract instead of going to the owner
+     */
+    event RetainCollectedTokensSet(bool retain);
+
+    /*
+     * @title SwapRouterSet
+     * @notice Event to notify when the swap router is set
+     * @param swapRouter The swap router address
+     */
+    event SwapRouterSet(address indexed swapRouter);
+
+    /*
+     * @title WatermarksSet
+     * @notice Event to notify when the ETH float watermarks are set
+     * @param lowWatermark The ETH balance below which the float can be replenished
+     * @param highWatermark The ETH balance the float is replenished up to
+     */
+    event WatermarksSet(uint256 lowWatermark, uint256 highWatermark);
+
+    /*
+     * @title KeeperSet
+     * @notice Event to notify when a keeper is set
+     * @param keeper The keeper address
+     * @param allowed The allowed status
+     */
+    event KeeperSet(address indexed keeper, bool allowed);
+
+    /*
+     * @title Replenished
+     * @notice Event to notify when the ETH float is replenished by swapping collected tokens
+     * @param token The token address
+     * @param keeper The keeper address
+     * @param tokenAmount The amount of tokens swapped
+     * @param ethAmount The amount of ETH received
+     */
+    event Replenished(address indexed token, address indexed keeper, uint256 tokenAmount, uint256 ethAmount);
+
+    /*
+     * @title ERC20Recovered
+     * @notice Event to notify when tokens held by the contract are withdrawn by the owner
+     * @param token The token address
+     * @param amount The amount of tokens withdrawn
+     */
+    event ERC20Recovered(address indexed token, uint256 amount);
+
+    /*
+     * @title SpendLimitsSet
+     * @notice Event to notify when the spend limits are set
+     * @param window The time in seconds over which a full cap of spent ETH is released again
+     * @param userCap The maximum ETH spent per address per window
+     * @param globalCap The maximum ETH spent by all addresses per window
+     * @param minAmount The minimum ETH amount per payment
+     * @param maxAmount The maximum ETH amount per payment
+     */
+    event SpendLimitsSet(uint32 window, uint128 userCap, uint128 globalCap, uint128 minAmount, uint128 maxAmount);
+
+    /*
+     * @title PaymentIntentCancelled
+     * @notice Event to notify when a payment intent nonce is cancelled
+     * @param payer The payer address
+     * @param nonce The nonce
+     */
+    event PaymentIntentCancelled(address indexed payer, uint256 nonce);
+
+    /*
+     * @title RelayerCompensated
+     * @notice Event to notify when a relayer is compensated for submitting a payment intent
+     * @param payer The payer address
+     * @param relayer The relayer address
+     * @param token The token address
+     * @param nonce The nonce of the intent
+     * @param amount The compensation in tokens
+     */
+    event RelayerCompensated(address indexed payer, address indexed relayer, address indexed token, uint256 nonce, uint256 amount);
+
     /*
      * @title onlyOwner
      * @notice Modifier to check if the caller is the owner
@@ -130,6 +605,15 @@ contract BETRERC20Payer is ReentrancyGuardTransient {
         _;
     }
 
+    /*
+     * @title onlyKeeper
+     * @notice Modifier to check if the caller is a keeper or the owner
+     */
+    modifier onlyKeeper() {
+        if (msg.sender != owner && !keepers[msg.sender]) revert NotKeeper();
+        _;
+    }
+
     /*
      * @notice Constructor
      * @param _owner The owner of the contract
@@ -182,9 +666,99 @@ contract BETRERC20Payer is ReentrancyGuardTransient {
         if (pool.token0() != _token && pool.token1() != _token) revert InvalidPool();
         if (pool.token0() != WETH && pool.token1() != WETH) revert InvalidPool();
         erc20TokenPricePool[_token] = pool;
+
+        delete _erc20TokenPriceRoutes[_token];
+        _erc20TokenPriceRoutes[_token].push(pool);
+        _erc20TokenPricePaths[_token] = [_token, WETH];
         emit ERC20TokenPricePoolSet(_token, _pool);
     }
 
+    /*
+     * @title setERC20TokenPriceRoute
+     * @notice Function to set a multi-hop ERC20 token price route
+     * @param _token The token address
+     * @param _pools The pool addresses chaining the token to WETH, e.g. TOKEN/USDC then USDC/WETH
+     */
+    function setERC20TokenPriceRoute(address _token, address[] calldata _pools) public onlyOwner {
+        if (_token == address(0) || _pools.length == 0 || _pools.length > MAX_PRICE_ROUTE_LENGTH) revert InvalidInput();
+
+        address[] memory path = new address[](_pools.length + 1);
+        path[0] = _token;
+        delete _erc20TokenPriceRoutes[_token];
+        for (uint256 i = 0; i < _pools.length; i++) {
+            if (_pools[i] == address(0)) revert InvalidInput();
+            IUniswapV3Pool pool = IUniswapV3Pool(_pools[i]);
+            if (pool.token0() == path[i]) {
+                path[i + 1] = pool.token1();
+            } else if (pool.token1() == path[i]) {
+                path[i + 1] = pool.token0();
+            } else {
+                revert InvalidPool();
+            }
+            _erc20TokenPriceRoutes[_token].push(pool);
+        }
+        if (path[_pools.length] != WETH) revert InvalidPool();
+
+        erc20TokenPricePool[_token] = IUniswapV3Pool(_pools[0]);
+        _erc20TokenPricePaths[_token] = path;
+        emit ERC20TokenPriceRouteSet(_token, _pools);
+    }
+
+    /*
+     * @title setERC20TokenPriceOracle
+     * @notice Function to set the ERC20 token price oracle
+     * @param _token The token address
+     * @param _oracle The oracle address, zero to price off the token pools
+     * @dev The oracle is queried once so a contract that cannot price the token is rejected
+     */
+    function setERC20TokenPriceOracle(address _token, address _oracle) public onlyOwner {
+        if (_token == address(0)) revert InvalidInput();
+        if (_oracle != address(0)) {
+            if (_oracle.code.length == 0) revert InvalidInput();
+            if (IBETRPriceOracle(_oracle).getPrice(_token, 1 ether) == 0) revert InvalidInput();
+        }
+        erc20TokenPriceOracle[_token] = IBETRPriceOracle(_oracle);
+        emit ERC20TokenPriceOracleSet(_token, _oracle);
+    }
+
+    /*
+     * @title setERC20TokenTwapConfig
+     * @notice Function to set the ERC20 token TWAP configuration
+     * @param _token The token address
+     * @param _window The TWAP window in seconds, zero to price off the spot price
+     * @param _maxSpotDeviationBps The maximum deviation between the spot and the TWAP price in basis points
+     */
+    function setERC20TokenTwapConfig(address _token, uint32 _window, uint16 _maxSpotDeviationBps) public onlyOwner {
+        if (_token == address(0)) revert InvalidInput();
+        if (_window > 0 && (_maxSpotDeviationBps == 0 || _maxSpotDeviationBps > BPS_DENOMINATOR)) revert InvalidInput();
+        erc20TokenTwapConfig[_token] = TwapConfig(_window, _maxSpotDeviationBps);
+        emit ERC20TokenTwapConfigSet(_token, _window, _maxSpotDeviationBps);
+    }
+
+    /*
+     * @title setERC20TokenPaymentConfig
+     * @notice Function to set the ERC20 token payment configuration
+     * @param _token The token address
+     * @param _maxDeviationBps The maximum deviation between the expected and the actual price in basis points, zero for the default
+     * @param _feeBps The fee spread charged on top of the price in basis points
+     */
+    function setERC20TokenPaymentConfig(address _token, uint16 _maxDeviationBps, uint16 _feeBps) public onlyOwner {
+        if (_token == address(0) || _maxDeviationBps > MAX_PRICE_DEVIATION_BPS || _feeBps > MAX_FEE_BPS) revert InvalidInput();
+        erc20TokenPaymentConfig[_token] = PaymentConfig(_maxDeviationBps, _feeBps);
+        emit ERC20TokenPaymentConfigSet(_token, _maxDeviationBps, _feeBps);
+    }
+
+    /*
+     * @title setFeeRecipient
+     * @notice Function to set the fee recipient
+     * @param _feeRecipient The fee recipient address
+     */
+    function setFeeRecipient(address _feeRecipient) public onlyOwner {
+        if (_feeRecipient == address(0)) revert InvalidInput();
+        feeRecipient = _feeRecipient;
+        emit FeeRecipientSet(_feeRecipient);
+    }
+
     /*
      * @title setWhitelistedDestination
      * @notice Function to set the whitelisted destination
@@ -196,6 +770,82 @@ contract BETRERC20Payer is ReentrancyGuardTransient {
         emit WhitelistedDestinationSet(_destination, _whitelisted);
     }
 
+    /*
+     * @title setAllowedSelector
+     * @notice Function to set the allowed selector on a destination
+     * @param _destination The destination address
+     * @param _selector The selector
+     * @param _allowed The allowed status
+     * @param _maxValue The maximum ETH value per call, zero for no cap
+     */
+    function setAllowedSelector(address _destination, bytes4 _selector, bool _allowed, uint256 _maxValue) public onlyOwner {
+        if (_destination == address(0)) revert InvalidInput();
+        allowedSelectors[_destination][_selector] = SelectorConfig(_allowed, _allowed ? _maxValue : 0);
+        emit AllowedSelectorSet(_destination, _selector, _allowed, _allowed ? _maxValue : 0);
+    }
+
+    /*
+     * @title setSpendLimits
+     * @notice Function to set the spend limits
+     * @param _window The time in seconds over which a full cap of spent ETH is released again
+     * @param _userCap The maximum ETH spent per address per window, zero for no cap
+     * @param _globalCap The maximum ETH spent by all addresses per window, zero for no cap
+     * @param _minAmount The minimum ETH amount per payment
+     * @param _maxAmount The maximum ETH amount per payment, zero for no maximum
+     */
+    function setSpendLimits(uint32 _window, uint128 _userCap, uint128 _globalCap, uint128 _minAmount, uint128 _maxAmount) public onlyOwner {
+        if ((_userCap != 0 || _globalCap != 0) && _window == 0) revert InvalidInput();
+        if (_maxAmount != 0 && _minAmount > _maxAmount) revert InvalidInput();
+        spendLimits = SpendLimits(_window, _userCap, _globalCap, _minAmount, _maxAmount);
+        emit SpendLimitsSet(_window, _userCap, _globalCap, _minAmount, _maxAmount);
+    }
+
+    /*
+     * @title setRetainCollectedTokens
+     * @notice Function to set whether the collected tokens stay in the contract to replenish the ETH float
+     * @param _retain Whether the collected tokens stay in the contract instead of going to the owner
+     */
+    function setRetainCollectedTokens(bool _retain) public onlyOwner {
+        retainCollectedTokens = _retain;
+        emit RetainCollectedTokensSet(_retain);
+    }
+
+    /*
+     * @title setSwapRouter
+     * @notice Function to set the Uniswap V3 swap router used to replenish the ETH float
+     * @param _swapRouter The swap router address
+     */
+    function setSwapRouter(address _swapRouter) public onlyOwner {
+        if (_swapRouter == address(0)) revert InvalidInput();
+        swapRouter = _swapRouter;
+        emit SwapRouterSet(_swapRouter);
+    }
+
+    /*
+     * @title setWatermarks
+     * @notice Function to set the ETH float watermarks
+     * @param _lowWatermark The ETH balance below which the float can be replenished
+     * @param _highWatermark The ETH balance the float is replenished up to
+     */
+    function setWatermarks(uint256 _lowWatermark, uint256 _highWatermark) public onlyOwner {
+        if (_lowWatermark > _highWatermark) revert InvalidInput();
+        lowWatermark = _lowWatermark;
+        highWatermark = _highWatermark;
+        emit WatermarksSet(_lowWatermark, _highWatermark);
+    }
+
+    /*
+     * @title setKeeper
+     * @notice Function to set a keeper allowed to replenish the ETH float
+     * @param _keeper The keeper address
+     * @param _allowed The allowed status
+     */
+    function setKeeper(address _keeper, bool _allowed) public onlyOwner {
+        if (_keeper == address(0)) revert InvalidInput();
+        keepers[_keeper] = _allowed;
+        emit KeeperSet(_keeper, _allowed);
+    }
+
     /*
      * @title _performSubcall
      * @notice Function to perform a subcall
@@ -204,78 +854,317 @@ contract BETRERC20Payer is ReentrancyGuardTransient {
      * @param _value The value to call the smart contract with
      */
     function _performSubcall(address _smartContract, bytes calldata _data, uint256 _value) internal returns (bytes memory result) {
-        if (_smartContract == address(0)) revert InvalidInput();
-
         bool success;
         (success, result) = _smartContract.call{value: _value}(_data);
         if (!success) revert SubcallFailed();
     }
 
     /*
-     * @title getPriceFromPool
-     * @notice Function to get the price from the pool
-     * @param pool The pool
-     * @param tokenIn The token in
-     * @param amount The amount of ETH to pay
-     * @return price The price with 18 decimals
+     * @title _getPrice
+     * @notice Function to get the price of the token using its configured pricing mode
+     * @param _token The token address
+     * @param _amount The amount of ETH to pay
+     * @return price The amount of tokens to pay
      */
-    function _getPriceFromPool(IUniswapV3Pool pool, address tokenIn, uint256 amount) internal view returns (uint256 price) {
-        // Get token0 and token1 from the pool
-        address token0 = pool.token0();
-        address token1 = pool.token1();
+    function _getPrice(address _token, uint256 _amount) internal view returns (uint256 price) {
+        IBETRPriceOracle oracle = erc20TokenPriceOracle[_token];
+        if (address(oracle) != address(0)) return oracle.getPrice(_token, _amount);
 
-        if (tokenIn != token0 && tokenIn != token1) revert InvalidInput();
+        if (_erc20TokenPriceRoutes[_token].length == 0) revert NoPoolForToken(_token);
 
-        // Get decimals for proper normalization
-        uint8 decimals0 = IERC20Metadata(token0).decimals();
-        uint8 decimals1 = IERC20Metadata(token1).decimals();
+        price = UniswapV3Price.getRouteQuote(_erc20TokenPriceRoutes[_token], _erc20TokenPricePaths[_token], _amount, 0);
 
-        // Read sqrtPriceX96 from slot0
-        (uint160 sqrtPriceX96, , , , , , ) = pool.slot0();
+        TwapConfig memory twapConfig = erc20TokenTwapConfig[_token];
+        if (twapConfig.window == 0) return price;
 
-        // Compute priceX96 = (sqrtPriceX96 ^ 2) >> 192
-        // Using unchecked for gas optimization since Solidity 0.8.0+ has built-in overflow protection
-        unchecked {
-            uint256 priceX96 = uint256(sqrtPriceX96) * uint256(sqrtPriceX96);
-            uint256 precision = 1;
-            if (priceX96 < 2 ** 192) {
-                precision = 10 ** 18;
-            }
-            priceX96 = priceX96 * precision >> 192;
-            price = (priceX96 * (10 ** decimals0)) / (10 ** decimals1);
+        uint256 twapPrice = UniswapV3Price.getRouteQuote(_erc20TokenPriceRoutes[_token], _erc20TokenPricePaths[_token], _amount, twapConfig.window);
+        uint256 deviation = price > twapPrice ? price - twapPrice : twapPrice - price;
+        if (deviation * BPS_DENOMINATOR > twapPrice * twapConfig.maxSpotDeviationBps) revert TwapDeviationError(price, twapPrice);
 
-            if (tokenIn == token0) {
-                price = amount * precision / price;
-            } else {
-                price = amount * price / precision;
-            }
-        }
-        
-        // Validate price is reasonable (not zero or extremely large)
-        if (price == 0 || price > type(uint256).max / 1e18) revert PriceCalculationError();
+        price = twapPrice;
+    }
+
+    /*
+     * @title _getPriceWithFee
+     * @notice Function to get the price of the token and the fee spread charged on top of it
+     * @param _token The token address
+     * @param _amount The amount of ETH to pay
+     * @return price The amount of tokens to pay, without the fee
+     * @return fee The fee in tokens, rounded up
+     */
+    function _getPriceWithFee(address _token, uint256 _amount) internal view returns (uint256 price, uint256 fee) {
+        price = _getPrice(_token, _amount);
+        if (price == 0) revert PriceCalculationError();
+        fee = Math.mulDiv(price, erc20TokenPaymentConfig[_token].feeBps, BPS_DENOMINATOR, Math.Rounding.Ceil);
+    }
+
+    /*
+     * @title _getRequiredTokens
+     * @notice Function to get the required tokens and check them against the expected price
+     * @param _token The token address
+     * @param _amount The amount of ETH to pay
+     * @param _expectedPrice The expected price of the token
+     * @return price The amount of tokens to pay, without the fee
+     * @return fee The fee in tokens
+     */
+    function _getRequiredTokens(address _token, uint256 _amount, uint256 _expectedPrice) internal view returns (uint256 price, uint256 fee) {
+      (price, fee) = _getPriceWithFee(_token, _amount);
+      uint256 requiredAmount = price + fee;
+      
+      uint256 maxDeviationBps = erc20TokenPaymentConfig[_token].maxDeviationBps;
+      if (maxDeviationBps == 0) maxDeviationBps = DEFAULT_MAX_PRICE_DEVIATION_BPS;
+      uint256 maxPriceDeviation = _expectedPrice * maxDeviationBps / BPS_DENOMINATOR;
+      if (requiredAmount > _expectedPrice + maxPriceDeviation || requiredAmount < _expectedPrice - maxPriceDeviation) revert SlippageError(_expectedPrice, requiredAmount);
+    }
+
+    /*
+     * @title _sendRequiredTokens
+     * @notice Function to send the required tokens to the owner and the fee recipient
+     * @param _token The token address
+     * @param _from The address holding the tokens, either the payer or this contract on behalf of the caller
+     * @param _price The amount of tokens to pay, without the fee
+     * @param _fee The fee in tokens
+     * @dev The price goes to the owner, or stays in the contract when retaining collected tokens, and the fee to the fee recipient, or to the owner if no fee recipient is set
+     */
+    function _sendRequiredTokens(address _token, address _from, uint256 _price, uint256 _fee) internal {
+      address recipient = feeRecipient == address(0) ? owner : feeRecipient;
+      if (_from == address(this)) {
+        if (!retainCollectedTokens) IERC20(_token).safeTransfer(owner, _price);
+        if (_fee > 0) IERC20(_token).safeTransfer(recipient, _fee);
+      } else {
+        IERC20(_token).safeTransferFrom(_from, retainCollectedTokens ? address(this) : owner, _price);
+        if (_fee > 0) IERC20(_token).safeTransferFrom(_from, recipient, _fee);
+      }
+      if (_fee > 0) emit FeeCharged(_token, _from == address(this) ? msg.sender : _from, recipient, _fee);
     }
 
     /*
      * @title _transferRequiredTokens
-     * @notice Function to transfer the required tokens
+     * @notice Function to transfer the required tokens from the payer
      * @param _token The token address
      * @param _amount The amount of ETH to transfer
+     * @param _expectedPrice The expected price of the token
+     * @return requiredAmount The amount of tokens transferred, fee included
      */
-    function _transferRequiredTokens(address _token, uint256 _amount, uint256 _expectedPrice) internal {
-      if (_token == address(0) || _amount == 0 || _expectedPrice == 0) revert InvalidInput();
+    function _transferRequiredTokens(address _token, uint256 _amount, uint256 _expectedPrice) internal returns (uint256 requiredAmount) {
+      (uint256 price, uint256 fee) = _getRequiredTokens(_token, _amount, _expectedPrice);
+      _sendRequiredTokens(_token, msg.sender, price, fee);
+      requiredAmount = price + fee;
+    }
 
-      IUniswapV3Pool pool = erc20TokenPricePool[_token];
-      if (address(pool) == address(0)) revert NoPoolForToken(_token);
+    /*
+     * @title _transferMaxTokens
+     * @notice Function to transfer the required tokens from the payer up to a maximum
+     * @param _token The token address
+     * @param _from The payer address
+     * @param _amount The amount of ETH to pay
+     * @param _maxTokenIn The maximum amount of tokens to pay, fee included
+     * @return requiredAmount The amount of tokens transferred, fee included
+     */
+    function _transferMaxTokens(address _token, address _from, uint256 _amount, uint256 _maxTokenIn) internal returns (uint256 requiredAmount) {
+      (uint256 price, uint256 fee) = _getPriceWithFee(_token, _amount);
+      requiredAmount = price + fee;
+      if (requiredAmount > _maxTokenIn) revert MaxTokenInExceeded(_maxTokenIn, requiredAmount);
+      _sendRequiredTokens(_token, _from, price, fee);
+    }
 
-      uint256 requiredAmount = _getPriceFromPool(pool, _token, _amount);
-      
-      // Validate required amount is reasonable
-      if (requiredAmount == 0) revert PriceCalculationError();
-      
-      uint256 maxPriceDeviation = _expectedPrice * MAX_PRICE_DEVIATION / 100;
-      if (requiredAmount > _expectedPrice + maxPriceDeviation || requiredAmount < _expectedPrice - maxPriceDeviation) revert SlippageError(_expectedPrice, requiredAmount);
-      
-      IERC20(_token).transferFrom(msg.sender, owner, requiredAmount);
+    /*
+     * @title _checkDestination
+     * @notice Function to check the call, the destination is whitelisted, the contract holds the ETH to pay and the selector of the call is allowed on the destination
+     * @param _destination The destination address
+     * @param _data The data to call the destination with
+     * @param _amount The amount of ETH to pay
+     * @return selector The selector of the call
+     */
+    function _checkDestination(address _destination, bytes calldata _data, uint256 _amount) internal view returns (bytes4 selector) {
+        if (_destination == address(0) || _data.length == 0 || _amount == 0) revert InvalidInput();
+        if (!whitelistedDestinations[_destination]) revert NotWhitelistedDestination(_destination);
+        if (address(this).balance < _amount) revert NotEnoughValueInContract(_amount, address(this).balance);
+
+        selector = _data.length >= 4 ? bytes4(_data[:4]) : bytes4(0);
+        SelectorConfig memory selectorConfig = allowedSelectors[_destination][selector];
+        if (!selectorConfig.allowed) revert NotAllowedSelector(_destination, selector);
+        if (selectorConfig.maxValue != 0 && _amount > selectorConfig.maxValue) revert SelectorValueCapExceeded(_destination, selector, _amount, selectorConfig.maxValue);
+    }
+
+    /*
+     * @title _getWindowAllowance
+     * @notice Function to get the remaining ETH that can be spent in a spend window
+     * @param _window The spend window
+     * @param _cap The maximum ETH spent per window, zero for no cap
+     * @return remaining The remaining ETH that can be spent in the window
+     * @dev The spent ETH decays linearly, so no window boundary lets a full cap be spent twice in a row
+     */
+    function _getWindowAllowance(SpendWindow storage _window, uint256 _cap) internal view returns (uint256 remaining) {
+        if (_cap == 0) return type(uint256).max;
+        uint256 released = (block.timestamp - _window.updatedAt) * _cap / spendLimits.window;
+        uint256 spent = _window.spent > released ? _window.spent - released : 0;
+        remaining = spent >= _cap ? 0 : _cap - spent;
+    }
+
+    /*
+     * @title _useWindowAllowance
+     * @notice Function to spend ETH in a spend window, recording the decayed spent ETH plus the payment
+     * @param _window The spend window
+     * @param _cap The maximum ETH spent per window, zero for no cap
+     * @param _amount The ETH amount
+     * @return remaining The remaining ETH that could be spent in the window before the payment
+     */
+    function _useWindowAllowance(SpendWindow storage _window, uint256 _cap, uint256 _amount) internal returns (uint256 remaining) {
+        remaining = _getWindowAllowance(_window, _cap);
+        if (_cap == 0 || _amount > remaining) return remaining;
+
+        _window.updatedAt = uint64(block.timestamp);
+        _window.spent = uint192(_cap - remaining + _amount);
+    }
+
+    /*
+     * @title _useSpendAllowance
+     * @notice Function to check a payment against the spend limits and record it in the spend windows
+     * @param _payer The payer address
+     * @param _amount The ETH amount
+     */
+    function _useSpendAllowance(address _payer, uint256 _amount) internal {
+        SpendLimits memory limits = spendLimits;
+        if (_amount < limits.minAmount || (limits.maxAmount != 0 && _amount > limits.maxAmount)) revert PaymentAmountOutOfRange(_amount, limits.minAmount, limits.maxAmount);
+
+        uint256 remaining = _useWindowAllowance(userSpendWindows[_payer], limits.userCap, _amount);
+        if (_amount > remaining) revert UserSpendCapExceeded(_payer, _amount, remaining);
+        remaining = _useWindowAllowance(globalSpendWindow, limits.globalCap, _amount);
+        if (_amount > remaining) revert GlobalSpendCapExceeded(_amount, remaining);
+    }
+
+    /*
+     * @title _completePayment
+     * @notice Function to record the collected tokens and perform the paid call
+     * @param _payer The payer address
+     * @param _token The token address
+     * @param _destination The destination address
+     * @param _data The data to call the destination with
+     * @param _selector The selector of the call
+     * @param _amount The amount of ETH to pay
+     * @param _tokenAmount The amount of tokens collected, fee included
+     * @param _expectedPrice The expected price of the token, 0 for max-in payments
+     * @param _maxTokenIn The maximum amount of tokens, 0 for expected price payments
+     * @return result The result of the call
+     */
+    function _completePayment(address _payer, address _token, address _destination, bytes calldata _data, bytes4 _selector, uint256 _amount, uint256 _tokenAmount, uint256 _expectedPrice, uint256 _maxTokenIn) internal returns (bytes memory result) {
+        _useSpendAllowance(_payer, _amount);
+        totalTokensCollected[_token] += _tokenAmount;
+        totalETHSpent[_token] += _amount;
+
+        result = _performSubcall(_destination, _data, _amount);
+        emit PaidWithERC20(_payer, _token, _destination, _selector, _amount, _tokenAmount, _expectedPrice, _maxTokenIn);
+    }
+
+    /*
+     * @title _receiveRequiredTokensWithPermit2
+     * @notice Function to receive the required tokens from the payer with a Permit2 witness signature transfer and send them on
+     * @param _permit The Permit2 permit
+     * @param _signature The signature of the permit
+     * @param _witness The hash of the PaymentWitness of the destination, the data hash and the amount of ETH
+     * @param _amount The amount of ETH to pay
+     * @param _expectedPrice The expected price of the token
+     * @return requiredAmount The amount of tokens received, fee included
+     */
+    function _receiveRequiredTokensWithPermit2(ISignatureTransfer.PermitTransferFrom calldata _permit, bytes calldata _signature, bytes32 _witness, uint256 _amount, uint256 _expectedPrice) internal returns (uint256 requiredAmount) {
+        (uint256 price, uint256 fee) = _getRequiredTokens(_permit.permitted.token, _amount, _expectedPrice);
+        requiredAmount = price + fee;
+
+        ISignatureTransfer(PERMIT2).permitWitnessTransferFrom(
+            _permit,
+            ISignatureTransfer.SignatureTransferDetails(address(this), requiredAmount),
+            msg.sender,
+            _witness,
+            PAYMENT_WITNESS_TYPE_STRING,
+            _signature
+        );
+        _sendRequiredTokens(_permit.permitted.token, address(this), price, fee);
+    }
+
+    /*
+     * @title _pay
+     * @notice Function to collect the tokens from the payer and perform the paid call
+     * @param _token The token address
+     * @param _destination The destination address
+     * @param _data The data to call the destination with
+     * @param _amount The amount of ETH to pay
+     * @param _expectedPrice The expected price of the token
+     * @return result The result of the call
+     */
+    function _pay(address _token, address _destination, bytes calldata _data, uint256 _amount, uint256 _expectedPrice) internal returns (bytes memory result) {
+        bytes4 selector = _checkDestination(_destination, _data, _amount);
+        uint256 tokenAmount = _transferRequiredTokens(_token, _amount, _expectedPrice);
+        result = _completePayment(msg.sender, _token, _destination, _data, selector, _amount, tokenAmount, _expectedPrice, 0);
+    }
+
+    /*
+     * @title _usePaymentIntent
+     * @notice Function to check a payment intent, its signature by the payer, and use its nonce
+     * @param _intent The payment intent
+     * @param _data The data to call the destination with
+     * @param _signature The signature of the intent by the payer
+     * @return selector The selector of the call
+     */
+    function _usePaymentIntent(PaymentIntent calldata _intent, bytes calldata _data, bytes calldata _signature) internal returns (bytes4 selector) {
+        if (_intent.payer == address(0) || _intent.token == address(0) || _intent.maxTokenIn == 0) revert InvalidInput();
+        if (keccak256(_data) != _intent.dataHash) revert InvalidInput();
+        if (_intent.deadline < block.timestamp) revert PaymentIntentExpired(_intent.deadline);
+        selector = _checkDestination(_intent.destination, _data, _intent.ethAmount);
+        if (usedNonces[_intent.payer][_intent.nonce]) revert NonceAlreadyUsed(_intent.payer, _intent.nonce);
+        if (!SignatureChecker.isValidSignatureNow(_intent.payer, hashPaymentIntent(_intent), _signature)) revert InvalidSignature();
+
+        usedNonces[_intent.payer][_intent.nonce] = true;
+    }
+
+    /*
+     * @title _payIntent
+     * @notice Function to collect the tokens from the payer of a payment intent and perform the paid call
+     * @param _intent The payment intent
+     * @param _data The data to call the destination with
+     * @param _selector The selector of the call
+     * @return result The result of the call
+     * @return tokenAmount The amount of tokens collected, fee included
+     */
+    function _payIntent(PaymentIntent calldata _intent, bytes calldata _data, bytes4 _selector) internal returns (bytes memory result, uint256 tokenAmount) {
+        tokenAmount = _transferMaxTokens(_intent.token, _intent.payer, _intent.ethAmount, _intent.maxTokenIn);
+        result = _completePayment(_intent.payer, _intent.token, _intent.destination, _data, _selector, _intent.ethAmount, tokenAmount, 0, _intent.maxTokenIn);
+    }
+
+    /*
+     * @title _compensateRelayer
+     * @notice Function to compensate the relayer's gas with the payer's tokens at the token price
+     * @param _intent The payment intent
+     * @param _gasStart The gas left when the intent was submitted
+     * @param _tokenAmount The amount of tokens collected for the payment, fee included
+     * @dev The compensation is capped by the maximum relayer fee and by the tokens left under the maximum amount of tokens
+     */
+    function _compensateRelayer(PaymentIntent calldata _intent, uint256 _gasStart, uint256 _tokenAmount) internal {
+        uint256 gasCost = (_gasStart - gasleft() + RELAYER_GAS_OVERHEAD) * tx.gasprice;
+        if (gasCost == 0 || _intent.maxRelayerFee == 0) return;
+
+        uint256 relayerFee = Math.min(Math.min(_getPrice(_intent.token, gasCost), _intent.maxRelayerFee), _intent.maxTokenIn - _tokenAmount);
+        if (relayerFee == 0) return;
+
+        IERC20(_intent.token).safeTransferFrom(_intent.payer, msg.sender, relayerFee);
+        emit RelayerCompensated(_intent.payer, msg.sender, _intent.token, _intent.nonce, relayerFee);
+    }
+
+    /*
+     * @title _getSwapPath
+     * @notice Function to encode the price route of the token as a Uniswap V3 swap path
+     * @param _token The token address
+     * @return path The encoded path of tokens and pool fees from the token to WETH
+     */
+    function _getSwapPath(address _token) internal view returns (bytes memory path) {
+        IUniswapV3Pool[] storage pools = _erc20TokenPriceRoutes[_token];
+        if (pools.length == 0) revert NoPoolForToken(_token);
+
+        address[] storage tokens = _erc20TokenPricePaths[_token];
+        path = abi.encodePacked(tokens[0]);
+        for (uint256 i = 0; i < pools.length; i++) {
+            path = abi.encodePacked(path, pools[i].fee(), tokens[i + 1]);
+        }
     }
 
     /*
@@ -283,16 +1172,85 @@ contract BETRERC20Payer is ReentrancyGuardTransient {
      * @notice Function to get the price of the token
      * @param _token The token address
      * @param _amount The amount of ETH to pay
-     * @return _price The price of the token
+     * @return _price The price of the token, fee included
      */
     function getPrice(address _token, uint256 _amount) public view returns (uint256 _price) {
       if (_token == address(0) || _amount == 0) revert InvalidInput();
-      IUniswapV3Pool pool = erc20TokenPricePool[_token];
-      if (address(pool) == address(0)) revert NoPoolForToken(_token);
-      _price = _getPriceFromPool(pool, _token, _amount);
-      
-      // Validate price is reasonable
-      if (_price == 0) revert PriceCalculationError();
+      (uint256 price, uint256 fee) = _getPriceWithFee(_token, _amount);
+      _price = price + fee;
+    }
+
+    /*
+     * @title _getQuoteId
+     * @notice Function to get the ID of the quote of a payer for an amount of ETH
+     * @param _payer The payer address
+     * @param _token The token address
+     * @param _amount The amount of ETH to pay
+     * @return _quoteId The quote ID
+     */
+    function _getQuoteId(address _payer, address _token, uint256 _amount) internal pure returns (bytes32 _quoteId) {
+        _quoteId = keccak256(abi.encode(_payer, _token, _amount));
+    }
+
+    /*
+     * @title quote
+     * @notice Function to quote the tokens to pay for an amount of ETH, valid for the caller for QUOTE_VALIDITY_BLOCKS blocks
+     * @param _token The token address
+     * @param _amount The amount of ETH to pay
+     * @return _tokenAmount The amount of tokens to pay, fee included
+     * @return _quoteId The quote ID
+     * @dev The quoted amount is meant to be passed to payWithERC20MaxIn, which reverts once the quote expires or the price moves above it
+     */
+    function quote(address _token, uint256 _amount) public returns (uint256 _tokenAmount, bytes32 _quoteId) {
+        _tokenAmount = getPrice(_token, _amount);
+        _quoteId = _getQuoteId(msg.sender, _token, _amount);
+        quoteExpiry[_quoteId] = block.number + QUOTE_VALIDITY_BLOCKS;
+        emit QuoteIssued(_quoteId, msg.sender, _token, _amount, _tokenAmount);
+    }
+
+    /*
+     * @title getRemainingAllowance
+     * @notice Function to get the remaining ETH an address can spend in its and the global spend windows
+     * @param _user The user address
+     * @return _remaining The remaining ETH, the lower of the address and the global allowances
+     */
+    function getRemainingAllowance(address _user) public view returns (uint256 _remaining) {
+        _remaining = Math.min(_getWindowAllowance(userSpendWindows[_user], spendLimits.userCap), _getWindowAllowance(globalSpendWindow, spendLimits.globalCap));
+    }
+
+    /*
+     * @title DOMAIN_SEPARATOR
+     * @notice Function to get the EIP-712 domain separator of the payment intents
+     * @return _domainSeparator The domain separator for the current chain
+     */
+    function DOMAIN_SEPARATOR() public view returns (bytes32 _domainSeparator) {
+        _domainSeparator = keccak256(abi.encode(DOMAIN_TYPEHASH, keccak256("BETRERC20Payer"), keccak256("1"), block.chainid, address(this)));
+    }
+
+    /*
+     * @title hashPaymentIntent
+     * @notice Function to get the EIP-712 digest of a payment intent
+     * @param _intent The payment intent
+     * @return _digest The digest to sign by the payer
+     */
+    function hashPaymentIntent(PaymentIntent calldata _intent) public view returns (bytes32 _digest) {
+        _digest = MessageHashUtils.toTypedDataHash(DOMAIN_SEPARATOR(), keccak256(abi.encode(PAYMENT_INTENT_TYPEHASH, _intent)));
+    }
+
+    /*
+     * @title getERC20TokenPriceRoute
+     * @notice Function to get the price route of the token
+     * @param _token The token address
+     * @return _pools The pool addresses from the token to WETH
+     * @return _path The token path from the token to WETH
+     */
+    function getERC20TokenPriceRoute(address _token) public view returns (address[] memory _pools, address[] memory _path) {
+        IUniswapV3Pool[] storage pools = _erc20TokenPriceRoutes[_token];
+        _pools = new address[](pools.length);
+        for (uint256 i = 0; i < pools.length; i++) {
+            _pools[i] = address(pools[i]);
+        }
+        _path = _erc20TokenPricePaths[_token];
     }
 
     /*
@@ -305,13 +1263,30 @@ contract BETRERC20Payer is ReentrancyGuardTransient {
      * @return result The result of the call
      */
     function payWithERC20(address _token, address _destination, bytes calldata _data, uint256 _amount, uint256 _expectedPrice) public nonReentrant returns (bytes memory result) {
-        if (_token == address(0) || _destination == address(0) || _data.length == 0 || _amount == 0 || _expectedPrice == 0) revert InvalidInput();
-        if (!whitelistedDestinations[_destination]) revert NotWhitelistedDestination(_destination);
-        if (address(this).balance < _amount) revert NotEnoughValueInContract(_amount, address(this).balance);
-
-        _transferRequiredTokens(_token, _amount, _expectedPrice);
+        if (_token == address(0) || _expectedPrice == 0) revert InvalidInput();
+        result = _pay(_token, _destination, _data, _amount, _expectedPrice);
+    }
 
-        result = _performSubcall(_destination, _data, _amount);
+    /*
+     * @title payWithERC20MaxIn
+     * @notice Function to pay with ERC20 tokens, pulling the actual amount needed up to a maximum
+     * @param _token The token address
+     * @param _destination The destination address
+     * @param _data The data to call the destination with
+     * @param _amount The amount of ETH to pay
+     * @param _maxTokenIn The maximum amount of tokens to pay, fee included, usually the quoted amount
+     * @return result The result of the call
+     * @dev Unlike payWithERC20, any price better for the payer than the maximum is accepted. The quote of the caller for the amount is used up
+     */
+    function payWithERC20MaxIn(address _token, address _destination, bytes calldata _data, uint256 _amount, uint256 _maxTokenIn) public nonReentrant returns (bytes memory result) {
+        if (_token == address(0) || _maxTokenIn == 0) revert InvalidInput();
+        bytes32 quoteId = _getQuoteId(msg.sender, _token, _amount);
+        uint256 validUntilBlock = quoteExpiry[quoteId];
+        if (block.number > validUntilBlock) revert QuoteExpired(quoteId, validUntilBlock);
+        delete quoteExpiry[quoteId];
+        bytes4 selector = _checkDestination(_destination, _data, _amount);
+        uint256 tokenAmount = _transferMaxTokens(_token, msg.sender, _amount, _maxTokenIn);
+        result = _completePayment(msg.sender, _token, _destination, _data, selector, _amount, tokenAmount, 0, _maxTokenIn);
     }
 
     /*
@@ -330,14 +1305,108 @@ contract BETRERC20Payer is ReentrancyGuardTransient {
      * @return result The result of the call
      */
     function payWithERC20Permit(address _token, address _destination, bytes calldata _data, uint256 _amount, uint256 _expectedPrice, uint256 _spendableAmount, uint256 _deadline, uint8 _v, bytes32 _r, bytes32 _s) public nonReentrant returns (bytes memory result) {
-        if (_token == address(0) || _destination == address(0) || _data.length == 0 || _amount == 0 || _expectedPrice == 0 || _deadline < block.timestamp || _r == bytes32(0) || _s == bytes32(0)) revert InvalidInput();
-        if (!whitelistedDestinations[_destination]) revert NotWhitelistedDestination(_destination);
-        if (address(this).balance < _amount) revert NotEnoughValueInContract(_amount, address(this).balance);
-
+        if (_token == address(0) || _expectedPrice == 0 || _deadline < block.timestamp || _r == bytes32(0) || _s == bytes32(0)) revert InvalidInput();
         IERC20Permit(_token).permit(msg.sender, address(this), _spendableAmount, _deadline, _v, _r, _s);
-        _transferRequiredTokens(_token, _amount, _expectedPrice);
 
-        result = _performSubcall(_destination, _data, _amount);
+        result = _pay(_token, _destination, _data, _amount, _expectedPrice);
+    }
+
+    /*
+     * @title payWithERC20Permit2
+     * @notice Function to pay with ERC20 tokens using a Permit2 signature transfer
+     * @param _destination The destination address
+     * @param _data The data to call the destination with
+     * @param _amount The amount of ETH to pay
+     * @param _expectedPrice The expected price of the token
+     * @param _permit The Permit2 permit, whose permitted amount caps the tokens spent
+     * @param _signature The signature of the permit with a PaymentWitness of the destination, the data hash and the amount of ETH
+     * @return result The result of the call
+     */
+    function payWithERC20Permit2(address _destination, bytes calldata _data, uint256 _amount, uint256 _expectedPrice, ISignatureTransfer.PermitTransferFrom calldata _permit, bytes calldata _signature) public nonReentrant returns (bytes memory result) {
+        if (_permit.permitted.token == address(0) || _expectedPrice == 0 || _signature.length == 0) revert InvalidInput();
+        bytes4 selector = _checkDestination(_destination, _data, _amount);
+        uint256 tokenAmount;
+        {
+            bytes32 witness = keccak256(abi.encode(PAYMENT_WITNESS_TYPEHASH, _destination, keccak256(_data), _amount));
+            tokenAmount = _receiveRequiredTokensWithPermit2(_permit, _signature, witness, _amount, _expectedPrice);
+        }
+
+        result = _completePayment(msg.sender, _permit.permitted.token, _destination, _data, selector, _amount, tokenAmount, _expectedPrice, 0);
+    }
+
+    /*
+     * @title payWithAuthorization
+     * @notice Function to pay with EIP-3009 tokens using a receive authorization
+     * @param _token The token address
+     * @param _destination The destination address
+     * @param _data The data to call the destination with
+     * @param _amount The amount of ETH to pay
+     * @param _expectedPrice The expected price of the token
+     * @param _authorization The receive authorization signed by the caller for this contract
+     * @return result The result of the call
+     */
+    function payWithAuthorization(address _token, address _destination, bytes calldata _data, uint256 _amount, uint256 _expectedPrice, Authorization calldata _authorization) public nonReentrant returns (bytes memory result) {
+        if (_token == address(0) || _expectedPrice == 0 || _authorization.r == bytes32(0) || _authorization.s == bytes32(0)) revert InvalidInput();
+        bytes4 selector = _checkDestination(_destination, _data, _amount);
+        (uint256 price, uint256 fee) = _getRequiredTokens(_token, _amount, _expectedPrice);
+        if (_authorization.value < price + fee) revert InsufficientAuthorizedAmount(_authorization.value, price + fee);
+
+        IERC3009(_token).receiveWithAuthorization(msg.sender, address(this), _authorization.value, _authorization.validAfter, _authorization.validBefore, _authorization.nonce, _authorization.v, _authorization.r, _authorization.s);
+        _sendRequiredTokens(_token, address(this), price, fee);
+        if (_authorization.value > price + fee) IERC20(_token).safeTransfer(msg.sender, _authorization.value - price - fee);
+
+        result = _completePayment(msg.sender, _token, _destination, _data, selector, _amount, price + fee, _expectedPrice, 0);
+    }
+
+    /*
+     * @title payWithIntent
+     * @notice Function to submit a payment intent signed by the payer, compensating the relayer's gas with the payer's tokens
+     * @param _intent The payment intent
+     * @param _data The data to call the destination with
+     * @param _signature The EIP-712 signature of the intent by the payer, or an ERC-1271 signature for contract payers
+     * @return result The result of the call
+     * @dev The payer must have approved the tokens, e.g. with an EIP-2612 permit submitted by the relayer
+     */
+    function payWithIntent(PaymentIntent calldata _intent, bytes calldata _data, bytes calldata _signature) public nonReentrant returns (bytes memory result) {
+        uint256 gasStart = gasleft();
+        bytes4 selector = _usePaymentIntent(_intent, _data, _signature);
+
+        uint256 tokenAmount;
+        (result, tokenAmount) = _payIntent(_intent, _data, selector);
+        _compensateRelayer(_intent, gasStart, tokenAmount);
+    }
+
+    /*
+     * @title cancelPaymentIntent
+     * @notice Function to cancel a payment intent of the caller by using its nonce
+     * @param _nonce The nonce of the intent
+     */
+    function cancelPaymentIntent(uint256 _nonce) public {
+        if (usedNonces[msg.sender][_nonce]) revert NonceAlreadyUsed(msg.sender, _nonce);
+        usedNonces[msg.sender][_nonce] = true;
+        emit PaymentIntentCancelled(msg.sender, _nonce);
+    }
+
+    /*
+     * @title replenish
+     * @notice Function to replenish the ETH float by swapping collected tokens through their price route
+     * @param _token The token address
+     * @param _minEthOut The minimum amount of ETH to receive from the swap
+     * @return ethAmount The amount of ETH received
+     * @dev Only the tokens needed to refill the float up to the high watermark are swapped, capped by the token balance
+     */
+    function replenish(address _token, uint256 _minEthOut) public onlyKeeper nonReentrant returns (uint256 ethAmount) {
+        if (_token == address(0) || swapRouter == address(0)) revert InvalidInput();
+        if (address(this).balance >= lowWatermark) revert FloatAboveLowWatermark(address(this).balance, lowWatermark);
+
+        uint256 tokenAmount = Math.min(_getPrice(_token, highWatermark - address(this).balance), IERC20(_token).balanceOf(address(this)));
+        if (tokenAmount == 0) revert NothingToReplenish(_token);
+
+        IERC20(_token).forceApprove(swapRouter, tokenAmount);
+        ethAmount = IV3SwapRouter(swapRouter).exactInput(IV3SwapRouter.ExactInputParams(_getSwapPath(_token), address(this), tokenAmount, _minEthOut));
+        IWETH9(WETH).withdraw(ethAmount);
+
+        emit Replenished(_token, msg.sender, tokenAmount, ethAmount);
     }
 
     /*
@@ -348,6 +1417,18 @@ contract BETRERC20Payer is ReentrancyGuardTransient {
         payable(owner).transfer(address(this).balance);
     }
 
+    /*
+     * @title recoverERC20
+     * @notice Function to withdraw tokens held by the contract, such as the retained collected tokens
+     * @param _token The token address
+     * @param _amount The amount of tokens to withdraw
+     */
+    function recoverERC20(address _token, uint256 _amount) public onlyOwner {
+        if (_amount == 0) revert InvalidInput();
+        IERC20(_token).safeTransfer(owner, _amount);
+        emit ERC20Recovered(_token, _amount);
+    }
+
     /*
      * @title receiveETH
      * @notice Function to receive ETH
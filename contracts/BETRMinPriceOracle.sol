@@ -0,0 +1,40 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import {IBETRPriceOracle} from "./interfaces/IBETRPriceOracle.sol";
+import {InvalidInput} from "./common/error.sol";
+
+/*
+ * @title BETRMinPriceOracle
+ * @author Mirko Nosenzo (@netnose)
+ * @notice This contract is used to price a token at the minimum price of two oracles
+ * @dev The minimum token price is the largest amount of tokens worth the amount of ETH
+ */
+contract BETRMinPriceOracle is IBETRPriceOracle {
+    IBETRPriceOracle public immutable oracleA;
+    IBETRPriceOracle public immutable oracleB;
+
+    /*
+     * @notice Constructor
+     * @param _oracleA The first oracle address
+     * @param _oracleB The second oracle address
+     */
+    constructor(address _oracleA, address _oracleB) {
+        if (_oracleA == address(0) || _oracleB == address(0) || _oracleA == _oracleB) revert InvalidInput();
+        oracleA = IBETRPriceOracle(_oracleA);
+        oracleB = IBETRPriceOracle(_oracleB);
+    }
+
+    /*
+     * @title getPrice
+     * @notice Function to get the price of the token
+     * @param _token The token address
+     * @param _amount The amount of ETH to pay
+     * @return _price The amount of tokens worth the amount of ETH at the minimum token price
+     */
+    function getPrice(address _token, uint256 _amount) public view returns (uint256 _price) {
+        uint256 priceA = oracleA.getPrice(_token, _amount);
+        uint256 priceB = oracleB.getPrice(_token, _amount);
+        _price = priceA > priceB ? priceA : priceB;
+    }
+}
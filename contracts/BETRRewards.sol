@@ -2,6 +2,9 @@
 pragma solidity ^0.8.28;
 
 import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import {Nonces} from "@openzeppelin/contracts/utils/Nonces.sol";
 import {Ownable} from "./common/Ownable.sol";
 import {IBETRStakingEventHandler} from "./interfaces/IBETRStakingEventHandler.sol";
 import {IBETRStakingStateProvider} from "./interfaces/IBETRStakingStateProvider.sol";
@@ -12,31 +15,57 @@ import {InvalidInput, TokensTransferError} from "./common/error.sol";
  * @author Mirko Nosenzo (@netnose)
  * @notice This contract is used to manage rewards for the staking contract
  */
-contract BETRRewards is IBETRStakingEventHandler, Ownable {
-    mapping(address => uint256) private _debts;
-    mapping(address => uint256) private _credits;
+contract BETRRewards is IBETRStakingEventHandler, Ownable, EIP712, Nonces {
+    mapping(address => mapping(address => uint256)) private _debts;
+    mapping(address => mapping(address => uint256)) private _credits;
 
     uint256 public constant PRECISION = 1e18;
+    uint256 public constant MAX_REWARD_TOKENS = 5;
+    uint256 public constant DEFAULT_QUEUED_REWARDS_DURATION = 7 days;
+    bytes32 public constant CLAIM_TYPEHASH = keccak256("Claim(address user,address recipient,uint256 nonce,uint256 deadline)");
 
     IBETRStakingStateProvider public stakingContract;
     IERC20 public rewardToken;
-    uint256 public rewardAccumulatedPerStakedToken;
-    uint256 public totalRewardsClaimed;
-    uint256 public totalRewardsClaimable;
+    address[] public rewardTokens;
+    mapping(address => bool) public isRewardToken;
+    mapping(address => uint256) public rewardAccumulatedPerStakedToken;
+    mapping(address => uint256) public totalRewardsClaimed;
+    mapping(address => uint256) public totalRewardsClaimable;
     bool public isRewardingPaused;
+    mapping(address => uint256) public rewardRate;
+    mapping(address => uint256) public periodFinish;
+    mapping(address => uint256) public lastUpdateTime;
+    mapping(address => uint256) public rewardRemainder;
+    mapping(address => uint256) public queuedRewards;
+    mapping(address => int256) public roundingDust;
+    uint256 public queuedRewardsDuration;
+
+    /*
+     * @notice Notified stakes
+     * @dev These variables store the effective stake of each user and the total as last processed by this rewarder,
+     * so claims and accumulators stay consistent while the staking contract has pending notifications for it.
+     * Stakes that predate this rewarder are seeded from the staking contract the first time they are touched
+     */
+    mapping(address => uint256) private _notifiedStakedAmounts;
+    mapping(address => bool) private _isStakeSeeded;
+    uint256 private _totalNotifiedStakedAmount;
+    bool private _isTotalStakeSeeded;
 
     /*
      * @notice Constructor
      * @param _owner The owner of the contract
      * @param _stakingContract The address of the staking contract
-     * @param _rewardToken The address of the reward token
+     * @param _rewardToken The address of the primary reward token
      */
-    constructor(address _owner, address _stakingContract, address _rewardToken) Ownable(_owner) {
+    constructor(address _owner, address _stakingContract, address _rewardToken) Ownable(_owner) EIP712("BETRRewards", "1") {
         if (_stakingContract == address(0)) revert InvalidInput();
         if (_rewardToken == address(0)) revert InvalidInput();
 
         stakingContract = IBETRStakingStateProvider(_stakingContract);
         rewardToken = IERC20(_rewardToken);
+        rewardTokens.push(_rewardToken);
+        isRewardToken[_rewardToken] = true;
+        queuedRewardsDuration = DEFAULT_QUEUED_REWARDS_DURATION;
     }
 
     /*
@@ -52,12 +81,6 @@ contract BETRRewards is IBETRStakingEventHandler, Ownable {
      */
     error NoClaimableReward(address _staker);
 
-    /*
-     * @title NoStakedAmount
-     * @notice Error to check if there is no staked amount
-     */
-    error NoStakedAmount();
-
     /*
      * @title NotStakingContract
      * @notice Error to check if the caller is not the staking contract
@@ -70,6 +93,41 @@ contract BETRRewards is IBETRStakingEventHandler, Ownable {
      */
     error StakingContractNotRewarder();
 
+    /*
+     * @title NotRewardToken
+     * @notice Error to check if the token is not a registered reward token
+     * @param _token The address of the token
+     */
+    error NotRewardToken(address _token);
+
+    /*
+     * @title TooManyRewardTokens
+     * @notice Error to check if the maximum number of reward tokens is reached
+     */
+    error TooManyRewardTokens();
+
+    /*
+     * @title SignatureExpired
+     * @notice Error to check if the deadline of a signature has passed
+     * @param _deadline The deadline of the signature
+     */
+    error SignatureExpired(uint256 _deadline);
+
+    /*
+     * @title InvalidSigner
+     * @notice Error to check if a signature was not signed by the user
+     * @param _signer The recovered signer
+     * @param _user The user the signature is for
+     */
+    error InvalidSigner(address _signer, address _user);
+
+    /*
+     * @title NoUnallocatedRewards
+     * @notice Error to check if there are no unallocated tokens to sweep
+     * @param _token The address of the token
+     */
+    error NoUnallocatedRewards(address _token);
+
     /*
      * @title RewardingPausedSet
      * @notice Event to notify when the rewarding is paused
@@ -77,20 +135,81 @@ contract BETRRewards is IBETRStakingEventHandler, Ownable {
      */
     event RewardingPausedSet(bool indexed _isRewardingPaused);
 
+    /*
+     * @title RewardTokenAdded
+     * @notice Event to notify when a reward token is registered
+     * @param _token The address of the reward token
+     */
+    event RewardTokenAdded(address indexed _token);
+
     /*
      * @title RewardAdded
      * @notice Event to notify when a reward is added
+     * @param _token The address of the reward token
+     * @param _amount The amount of the reward
+     */
+    event RewardAdded(address indexed _token, uint256 _amount);
+
+    /*
+     * @title RewardQueued
+     * @notice Event to notify when a reward is queued because nothing is staked
+     * @param _token The address of the reward token
      * @param _amount The amount of the reward
      */
-    event RewardAdded(uint256 _amount);
+    event RewardQueued(address indexed _token, uint256 _amount);
+
+    /*
+     * @title QueuedRewardsReleased
+     * @notice Event to notify when the queued rewards start streaming to the stakers
+     * @param _token The address of the reward token
+     * @param _amount The amount of the queued rewards
+     */
+    event QueuedRewardsReleased(address indexed _token, uint256 _amount);
+
+    /*
+     * @title RewardPeriodNotified
+     * @notice Event to notify when a streaming reward period is started or extended
+     * @param _token The address of the reward token
+     * @param _amount The amount of the reward added to the period
+     * @param _duration The duration of the period
+     * @param _rewardRate The new reward rate per second
+     * @param _periodFinish The new end of the period
+     */
+    event RewardPeriodNotified(address indexed _token, uint256 _amount, uint256 _duration, uint256 _rewardRate, uint256 _periodFinish);
 
     /*
      * @title RewardClaimed
      * @notice Event to notify when a reward is claimed
      * @param _staker The address of the staker
+     * @param _token The address of the reward token
+     * @param _recipient The address receiving the reward
      * @param _amount The amount of the reward
      */
-    event RewardClaimed(address indexed _staker, uint256 _amount);
+    event RewardClaimed(address indexed _staker, address indexed _token, address indexed _recipient, uint256 _amount);
+
+    /*
+     * @title RewardCompounded
+     * @notice Event to notify when a reward is restaked into the staking contract
+     * @param _staker The address of the staker
+     * @param _amount The amount of the reward
+     */
+    event RewardCompounded(address indexed _staker, uint256 _amount);
+
+    /*
+     * @title UnallocatedRewardsSwept
+     * @notice Event to notify when unallocated tokens are swept
+     * @param _token The address of the token
+     * @param _to The address receiving the tokens
+     * @param _amount The amount of tokens swept
+     */
+    event UnallocatedRewardsSwept(address indexed _token, address indexed _to, uint256 _amount);
+
+    /*
+     * @title QueuedRewardsDurationSet
+     * @notice Event to notify when the duration over which queued rewards are streamed is set
+     * @param _duration The new duration in seconds
+     */
+    event QueuedRewardsDurationSet(uint256 indexed _duration);
 
     /*
      * @title onlyStakingContract
@@ -102,84 +221,590 @@ contract BETRRewards is IBETRStakingEventHandler, Ownable {
     }
 
     /*
-     * @title _claim
-     * @notice Function to claim a reward
+     * @title onlyRewardToken
+     * @notice Modifier to check if the token is a registered reward token
+     * @param _token The address of the token
+     */
+    modifier onlyRewardToken(address _token) {
+        if (!isRewardToken[_token]) revert NotRewardToken(_token);
+        _;
+    }
+
+    /*
+     * @title _getStakedAmount
+     * @notice Function to get the effective stake of a user as last processed by this rewarder
      * @param _user The address of the user
+     * @return _amount The notified stake, or the stake known by the staking contract if the user was never notified
+     * @dev Stakes are only read from the staking contract while this contract is a rewarder, as later changes are not notified
+     */
+    function _getStakedAmount(address _user) internal view returns (uint256 _amount) {
+        if (_isStakeSeeded[_user]) return _notifiedStakedAmounts[_user];
+        if (!stakingContract.isRewarder(address(this))) return 0;
+        return stakingContract.notifiedStakedAmount(address(this), _user);
+    }
+
+    /*
+     * @title _getTotalStakedAmount
+     * @notice Function to get the total effective stake as last processed by this rewarder
+     * @return _amount The notified total, or the total of the staking contract if it was never seeded
+     */
+    function _getTotalStakedAmount() internal view returns (uint256 _amount) {
+        if (_isTotalStakeSeeded) return _totalNotifiedStakedAmount;
+        if (!stakingContract.isRewarder(address(this))) return 0;
+        return stakingContract.totalEffectiveStakedAmount();
+    }
+
+    /*
+     * @title _seedTotalStakedAmount
+     * @notice Function to record the total effective stake the first time rewards are added
+     * @return _amount The total effective stake
+     */
+    function _seedTotalStakedAmount() internal returns (uint256 _amount) {
+        if (_isTotalStakeSeeded) return _totalNotifiedStakedAmount;
+        _amount = stakingContract.totalEffectiveStakedAmount();
+        _totalNotifiedStakedAmount = _amount;
+        _isTotalStakeSeeded = true;
+    }
+
+    /*
+     * @title _pendingRewardPerToken
+     * @notice Function to get the streamed rewards not yet checkpointed into the accumulated reward per staked token
+     * @param _token The address of the reward token
+     * @param _totalStakedAmount The total staked amount the streamed rewards are spread over
+     * @return _increment The increment of the accumulated reward per staked token
+     * @return _remainder The precision remainder carried into the next distribution
+     * @return _unallocated The amount streamed while nothing was staked, which nobody can claim
+     */
+    function _pendingRewardPerToken(address _token, uint256 _totalStakedAmount) internal view returns (uint256 _increment, uint256 _remainder, uint256 _unallocated) {
+        uint256 streamed = (lastTimeRewardApplicable(_token) - lastUpdateTime[_token]) * rewardRate[_token];
+        if (_totalStakedAmount == 0) return (0, rewardRemainder[_token], streamed);
+
+        uint256 numerator = streamed * PRECISION + rewardRemainder[_token];
+        return (numerator / _totalStakedAmount, numerator % _totalStakedAmount, 0);
+    }
+
+    /*
+     * @title _rewardPerToken
+     * @notice Function to get the reward accumulated per staked token including the streamed rewards
+     * @param _token The address of the reward token
+     * @param _totalStakedAmount The total staked amount the streamed rewards are spread over
+     * @return _amount The reward accumulated per staked token
+     */
+    function _rewardPerToken(address _token, uint256 _totalStakedAmount) internal view returns (uint256 _amount) {
+        (uint256 increment,,) = _pendingRewardPerToken(_token, _totalStakedAmount);
+        return rewardAccumulatedPerStakedToken[_token] + increment;
+    }
+
+    /*
+     * @title _updateRewardPerToken
+     * @notice Function to checkpoint the streamed rewards into the accumulated reward per staked token
+     * @param _token The address of the reward token
+     * @param _totalStakedAmount The total staked amount the streamed rewards are spread over
      */
-    function _claim(address _user, uint256 _stakedAmount) internal {
+    function _updateRewardPerToken(address _token, uint256 _totalStakedAmount) internal {
+        (uint256 increment, uint256 remainder, uint256 unallocated) = _pendingRewardPerToken(_token, _totalStakedAmount);
+        rewardAccumulatedPerStakedToken[_token] += increment;
+        rewardRemainder[_token] = remainder;
+        totalRewardsClaimable[_token] -= unallocated;
+        lastUpdateTime[_token] = lastTimeRewardApplicable(_token);
+    }
+
+    /*
+     * @title _distribute
+     * @notice Function to distribute a reward instantly to the current stakers
+     * @param _token The address of the reward token
+     * @param _amount The amount of the reward
+     * @param _totalStakedAmount The total staked amount the reward is spread over
+     */
+    function _distribute(address _token, uint256 _amount, uint256 _totalStakedAmount) internal {
+        uint256 numerator = _amount * PRECISION + rewardRemainder[_token];
+        rewardAccumulatedPerStakedToken[_token] += numerator / _totalStakedAmount;
+        rewardRemainder[_token] = numerator % _totalStakedAmount;
+    }
+
+    /*
+     * @title _startRewardPeriod
+     * @notice Function to stream a reward over a period, together with the rest of the running period
+     * @param _token The address of the reward token
+     * @param _amount The amount of the reward
+     * @param _duration The duration of the period in seconds
+     * @return _rewardRate The new reward rate per second
+     * @dev The streamed rewards must be checkpointed before the period is changed
+     */
+    function _startRewardPeriod(address _token, uint256 _amount, uint256 _duration) internal returns (uint256 _rewardRate) {
+        uint256 totalAmount = _amount;
+        if (block.timestamp < periodFinish[_token]) {
+            totalAmount += (periodFinish[_token] - block.timestamp) * rewardRate[_token];
+        }
+        _rewardRate = totalAmount / _duration;
+
+        rewardRate[_token] = _rewardRate;
+        rewardRemainder[_token] += (totalAmount - _rewardRate * _duration) * PRECISION;
+        lastUpdateTime[_token] = block.timestamp;
+        periodFinish[_token] = block.timestamp + _duration;
+    }
+
+    /*
+     * @title _releaseQueuedRewards
+     * @notice Function to stream the rewards queued while nothing was staked
+     * @param _token The address of the reward token
+     * @param _totalStakedAmount The total staked amount the rewards are spread over
+     * @dev The rewards are streamed over the queued rewards duration, or the rest of the running period if longer,
+     * so the first staker cannot take the whole queue with a minimal stake
+     */
+    function _releaseQueuedRewards(address _token, uint256 _totalStakedAmount) internal {
+        uint256 queuedAmount = queuedRewards[_token];
+        if (queuedAmount == 0 || _totalStakedAmount == 0) return;
+
+        queuedRewards[_token] = 0;
+        uint256 duration = queuedRewardsDuration;
+        if (periodFinish[_token] > block.timestamp + duration) duration = periodFinish[_token] - block.timestamp;
+        _startRewardPeriod(_token, queuedAmount, duration);
+        emit QueuedRewardsReleased(_token, queuedAmount);
+    }
+
+    /*
+     * @title _trackRoundingDust
+     * @notice Function to account for the rounding of a user's rewards when the stake changes
+     * @param _token The address of the reward token
+     * @param _lost The precision remainder of the reward credited for the old stake
+     * @param _gained The precision remainder of the debt set for the new stake
+     * @dev Whole tokens of accumulated dust are no longer claimable by anyone and are released to the unallocated rewards
+     */
+    function _trackRoundingDust(address _token, uint256 _lost, uint256 _gained) internal {
+        if (_lost == _gained) return;
+
+        int256 dust = roundingDust[_token] + int256(_lost) - int256(_gained);
+        if (dust >= int256(PRECISION)) {
+            uint256 amount = uint256(dust) / PRECISION;
+            totalRewardsClaimable[_token] -= amount;
+            dust -= int256(amount * PRECISION);
+        }
+        roundingDust[_token] = dust;
+    }
+
+    /*
+     * @title _reclaimableRewards
+     * @notice Function to get the rewards that can no longer be distributed once this contract is not a rewarder
+     * @param _token The address of the reward token
+     * @param _remainder The precision remainder of the reward token
+     * @return _amount The queued rewards, the rest of the running period and the whole tokens of the precision remainder
+     */
+    function _reclaimableRewards(address _token, uint256 _remainder) internal view returns (uint256 _amount) {
+        if (stakingContract.isRewarder(address(this))) return 0;
+
+        _amount = queuedRewards[_token] + _remainder / PRECISION;
+        if (block.timestamp < periodFinish[_token]) {
+            _amount += (periodFinish[_token] - block.timestamp) * rewardRate[_token];
+        }
+    }
+
+    /*
+     * @title _reclaimRewards
+     * @notice Function to stop distributing a reward token once this contract is no longer a rewarder
+     * @param _token The address of the reward token
+     * @dev Stakes are no longer notified, so the queued rewards and the rest of the running period become unallocated
+     */
+    function _reclaimRewards(address _token) internal {
+        uint256 amount = _reclaimableRewards(_token, rewardRemainder[_token]);
+        if (amount == 0) return;
+
+        totalRewardsClaimable[_token] -= amount;
+        queuedRewards[_token] = 0;
+        rewardRemainder[_token] %= PRECISION;
+        if (block.timestamp < periodFinish[_token]) periodFinish[_token] = block.timestamp;
+    }
+
+    /*
+     * @title _settle
+     * @notice Function to mark the pending reward of a user as claimed
+     * @param _token The address of the reward token
+     * @param _user The address of the user
+     * @param _stakedAmount The staked amount of the user
+     * @return _amount The amount of the settled reward
+     */
+    function _settle(address _token, address _user, uint256 _stakedAmount) internal returns (uint256 _amount) {
         if (_user == address(0)) revert InvalidInput();
 
-        uint256 rewardAmount = rewardAccumulatedPerStakedToken * _stakedAmount / PRECISION;
-        uint256 actualRewardAmount = rewardAmount - _debts[_user] + _credits[_user];
-        if (actualRewardAmount == 0) revert NoClaimableReward(_user);
+        _updateRewardPerToken(_token, _getTotalStakedAmount());
 
-        _debts[_user] = rewardAmount;
-        _credits[_user] = 0;
-        totalRewardsClaimed += actualRewardAmount;
-        totalRewardsClaimable -= actualRewardAmount;
+        uint256 rewardAmount = rewardAccumulatedPerStakedToken[_token] * _stakedAmount / PRECISION;
+        uint256 actualRewardAmount = rewardAmount - _debts[_token][_user] + _credits[_token][_user];
+        if (actualRewardAmount == 0) return 0;
+
+        _debts[_token][_user] = rewardAmount;
+        _credits[_token][_user] = 0;
+        totalRewardsClaimed[_token] += actualRewardAmount;
+        totalRewardsClaimable[_token] -= actualRewardAmount;
+        return actualRewardAmount;
+    }
+
+    /*
+     * @title _claim
+     * @notice Function to claim a reward
+     * @param _token The address of the reward token
+     * @param _user The address of the user
+     * @param _recipient The address receiving the reward
+     * @param _stakedAmount The staked amount of the user
+     * @return _amount The amount of the claimed reward
+     */
+    function _claim(address _token, address _user, address _recipient, uint256 _stakedAmount) internal returns (uint256 _amount) {
+        uint256 actualRewardAmount = _settle(_token, _user, _stakedAmount);
+        if (actualRewardAmount == 0) return 0;
 
-        try rewardToken.transfer(_user, actualRewardAmount) returns (bool success) {
+        try IERC20(_token).transfer(_recipient, actualRewardAmount) returns (bool success) {
             if (!success) revert TokensTransferError();
         } catch {
             revert TokensTransferError();
         }
-        
-        emit RewardClaimed(_user, actualRewardAmount);
+
+        emit RewardClaimed(_user, _token, _recipient, actualRewardAmount);
+        return actualRewardAmount;
     }
 
     /*
-     * @title claimable
-     * @notice Function to get the claimable rewards for a staker
-     * @param _staker The address of the staker
-     * @return _amount The amount of the claimable rewards
+     * @title _claimAll
+     * @notice Function to claim the rewards of every reward token
+     * @param _user The address of the user
+     * @param _recipient The address receiving the rewards
      */
-    function claimable(address _staker) public view returns (uint256 _amount) {
-        uint256 rewardAmount = rewardAccumulatedPerStakedToken * stakingContract.stakedAmount(_staker) / PRECISION;
-        uint256 actualRewardAmount = rewardAmount - _debts[_staker] + _credits[_staker];
-        return actualRewardAmount;
+    function _claimAll(address _user, address _recipient) internal {
+        if (_recipient == address(0)) revert InvalidInput();
+
+        uint256 stakedAmount = _getStakedAmount(_user);
+        uint256 claimedTokens = 0;
+        for (uint256 i = 0; i < rewardTokens.length; i++) {
+            if (_claim(rewardTokens[i], _user, _recipient, stakedAmount) > 0) claimedTokens++;
+        }
+        if (claimedTokens == 0) revert NoClaimableReward(_user);
     }
 
     /*
-     * @title claimable
-     * @notice Function to get the claimable rewards for the caller
-     * @return _amount The amount of the claimable rewards
+     * @title _compound
+     * @notice Function to restake the pending staking token reward of a user
+     * @param _user The address of the user
+     * @return _amount The amount of the compounded reward
+     * @dev The debt is settled before staking, so the onStakeChanged callback fired by stakeFor carries no credit over
      */
-    function claimable() public view returns (uint256 _amount) {
-        return claimable(msg.sender);
+    function _compound(address _user) internal returns (uint256 _amount) {
+        address token = address(stakingContract.stakingToken());
+        if (!isRewardToken[token]) revert NotRewardToken(token);
+
+        uint256 actualRewardAmount = _settle(token, _user, _getStakedAmount(_user));
+        if (actualRewardAmount == 0) return 0;
+
+        try IERC20(token).approve(address(stakingContract), actualRewardAmount) returns (bool success) {
+            if (!success) revert TokensTransferError();
+        } catch {
+            revert TokensTransferError();
+        }
+        stakingContract.stakeFor(_user, actualRewardAmount);
+
+        emit RewardCompounded(_user, actualRewardAmount);
+        return actualRewardAmount;
     }
 
     /*
-     * @title addReward
+     * @title _addReward
      * @notice Function to add a reward
+     * @param _token The address of the reward token
      * @param _amount The amount of the reward
      */
-    function addReward(uint256 _amount) public {
+    function _addReward(address _token, uint256 _amount) internal {
+        if (isRewardingPaused) revert RewardingPaused();
+        if (_amount == 0) revert InvalidInput();
+        if (!stakingContract.isRewarder(address(this))) revert StakingContractNotRewarder();
+
+        uint256 totalStakedAmount = _seedTotalStakedAmount();
+        _updateRewardPerToken(_token, totalStakedAmount);
+        if (totalStakedAmount == 0) {
+            queuedRewards[_token] += _amount;
+        } else {
+            _releaseQueuedRewards(_token, totalStakedAmount);
+            _distribute(_token, _amount, totalStakedAmount);
+        }
+        totalRewardsClaimable[_token] += _amount;
+
+        try IERC20(_token).transferFrom(msg.sender, address(this), _amount) returns (bool success) {
+            if (!success) revert TokensTransferError();
+        } catch {
+            revert TokensTransferError();
+        }
+
+        if (totalStakedAmount == 0) {
+            emit RewardQueued(_token, _amount);
+        } else {
+            emit RewardAdded(_token, _amount);
+        }
+    }
+
+    /*
+     * @title _notifyRewardAmount
+     * @notice Function to stream a reward to the stakers over a period
+     * @param _token The address of the reward token
+     * @param _amount The amount of the reward
+     * @param _duration The duration of the period in seconds
+     */
+    function _notifyRewardAmount(address _token, uint256 _amount, uint256 _duration) internal {
         if (isRewardingPaused) revert RewardingPaused();
         if (_amount == 0) revert InvalidInput();
+        if (_duration == 0) revert InvalidInput();
         if (!stakingContract.isRewarder(address(this))) revert StakingContractNotRewarder();
 
-        uint256 totalStakedAmount = stakingContract.totalStakedAmount();
-        if (totalStakedAmount == 0) revert NoStakedAmount();
+        uint256 totalStakedAmount = _seedTotalStakedAmount();
+        _updateRewardPerToken(_token, totalStakedAmount);
+        _releaseQueuedRewards(_token, totalStakedAmount);
 
-        rewardAccumulatedPerStakedToken += (_amount * PRECISION) / totalStakedAmount;
-        totalRewardsClaimable += _amount;
+        uint256 newRewardRate = _startRewardPeriod(_token, _amount, _duration);
+        if (newRewardRate == 0) revert InvalidInput();
+        totalRewardsClaimable[_token] += _amount;
 
-        try rewardToken.transferFrom(msg.sender, address(this), _amount) returns (bool success) {
+        try IERC20(_token).transferFrom(msg.sender, address(this), _amount) returns (bool success) {
             if (!success) revert TokensTransferError();
         } catch {
             revert TokensTransferError();
         }
 
-        emit RewardAdded(_amount);
+        emit RewardPeriodNotified(_token, _amount, _duration, newRewardRate, periodFinish[_token]);
+    }
+
+    /*
+     * @title claimable
+     * @notice Function to get the claimable rewards of a reward token for a staker
+     * @param _token The address of the reward token
+     * @param _staker The address of the staker
+     * @return _amount The amount of the claimable rewards
+     */
+    function claimable(address _token, address _staker) public view returns (uint256 _amount) {
+        uint256 rewardAmount = rewardPerToken(_token) * _getStakedAmount(_staker) / PRECISION;
+        uint256 actualRewardAmount = rewardAmount - _debts[_token][_staker] + _credits[_token][_staker];
+        return actualRewardAmount;
+    }
+
+    /*
+     * @title claimable
+     * @notice Function to get the claimable rewards of every reward token for a staker
+     * @param _staker The address of the staker
+     * @return _tokens The addresses of the reward tokens
+     * @return _amounts The amounts of the claimable rewards
+     */
+    function claimable(address _staker) public view returns (address[] memory _tokens, uint256[] memory _amounts) {
+        _tokens = rewardTokens;
+        _amounts = new uint256[](_tokens.length);
+        for (uint256 i = 0; i < _tokens.length; i++) {
+            _amounts[i] = claimable(_tokens[i], _staker);
+        }
+    }
+
+    /*
+     * @title claimable
+     * @notice Function to get the claimable rewards of every reward token for the caller
+     * @return _tokens The addresses of the reward tokens
+     * @return _amounts The amounts of the claimable rewards
+     */
+    function claimable() public view returns (address[] memory _tokens, uint256[] memory _amounts) {
+        return claimable(msg.sender);
+    }
+
+    /*
+     * @title unallocatedRewards
+     * @notice Function to get the balance of a token that is not owed to any staker
+     * @param _token The address of the token
+     * @return _amount The amount of unallocated tokens
+     * @dev Rounding dust released on stake changes, rewards streamed while nothing was staked, tokens sent directly to the contract
+     * and, once this contract is removed as a rewarder, the queued rewards and the rest of the running period
+     */
+    function unallocatedRewards(address _token) public view returns (uint256 _amount) {
+        (, uint256 remainder, uint256 unallocated) = _pendingRewardPerToken(_token, _getTotalStakedAmount());
+        uint256 owedAmount = totalRewardsClaimable[_token] - unallocated;
+        if (isRewardToken[_token]) owedAmount -= _reclaimableRewards(_token, remainder);
+        uint256 balance = IERC20(_token).balanceOf(address(this));
+        return balance > owedAmount ? balance - owedAmount : 0;
+    }
+
+    /*
+     * @title notifiedStakedAmount
+     * @notice Function to get the effective stake of a user as last processed by this rewarder
+     * @param _user The address of the user
+     * @return _amount The effective stake of the user rewards are accrued on
+     */
+    function notifiedStakedAmount(address _user) public view returns (uint256 _amount) {
+        return _getStakedAmount(_user);
+    }
+
+    /*
+     * @title totalNotifiedStakedAmount
+     * @notice Function to get the total effective stake as last processed by this rewarder
+     * @return _amount The total effective stake rewards are spread over
+     */
+    function totalNotifiedStakedAmount() public view returns (uint256 _amount) {
+        return _getTotalStakedAmount();
+    }
+
+    /*
+     * @title getRewardTokens
+     * @notice Function to get the registered reward tokens
+     * @return _tokens The addresses of the reward tokens
+     */
+    function getRewardTokens() public view returns (address[] memory _tokens) {
+        return rewardTokens;
+    }
+
+    /*
+     * @title lastTimeRewardApplicable
+     * @notice Function to get the last timestamp at which the streamed rewards of a reward token accrue
+     * @param _token The address of the reward token
+     * @return _timestamp The current timestamp, capped at the end of the period
+     */
+    function lastTimeRewardApplicable(address _token) public view returns (uint256 _timestamp) {
+        return block.timestamp < periodFinish[_token] ? block.timestamp : periodFinish[_token];
+    }
+
+    /*
+     * @title rewardPerToken
+     * @notice Function to get the reward accumulated per staked token including the streamed rewards
+     * @param _token The address of the reward token
+     * @return _amount The reward accumulated per staked token
+     */
+    function rewardPerToken(address _token) public view returns (uint256 _amount) {
+        return _rewardPerToken(_token, _getTotalStakedAmount());
+    }
+
+    /*
+     * @title addRewardToken
+     * @notice Function to register a reward token (owner only)
+     * @param _token The address of the reward token
+     */
+    function addRewardToken(address _token) public onlyOwner {
+        if (_token == address(0)) revert InvalidInput();
+        if (isRewardToken[_token]) revert InvalidInput();
+        if (rewardTokens.length >= MAX_REWARD_TOKENS) revert TooManyRewardTokens();
+
+        rewardTokens.push(_token);
+        isRewardToken[_token] = true;
+        emit RewardTokenAdded(_token);
+    }
+
+    /*
+     * @title addReward
+     * @notice Function to add a reward of a reward token
+     * @param _token The address of the reward token
+     * @param _amount The amount of the reward
+     */
+    function addReward(address _token, uint256 _amount) public onlyRewardToken(_token) {
+        _addReward(_token, _amount);
+    }
+
+    /*
+     * @title addReward
+     * @notice Function to add a reward of the primary reward token
+     * @param _amount The amount of the reward
+     */
+    function addReward(uint256 _amount) public {
+        _addReward(address(rewardToken), _amount);
+    }
+
+    /*
+     * @title notifyRewardAmount
+     * @notice Function to stream a reward of a reward token to the stakers over a period (owner only)
+     * @param _token The address of the reward token
+     * @param _amount The amount of the reward
+     * @param _duration The duration of the period in seconds
+     * @dev The undistributed remainder of a running period is rolled over into the new one
+     */
+    function notifyRewardAmount(address _token, uint256 _amount, uint256 _duration) public onlyOwner onlyRewardToken(_token) {
+        _notifyRewardAmount(_token, _amount, _duration);
+    }
+
+    /*
+     * @title notifyRewardAmount
+     * @notice Function to stream a reward of the primary reward token to the stakers over a period (owner only)
+     * @param _amount The amount of the reward
+     * @param _duration The duration of the period in seconds
+     * @dev The undistributed remainder of a running period is rolled over into the new one
+     */
+    function notifyRewardAmount(uint256 _amount, uint256 _duration) public onlyOwner {
+        _notifyRewardAmount(address(rewardToken), _amount, _duration);
     }
 
     /*
      * @title claim
-     * @notice Function to claim a reward
+     * @notice Function to claim a reward of a reward token
+     * @param _token The address of the reward token
+     */
+    function claim(address _token) public onlyRewardToken(_token) {
+        if (isRewardingPaused) revert RewardingPaused();
+        if (_claim(_token, msg.sender, msg.sender, _getStakedAmount(msg.sender)) == 0) revert NoClaimableReward(msg.sender);
+    }
+
+    /*
+     * @title claim
+     * @notice Function to claim a reward of the primary reward token
      */
     function claim() public {
+        claim(address(rewardToken));
+    }
+
+    /*
+     * @title claimAll
+     * @notice Function to claim the rewards of every reward token
+     */
+    function claimAll() public {
+        if (isRewardingPaused) revert RewardingPaused();
+        _claimAll(msg.sender, msg.sender);
+    }
+
+    /*
+     * @title claimTo
+     * @notice Function to claim the rewards of every reward token to a recipient
+     * @param _recipient The address receiving the rewards
+     */
+    function claimTo(address _recipient) public {
+        if (isRewardingPaused) revert RewardingPaused();
+        _claimAll(msg.sender, _recipient);
+    }
+
+    /*
+     * @title claimBySig
+     * @notice Function to claim the rewards of every reward token on behalf of a user with an EIP-712 signature
+     * @param _user The user who signed the claim
+     * @param _recipient The address receiving the rewards
+     * @param _deadline The deadline of the signature
+     * @param _v The v parameter of the signature
+     * @param _r The r parameter of the signature
+     * @param _s The s parameter of the signature
+     */
+    function claimBySig(address _user, address _recipient, uint256 _deadline, uint8 _v, bytes32 _r, bytes32 _s) public {
+        if (isRewardingPaused) revert RewardingPaused();
+        if (block.timestamp > _deadline) revert SignatureExpired(_deadline);
+
+        bytes32 structHash = keccak256(abi.encode(CLAIM_TYPEHASH, _user, _recipient, _useNonce(_user), _deadline));
+        address signer = ECDSA.recover(_hashTypedDataV4(structHash), _v, _r, _s);
+        if (signer != _user) revert InvalidSigner(signer, _user);
+
+        _claimAll(_user, _recipient);
+    }
+
+    /*
+     * @title compound
+     * @notice Function to restake the pending reward when the reward token is the staking token
+     */
+    function compound() public {
         if (isRewardingPaused) revert RewardingPaused();
-        _claim(msg.sender, stakingContract.stakedAmount(msg.sender));
+        if (_compound(msg.sender) == 0) revert NoClaimableReward(msg.sender);
+    }
+
+    /*
+     * @title batchCompound
+     * @notice Admin function to restake the pending rewards of multiple users (owner only)
+     * @param _users Array of addresses of the users to compound rewards for
+     * @dev Users without a pending reward are skipped
+     */
+    function batchCompound(address[] memory _users) public onlyOwner {
+        if (isRewardingPaused) revert RewardingPaused();
+        for (uint256 i = 0; i < _users.length; i++) {
+            _compound(_users[i]);
+        }
     }
 
     /*
@@ -190,8 +815,33 @@ contract BETRRewards is IBETRStakingEventHandler, Ownable {
      */
     function batchClaim(address[] memory _users) public onlyOwner {
         for (uint256 i = 0; i < _users.length; i++) {
-            _claim(_users[i], stakingContract.stakedAmount(_users[i]));
+            _claimAll(_users[i], _users[i]);
+        }
+    }
+
+    /*
+     * @title sweepUnallocated
+     * @notice Function to withdraw the tokens that are not owed to any staker (owner only)
+     * @param _token The address of the token
+     * @param _to The address receiving the tokens
+     */
+    function sweepUnallocated(address _token, address _to) public onlyOwner {
+        if (_to == address(0)) revert InvalidInput();
+        if (isRewardToken[_token]) {
+            _updateRewardPerToken(_token, _getTotalStakedAmount());
+            _reclaimRewards(_token);
+        }
+
+        uint256 amount = unallocatedRewards(_token);
+        if (amount == 0) revert NoUnallocatedRewards(_token);
+
+        try IERC20(_token).transfer(_to, amount) returns (bool success) {
+            if (!success) revert TokensTransferError();
+        } catch {
+            revert TokensTransferError();
         }
+
+        emit UnallocatedRewardsSwept(_token, _to, amount);
     }
 
     /*
@@ -204,20 +854,51 @@ contract BETRRewards is IBETRStakingEventHandler, Ownable {
         emit RewardingPausedSet(_isRewardingPaused);
     }
 
+    /*
+     * @title setQueuedRewardsDuration
+     * @notice Function to set the duration over which the rewards queued while nothing was staked are streamed (owner only)
+     * @param _duration The new duration in seconds
+     */
+    function setQueuedRewardsDuration(uint256 _duration) public onlyOwner {
+        if (_duration == 0) revert InvalidInput();
+        queuedRewardsDuration = _duration;
+        emit QueuedRewardsDurationSet(_duration);
+    }
+
     /*
      * @title onStakeChanged
      * @notice Function to handle the stake changed event
      * @param _user The address of the user
      * @param _oldAmount The old amount of the stake
      * @param _newAmount The new amount of the stake
+     * @dev The old amount is taken from the stake last processed by this rewarder, which replayed and resynced notifications also start from.
+     * Users and totals never notified before are seeded from the old amount and the total of the staking contract before this change
      */
     function onStakeChanged(address _user, uint256 _oldAmount, uint256 _newAmount) public onlyStakingContract {
         if (_user == address(0)) revert InvalidInput();
-        if (_oldAmount == _newAmount) return;
+        uint256 oldAmount = _isStakeSeeded[_user] ? _notifiedStakedAmounts[_user] : _oldAmount;
+        uint256 totalStakedAmount = _isTotalStakeSeeded ? _totalNotifiedStakedAmount : stakingContract.totalEffectiveStakedAmount() + oldAmount - _newAmount;
 
-        uint256 rewardAmount = rewardAccumulatedPerStakedToken * _oldAmount / PRECISION;
-        uint256 actualRewardAmount = rewardAmount - _debts[_user] + _credits[_user];
-        _credits[_user] = actualRewardAmount;
-        _debts[_user] = rewardAccumulatedPerStakedToken * _newAmount / PRECISION;
+        // Stream over the total before this change, then record the change
+        uint256 newTotalStakedAmount = totalStakedAmount - oldAmount + _newAmount;
+        _notifiedStakedAmounts[_user] = _newAmount;
+        _isStakeSeeded[_user] = true;
+        _totalNotifiedStakedAmount = newTotalStakedAmount;
+        _isTotalStakeSeeded = true;
+        if (oldAmount == _newAmount) return;
+
+        for (uint256 i = 0; i < rewardTokens.length; i++) {
+            address token = rewardTokens[i];
+            _updateRewardPerToken(token, totalStakedAmount);
+
+            uint256 accumulated = rewardAccumulatedPerStakedToken[token];
+            uint256 rewardAmount = accumulated * oldAmount / PRECISION;
+            _credits[token][_user] = rewardAmount - _debts[token][_user] + _credits[token][_user];
+            _debts[token][_user] = accumulated * _newAmount / PRECISION;
+            _trackRoundingDust(token, accumulated * oldAmount % PRECISION, accumulated * _newAmount % PRECISION);
+
+            // Released after the debt is set so the first stakers start earning the queued rewards
+            _releaseQueuedRewards(token, newTotalStakedAmount);
+        }
     }
 }
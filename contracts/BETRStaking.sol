@@ -2,9 +2,17 @@
 pragma solidity ^0.8.28;
 
 import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {IERC20Permit} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import {Checkpoints} from "@openzeppelin/contracts/utils/structs/Checkpoints.sol";
+import {MerkleProof} from "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import {SafeCast} from "@openzeppelin/contracts/utils/math/SafeCast.sol";
+import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import {Votes} from "@openzeppelin/contracts/governance/utils/Votes.sol";
 import {InvalidInput, TokensTransferError} from "./common/error.sol";
 import {Ownable} from "./common/Ownable.sol";
 import {IBETRStakingEventHandler} from "./interfaces/IBETRStakingEventHandler.sol";
+import {IBETRStakingReceipt} from "./interfaces/IBETRStakingReceipt.sol";
 import {IBETRStakingStateProvider} from "./interfaces/IBETRStakingStateProvider.sol";
 
 /*
@@ -12,24 +20,149 @@ import {IBETRStakingStateProvider} from "./interfaces/IBETRStakingStateProvider.
  * @author Mirko Nosenzo (@netnose)
  * @notice This contract is used to stake an ERC20 token
  */
-contract BETRStaking is IBETRStakingStateProvider, Ownable {
+contract BETRStaking is IBETRStakingStateProvider, Ownable, Votes {
+    using Checkpoints for Checkpoints.Trace208;
+
+    uint256 public constant MULTIPLIER_PRECISION = 10000;
+    uint256 public constant MAX_UNBONDING_PERIOD = 90 days;
+    uint256 public constant DEFAULT_REWARDER_GAS_LIMIT = 750000;
+    uint256 public constant NOTIFICATION_GAS_OVERHEAD = 5000;
+    bytes32 public constant STAKE_TYPEHASH = keccak256("Stake(address user,uint256 amount,uint256 nonce,uint256 deadline)");
+    bytes32 public constant UNSTAKE_TYPEHASH = keccak256("Unstake(address user,uint256 amount,uint256 nonce,uint256 deadline)");
+
     IERC20 public immutable stakingToken;
     uint256 public totalStakedAmount;
     mapping(address => uint256) public stakedAmount;
+    uint256 public totalEffectiveStakedAmount;
+    mapping(address => uint256) public effectiveStakedAmount;
     bool public isStakingPaused;
 
     IBETRStakingEventHandler[] public rewarders;
+    IBETRStakingReceipt public receiptToken;
+    uint256 public rewarderGasLimit;
+    uint256 public maxRewarderFailures;
+
+    /*
+     * @title FailedNotification
+     * @notice Struct to store a stake change a rewarder failed to process
+     * @param isPending Whether the rewarder still has to be resynced for the user
+     * @param oldAmount The last effective stake of the user successfully notified to the rewarder
+     */
+    struct FailedNotification {
+        bool isPending;
+        uint256 oldAmount;
+    }
+
+    /*
+     * @notice Failed notifications
+     * @dev This mapping is used to store the pending failed notification for each rewarder, rewarder epoch and user
+     */
+    mapping(address => mapping(uint256 => mapping(address => FailedNotification))) private _failedNotifications;
+
+    /*
+     * @notice Rewarder epochs
+     * @dev This mapping is used to store the epoch of each rewarder, bumped on removal so a re-added rewarder does not replay its old failed notifications
+     */
+    mapping(address => uint256) public rewarderEpoch;
+
+    /*
+     * @notice Rewarder failure count
+     * @dev This mapping is used to store the number of failed notifications for each rewarder
+     */
+    mapping(address => uint256) public rewarderFailureCount;
+
+    /*
+     * @notice Quarantined rewarders
+     * @dev This mapping is used to store the rewarders that are not notified anymore until resynced
+     */
+    mapping(address => bool) public isRewarderQuarantined;
+
+    uint256 public maxTotalStake;
+    uint256 public maxStakePerUser;
+    bool public isAllowlistEnabled;
+    bytes32 public allowlistRoot;
+
+    /*
+     * @notice Allowlisted addresses
+     * @dev This mapping is used to store the addresses that can stake or receive stake while the allowlist is enabled
+     */
+    mapping(address => bool) public isAllowlisted;
+
+    /*
+     * @title LockPosition
+     * @notice Struct to store a time-locked staking position
+     * @param amount The amount of tokens locked
+     * @param unlockTime The timestamp after which the position can be unlocked
+     * @param multiplier The reward multiplier of the position (MULTIPLIER_PRECISION is 1x)
+     */
+    struct LockPosition {
+        uint256 amount;
+        uint256 unlockTime;
+        uint256 multiplier;
+    }
+
+    /*
+     * @notice Lock multipliers
+     * @dev This mapping is used to store the reward multiplier for each allowed lock duration (0 if not allowed)
+     */
+    mapping(uint256 => uint256) public lockMultipliers;
+
+    /*
+     * @notice Locked amount
+     * @dev This mapping is used to store the amount of tokens locked in positions for each user
+     */
+    mapping(address => uint256) public lockedAmount;
+
+    /*
+     * @notice Lock positions
+     * @dev This mapping is used to store the lock positions for each user
+     */
+    mapping(address => LockPosition[]) public lockPositions;
+
+    /*
+     * @title UnbondingRequest
+     * @notice Struct to store a pending withdrawal of unstaked tokens
+     * @param amount The amount of tokens unbonding
+     * @param releaseTime The timestamp after which the tokens can be withdrawn
+     */
+    struct UnbondingRequest {
+        uint256 amount;
+        uint256 releaseTime;
+    }
+
+    uint256 public unbondingPeriod;
+    uint256 public totalUnbondingAmount;
+
+    /*
+     * @notice Unbonding amount
+     * @dev This mapping is used to store the amount of tokens waiting to be withdrawn for each user
+     */
+    mapping(address => uint256) public unbondingAmount;
+
+    /*
+     * @notice Unbonding requests
+     * @dev This mapping is used to store the pending withdrawal requests for each user
+     */
+    mapping(address => UnbondingRequest[]) public unbondingRequests;
+
+    /*
+     * @notice Staked amount checkpoints
+     * @dev These checkpoints are used to store the staked amount history of each user and of the total, keyed by clock (block number)
+     */
+    mapping(address => Checkpoints.Trace208) private _stakedAmountCheckpoints;
+    Checkpoints.Trace208 private _totalStakedAmountCheckpoints;
 
     /*
      * @notice Constructor
      * @param _owner The owner of the contract
      * @param _stakingToken The ERC20 token to stake
      */
-    constructor(address _owner, address _stakingToken) Ownable(_owner) {
+    constructor(address _owner, address _stakingToken) Ownable(_owner) EIP712("BETRStaking", "1") {
         if (_stakingToken == address(0)) revert InvalidInput();
         
         stakingToken = IERC20(_stakingToken);
         isStakingPaused = false;
+        rewarderGasLimit = DEFAULT_REWARDER_GAS_LIMIT;
     }
 
     /*
@@ -46,6 +179,82 @@ contract BETRStaking is IBETRStakingStateProvider, Ownable {
      */
     error StakingPaused();
 
+    /*
+     * @title NotReceiptToken
+     * @notice Error to check if the caller is not the receipt token
+     */
+    error NotReceiptToken();
+
+    /*
+     * @title NotEnoughGas
+     * @notice Error to check if there is not enough gas left to notify a rewarder with its full gas limit
+     */
+    error NotEnoughGas();
+
+    /*
+     * @title MaxTotalStakeExceeded
+     * @notice Error to check if the stake would exceed the maximum total stake
+     * @param available The amount that can still be staked
+     * @param requested The requested amount
+     */
+    error MaxTotalStakeExceeded(uint256 available, uint256 requested);
+
+    /*
+     * @title MaxStakePerUserExceeded
+     * @notice Error to check if the stake would exceed the maximum stake of a user
+     * @param available The amount that can still be staked by the user
+     * @param requested The requested amount
+     */
+    error MaxStakePerUserExceeded(uint256 available, uint256 requested);
+
+    /*
+     * @title NotAllowlisted
+     * @notice Error to check if the user is not allowlisted while the allowlist is enabled
+     * @param user The address of the user
+     */
+    error NotAllowlisted(address user);
+
+    /*
+     * @title InvalidProof
+     * @notice Error to check if the allowlist Merkle proof is invalid
+     */
+    error InvalidProof();
+
+    /*
+     * @title SignatureExpired
+     * @notice Error to check if the deadline of a signature has passed
+     * @param deadline The deadline of the signature
+     */
+    error SignatureExpired(uint256 deadline);
+
+    /*
+     * @title InvalidSigner
+     * @notice Error to check if a signature was not signed by the user
+     * @param signer The recovered signer
+     * @param user The user the signature is for
+     */
+    error InvalidSigner(address signer, address user);
+
+    /*
+     * @title InvalidLockDuration
+     * @notice Error to check if the lock duration is not allowed
+     * @param duration The requested lock duration
+     */
+    error InvalidLockDuration(uint256 duration);
+
+    /*
+     * @title PositionLocked
+     * @notice Error to check if the lock position has not expired yet
+     * @param unlockTime The timestamp after which the position can be unlocked
+     */
+    error PositionLocked(uint256 unlockTime);
+
+    /*
+     * @title NothingToWithdraw
+     * @notice Error to check if there are no released unbonding requests to withdraw
+     */
+    error NothingToWithdraw();
+
     /*
      * @title RewarderAdded
      * @notice Event to notify when a rewarder is added
@@ -83,40 +292,362 @@ contract BETRStaking is IBETRStakingStateProvider, Ownable {
      */
     event StakingPausedSet(bool indexed isStakingPaused);
 
+    /*
+     * @title ReceiptTokenSet
+     * @notice Event to notify when the receipt token is set
+     * @param receiptToken The address of the receipt token
+     */
+    event ReceiptTokenSet(address indexed receiptToken);
+
+    /*
+     * @title StakeTransferred
+     * @notice Event to notify when stake is moved by a receipt token transfer
+     * @param from The address that sent the stake
+     * @param to The address that received the stake
+     * @param amount The amount of tokens moved
+     */
+    event StakeTransferred(address indexed from, address indexed to, uint256 indexed amount);
+
+    /*
+     * @title RewarderGasLimitSet
+     * @notice Event to notify when the gas limit of rewarder notifications is set
+     * @param gasLimit The new gas limit
+     */
+    event RewarderGasLimitSet(uint256 indexed gasLimit);
+
+    /*
+     * @title MaxRewarderFailuresSet
+     * @notice Event to notify when the number of failures before a rewarder is quarantined is set
+     * @param maxFailures The new maximum number of failures (0 to never quarantine)
+     */
+    event MaxRewarderFailuresSet(uint256 indexed maxFailures);
+
+    /*
+     * @title RewarderNotificationFailed
+     * @notice Event to notify when a rewarder failed to process a stake change
+     * @param rewarder The address of the rewarder
+     * @param user The user whose stake changed
+     */
+    event RewarderNotificationFailed(address indexed rewarder, address indexed user);
+
+    /*
+     * @title RewarderResynced
+     * @notice Event to notify when a failed notification has been replayed to a rewarder
+     * @param rewarder The address of the rewarder
+     * @param user The user whose stake was resynced
+     */
+    event RewarderResynced(address indexed rewarder, address indexed user);
+
+    /*
+     * @title RewarderQuarantinedSet
+     * @notice Event to notify when the quarantine state of a rewarder is set
+     * @param rewarder The address of the rewarder
+     * @param isQuarantined The new quarantine state
+     */
+    event RewarderQuarantinedSet(address indexed rewarder, bool indexed isQuarantined);
+
+    /*
+     * @title MaxTotalStakeSet
+     * @notice Event to notify when the maximum total stake is set
+     * @param maxTotalStake The new maximum total stake (0 for unlimited)
+     */
+    event MaxTotalStakeSet(uint256 indexed maxTotalStake);
+
+    /*
+     * @title MaxStakePerUserSet
+     * @notice Event to notify when the maximum stake per user is set
+     * @param maxStakePerUser The new maximum stake per user (0 for unlimited)
+     */
+    event MaxStakePerUserSet(uint256 indexed maxStakePerUser);
+
+    /*
+     * @title AllowlistEnabledSet
+     * @notice Event to notify when the allowlist enabled state is set
+     * @param isAllowlistEnabled The new allowlist enabled state
+     */
+    event AllowlistEnabledSet(bool indexed isAllowlistEnabled);
+
+    /*
+     * @title AllowlistRootSet
+     * @notice Event to notify when the allowlist Merkle root is set
+     * @param allowlistRoot The new allowlist Merkle root
+     */
+    event AllowlistRootSet(bytes32 indexed allowlistRoot);
+
+    /*
+     * @title AllowlistedSet
+     * @notice Event to notify when the allowlisted state of an address is set
+     * @param user The address of the user
+     * @param isAllowlisted The new allowlisted state
+     */
+    event AllowlistedSet(address indexed user, bool indexed isAllowlisted);
+
+    /*
+     * @title _checkStakeLimits
+     * @notice Internal function to check the allowlist and the staking caps before the stake of a user increases
+     * @param _user The user whose stake increases
+     * @param _amount The amount added to the user stake
+     * @param _increasesTotal Whether the total staked amount increases too
+     */
+    function _checkStakeLimits(address _user, uint256 _amount, bool _increasesTotal) internal view {
+        if (isAllowlistEnabled && !isAllowlisted[_user]) revert NotAllowlisted(_user);
+
+        if (maxStakePerUser != 0 && stakedAmount[_user] + _amount > maxStakePerUser) {
+            uint256 userAvailable = stakedAmount[_user] < maxStakePerUser ? maxStakePerUser - stakedAmount[_user] : 0;
+            revert MaxStakePerUserExceeded(userAvailable, _amount);
+        }
+
+        if (_increasesTotal && maxTotalStake != 0 && totalStakedAmount + _amount > maxTotalStake) {
+            uint256 totalAvailable = totalStakedAmount < maxTotalStake ? maxTotalStake - totalStakedAmount : 0;
+            revert MaxTotalStakeExceeded(totalAvailable, _amount);
+        }
+    }
+
+    /*
+     * @title _getFailedNotification
+     * @notice Internal function to get the failed notification of a user for the current epoch of a rewarder
+     * @param _rewarder The address of the rewarder
+     * @param _user The user address
+     * @return The failed notification
+     */
+    function _getFailedNotification(address _rewarder, address _user) internal view returns (FailedNotification storage) {
+        return _failedNotifications[_rewarder][rewarderEpoch[_rewarder]][_user];
+    }
+
+    /*
+     * @title _notifyRewarder
+     * @notice Internal function to notify a rewarder of a stake change, isolating its failures
+     * @param _rewarder The address of the rewarder
+     * @param _user The user whose stake changed
+     * @param _oldAmount The old effective stake of the user
+     * @param _newAmount The new effective stake of the user
+     * @dev While a failed notification is pending, the rewarder is notified from the last amount it processed
+     */
+    function _notifyRewarder(address _rewarder, address _user, uint256 _oldAmount, uint256 _newAmount) internal {
+        FailedNotification storage failed = _getFailedNotification(_rewarder, _user);
+        if (failed.isPending) _oldAmount = failed.oldAmount;
+
+        if (!isRewarderQuarantined[_rewarder]) {
+            // Prevent callers from forcing failures by forwarding less gas than the limit
+            if (gasleft() < rewarderGasLimit * 64 / 63 + NOTIFICATION_GAS_OVERHEAD) revert NotEnoughGas();
+
+            try IBETRStakingEventHandler(_rewarder).onStakeChanged{gas: rewarderGasLimit}(_user, _oldAmount, _newAmount) {
+                if (failed.isPending) failed.isPending = false;
+                return;
+            } catch {
+                emit RewarderNotificationFailed(_rewarder, _user);
+                rewarderFailureCount[_rewarder]++;
+                if (maxRewarderFailures != 0 && rewarderFailureCount[_rewarder] >= maxRewarderFailures) {
+                    isRewarderQuarantined[_rewarder] = true;
+                    emit RewarderQuarantinedSet(_rewarder, true);
+                }
+            }
+        }
+
+        if (!failed.isPending) {
+            failed.isPending = true;
+            failed.oldAmount = _oldAmount;
+        }
+    }
+
+    /*
+     * @title LockMultiplierSet
+     * @notice Event to notify when the multiplier of a lock duration is set
+     * @param duration The lock duration
+     * @param multiplier The new multiplier (0 if the duration is not allowed)
+     */
+    event LockMultiplierSet(uint256 indexed duration, uint256 multiplier);
+
+    /*
+     * @title Locked
+     * @notice Event to notify when an address has opened a lock position
+     * @param staker The address that locked
+     * @param amount The amount of tokens locked
+     * @param unlockTime The timestamp after which the position can be unlocked
+     * @param multiplier The reward multiplier of the position
+     */
+    event Locked(address indexed staker, uint256 indexed amount, uint256 unlockTime, uint256 multiplier);
+
+    /*
+     * @title Unlocked
+     * @notice Event to notify when a lock position has been unlocked
+     * @param staker The address that owned the position
+     * @param amount The amount of tokens unlocked
+     */
+    event Unlocked(address indexed staker, uint256 indexed amount);
+
+    /*
+     * @title UnbondingPeriodSet
+     * @notice Event to notify when the unbonding period is set
+     * @param unbondingPeriod The new unbonding period
+     */
+    event UnbondingPeriodSet(uint256 indexed unbondingPeriod);
+
+    /*
+     * @title UnbondingStarted
+     * @notice Event to notify when unstaked tokens are queued for withdrawal
+     * @param staker The address that unstaked
+     * @param amount The amount of tokens queued
+     * @param releaseTime The timestamp after which the tokens can be withdrawn
+     */
+    event UnbondingStarted(address indexed staker, uint256 indexed amount, uint256 releaseTime);
+
+    /*
+     * @title UnbondingCancelled
+     * @notice Event to notify when an unbonding request is cancelled and restaked
+     * @param staker The address that cancelled
+     * @param amount The amount of tokens restaked
+     */
+    event UnbondingCancelled(address indexed staker, uint256 indexed amount);
+
+    /*
+     * @title Withdrawn
+     * @notice Event to notify when unbonded tokens are withdrawn
+     * @param staker The address that withdrew
+     * @param amount The amount of tokens withdrawn
+     */
+    event Withdrawn(address indexed staker, uint256 indexed amount);
+
+    /*
+     * @title _updateStake
+     * @notice Internal function to update the stake of a user and notify the rewarders
+     * @param _user The user to update the stake for
+     * @param _stakedAmount The new amount of tokens staked by the user
+     * @param _effectiveAmount The new effective (multiplier-weighted) stake of the user
+     */
+    function _updateStake(address _user, uint256 _stakedAmount, uint256 _effectiveAmount) internal {
+        uint256 oldStakedAmount = stakedAmount[_user];
+        uint256 oldEffectiveAmount = effectiveStakedAmount[_user];
+        totalStakedAmount = totalStakedAmount - oldStakedAmount + _stakedAmount;
+        totalEffectiveStakedAmount = totalEffectiveStakedAmount - oldEffectiveAmount + _effectiveAmount;
+        stakedAmount[_user] = _stakedAmount;
+        effectiveStakedAmount[_user] = _effectiveAmount;
+
+        // Receipts are already moved by the receipt token when it is the caller
+        bool syncsReceipt = address(receiptToken) != address(0) && msg.sender != address(receiptToken);
+        if (_stakedAmount > oldStakedAmount) {
+            _transferVotingUnits(address(0), _user, _stakedAmount - oldStakedAmount);
+            if (syncsReceipt) receiptToken.mint(_user, _stakedAmount - oldStakedAmount);
+        } else if (_stakedAmount < oldStakedAmount) {
+            _transferVotingUnits(_user, address(0), oldStakedAmount - _stakedAmount);
+            if (syncsReceipt) receiptToken.burn(_user, oldStakedAmount - _stakedAmount);
+        }
+
+        _stakedAmountCheckpoints[_user].push(clock(), SafeCast.toUint208(_stakedAmount));
+        _totalStakedAmountCheckpoints.push(clock(), SafeCast.toUint208(totalStakedAmount));
+
+        for (uint256 i = 0; i < rewarders.length; i++) {
+            _notifyRewarder(address(rewarders[i]), _user, oldEffectiveAmount, _effectiveAmount);
+        }
+    }
+
+    /*
+     * @title _stake
+     * @notice Internal function to stake tokens for a user
+     * @param _from The address the tokens are transferred from
+     * @param _user The user to stake tokens for
+     * @param _amount The amount of tokens to stake
+     * @param _effectiveAmount The effective (multiplier-weighted) amount added to the user stake
+     */
+    function _stake(address _from, address _user, uint256 _amount, uint256 _effectiveAmount) internal {
+        _checkStakeLimits(_user, _amount, true);
+        _updateStake(_user, stakedAmount[_user] + _amount, effectiveStakedAmount[_user] + _effectiveAmount);
+
+        try stakingToken.transferFrom(_from, address(this), _amount) returns (bool success) {
+            if (!success) revert TokensTransferError();
+        } catch {
+            revert TokensTransferError();
+        }
+
+        emit Staked(_user, _amount);
+    }
+
+    /*
+     * @title _verifySignature
+     * @notice Internal function to verify a stake or unstake signature and consume the user nonce
+     * @param _typehash The typehash of the signed action
+     * @param _user The user who signed the action
+     * @param _amount The amount of the action
+     * @param _deadline The deadline of the signature
+     * @param _v The v parameter of the signature
+     * @param _r The r parameter of the signature
+     * @param _s The s parameter of the signature
+     */
+    function _verifySignature(bytes32 _typehash, address _user, uint256 _amount, uint256 _deadline, uint8 _v, bytes32 _r, bytes32 _s) internal {
+        if (block.timestamp > _deadline) revert SignatureExpired(_deadline);
+
+        bytes32 structHash = keccak256(abi.encode(_typehash, _user, _amount, _useNonce(_user), _deadline));
+        address signer = ECDSA.recover(_hashTypedDataV4(structHash), _v, _r, _s);
+        if (signer != _user) revert InvalidSigner(signer, _user);
+    }
+
+    /*
+     * @title _transferStakingTokens
+     * @notice Internal function to transfer staking tokens out of the contract
+     * @param _to The recipient of the tokens
+     * @param _amount The amount of tokens to transfer
+     */
+    function _transferStakingTokens(address _to, uint256 _amount) internal {
+        try stakingToken.transfer(_to, _amount) returns (bool success) {
+            if (!success) revert TokensTransferError();
+        } catch {
+            revert TokensTransferError();
+        }
+    }
+
     /*
      * @title _unstake
      * @notice Internal function to unstake tokens for a user
      * @param _user The user to unstake tokens for
      * @param _amount The amount to unstake (0 for all)
-     * @return The amount actually unstaked
+     * @param _isEmergency Whether to release lock positions and pending unbonding requests, bypassing the unbonding period
      */
-    function _unstake(address _user, uint256 _amount) internal returns (uint256) {
+    function _unstake(address _user, uint256 _amount, bool _isEmergency) internal {
         if (_user == address(0)) revert InvalidInput();
         
         uint256 userStaked = stakedAmount[_user];
-        uint256 amountToUnstake = _amount == 0 ? userStaked : _amount;
-        if (amountToUnstake == 0) return 0;
+        uint256 userAvailable = _isEmergency ? userStaked : userStaked - lockedAmount[_user];
+        uint256 amountToUnstake = _amount == 0 ? userAvailable : _amount;
 
-        if (amountToUnstake > userStaked) {
-            revert NotEnoughStakedAmount(userStaked, amountToUnstake);
+        if (amountToUnstake > userAvailable) {
+            revert NotEnoughStakedAmount(userAvailable, amountToUnstake);
         }
-        
-        uint256 oldStakedAmount = stakedAmount[_user];
-        stakedAmount[_user] -= amountToUnstake;
-        uint256 newStakedAmount = stakedAmount[_user];
-        for (uint256 i = 0; i < rewarders.length; i++) {
-            rewarders[i].onStakeChanged(_user, oldStakedAmount, newStakedAmount);
+
+        if (amountToUnstake > 0) {
+            uint256 newStakedAmount = userStaked - amountToUnstake;
+            uint256 newEffectiveAmount = effectiveStakedAmount[_user] - amountToUnstake;
+            if (_isEmergency && lockedAmount[_user] > 0) {
+                emit Unlocked(_user, lockedAmount[_user]);
+                delete lockPositions[_user];
+                lockedAmount[_user] = 0;
+                newEffectiveAmount = newStakedAmount;
+            }
+            _updateStake(_user, newStakedAmount, newEffectiveAmount);
+            emit Unstaked(_user, amountToUnstake);
         }
 
-        try stakingToken.transfer(_user, amountToUnstake) returns (bool success) {
-            if (!success) revert TokensTransferError();
-        } catch {
-            revert TokensTransferError();
+        if (!_isEmergency && unbondingPeriod > 0) {
+            uint256 releaseTime = block.timestamp + unbondingPeriod;
+            unbondingRequests[_user].push(UnbondingRequest(amountToUnstake, releaseTime));
+            unbondingAmount[_user] += amountToUnstake;
+            totalUnbondingAmount += amountToUnstake;
+            emit UnbondingStarted(_user, amountToUnstake, releaseTime);
+            return;
         }
 
-        emit Unstaked(_user, amountToUnstake);
-        
-        return amountToUnstake;
+        uint256 amountToTransfer = amountToUnstake;
+        uint256 userUnbonding = unbondingAmount[_user];
+        if (_isEmergency && userUnbonding > 0) {
+            amountToTransfer += userUnbonding;
+            totalUnbondingAmount -= userUnbonding;
+            unbondingAmount[_user] = 0;
+            delete unbondingRequests[_user];
+            emit Withdrawn(_user, userUnbonding);
+        }
+
+        if (amountToTransfer > 0) {
+            _transferStakingTokens(_user, amountToTransfer);
+        }
     }
 
     /*
@@ -128,21 +659,44 @@ contract BETRStaking is IBETRStakingStateProvider, Ownable {
         if (isStakingPaused) revert StakingPaused();
         if (_amount == 0) revert InvalidInput();
 
-        uint256 oldStakedAmount = stakedAmount[msg.sender];
-        stakedAmount[msg.sender] += _amount;
-        totalStakedAmount += _amount;
-        uint256 newStakedAmount = stakedAmount[msg.sender];
-        for (uint256 i = 0; i < rewarders.length; i++) {
-            rewarders[i].onStakeChanged(msg.sender, oldStakedAmount, newStakedAmount);
-        }
+        _stake(msg.sender, msg.sender, _amount, _amount);
+    }
 
-        try stakingToken.transferFrom(msg.sender, address(this), _amount) returns (bool success) {
-            if (!success) revert TokensTransferError();
-        } catch {
-            revert TokensTransferError();
-        }
+    /*
+     * @title stakeWithPermit
+     * @notice Stake an ERC20 token approving it with an EIP-2612 permit
+     * @param _amount The amount of ERC20 tokens to stake
+     * @param _deadline The deadline for the permit
+     * @param _v The v parameter of the permit signature
+     * @param _r The r parameter of the permit signature
+     * @param _s The s parameter of the permit signature
+     * @dev A failing permit is ignored so a front-run permit does not block the stake if the allowance is already set
+     */
+    function stakeWithPermit(uint256 _amount, uint256 _deadline, uint8 _v, bytes32 _r, bytes32 _s) public {
+        if (isStakingPaused) revert StakingPaused();
+        if (_amount == 0) revert InvalidInput();
+
+        try IERC20Permit(address(stakingToken)).permit(msg.sender, address(this), _amount, _deadline, _v, _r, _s) {} catch {}
+        _stake(msg.sender, msg.sender, _amount, _amount);
+    }
+
+    /*
+     * @title stakeBySig
+     * @notice Stake an ERC20 token on behalf of a user with an EIP-712 signature, tokens are transferred from the user
+     * @param _user The user who signed the stake
+     * @param _amount The amount of ERC20 tokens to stake
+     * @param _deadline The deadline of the signature
+     * @param _v The v parameter of the signature
+     * @param _r The r parameter of the signature
+     * @param _s The s parameter of the signature
+     */
+    function stakeBySig(address _user, uint256 _amount, uint256 _deadline, uint8 _v, bytes32 _r, bytes32 _s) public {
+        if (isStakingPaused) revert StakingPaused();
+        if (_user == address(0)) revert InvalidInput();
+        if (_amount == 0) revert InvalidInput();
 
-        emit Staked(msg.sender, _amount);
+        _verifySignature(STAKE_TYPEHASH, _user, _amount, _deadline, _v, _r, _s);
+        _stake(_user, _user, _amount, _amount);
     }
 
     /*
@@ -156,21 +710,54 @@ contract BETRStaking is IBETRStakingStateProvider, Ownable {
         if (_user == address(0)) revert InvalidInput();
         if (_amount == 0) revert InvalidInput();
         
-        uint256 oldStakedAmount = stakedAmount[_user];
-        stakedAmount[_user] += _amount;
-        totalStakedAmount += _amount;
-        uint256 newStakedAmount = stakedAmount[_user];
-        for (uint256 i = 0; i < rewarders.length; i++) {
-            rewarders[i].onStakeChanged(_user, oldStakedAmount, newStakedAmount);
-        }
+        _stake(msg.sender, _user, _amount, _amount);
+    }
 
-        try stakingToken.transferFrom(msg.sender, address(this), _amount) returns (bool success) {
-            if (!success) revert TokensTransferError();
-        } catch {
-            revert TokensTransferError();
-        }
+    /*
+     * @title stakeLocked
+     * @notice Stake an ERC20 token in a lock position that cannot be unstaked before its expiry
+     * @param _amount The amount of ERC20 tokens to stake
+     * @param _duration The lock duration, must have a multiplier set by the owner
+     */
+    function stakeLocked(uint256 _amount, uint256 _duration) public {
+        if (isStakingPaused) revert StakingPaused();
+        if (_amount == 0) revert InvalidInput();
 
-        emit Staked(_user, _amount);
+        uint256 multiplier = lockMultipliers[_duration];
+        if (multiplier == 0) revert InvalidLockDuration(_duration);
+
+        uint256 unlockTime = block.timestamp + _duration;
+        lockPositions[msg.sender].push(LockPosition(_amount, unlockTime, multiplier));
+        lockedAmount[msg.sender] += _amount;
+        _stake(msg.sender, msg.sender, _amount, _amount * multiplier / MULTIPLIER_PRECISION);
+
+        emit Locked(msg.sender, _amount, unlockTime, multiplier);
+    }
+
+    /*
+     * @title unlock
+     * @notice Function to release an expired lock position into the flexible stake of its owner
+     * @param _user The owner of the lock position
+     * @param _positionId The index of the lock position
+     * @dev Anyone can unlock an expired position, so boosts cannot outlive their lock; the last position takes the index of the unlocked one
+     */
+    function unlock(address _user, uint256 _positionId) public {
+        if (isStakingPaused) revert StakingPaused();
+
+        LockPosition[] storage positions = lockPositions[_user];
+        if (_positionId >= positions.length) revert InvalidInput();
+
+        LockPosition memory position = positions[_positionId];
+        if (block.timestamp < position.unlockTime) revert PositionLocked(position.unlockTime);
+
+        positions[_positionId] = positions[positions.length - 1];
+        positions.pop();
+        lockedAmount[_user] -= position.amount;
+
+        uint256 effectiveAmount = position.amount * position.multiplier / MULTIPLIER_PRECISION;
+        _updateStake(_user, stakedAmount[_user], effectiveStakedAmount[_user] - effectiveAmount + position.amount);
+
+        emit Unlocked(_user, position.amount);
     }
 
     /*
@@ -182,8 +769,79 @@ contract BETRStaking is IBETRStakingStateProvider, Ownable {
         if (isStakingPaused) revert StakingPaused();
         if (_amount == 0) revert InvalidInput();
         
-        uint256 unstakedAmount = _unstake(msg.sender, _amount);
-        totalStakedAmount -= unstakedAmount;
+        _unstake(msg.sender, _amount, false);
+    }
+
+    /*
+     * @title unstakeBySig
+     * @notice Unstake an ERC20 token on behalf of a user with an EIP-712 signature, tokens are returned to the user
+     * @param _user The user who signed the unstake
+     * @param _amount The amount of ERC20 tokens to unstake
+     * @param _deadline The deadline of the signature
+     * @param _v The v parameter of the signature
+     * @param _r The r parameter of the signature
+     * @param _s The s parameter of the signature
+     */
+    function unstakeBySig(address _user, uint256 _amount, uint256 _deadline, uint8 _v, bytes32 _r, bytes32 _s) public {
+        if (isStakingPaused) revert StakingPaused();
+        if (_user == address(0)) revert InvalidInput();
+        if (_amount == 0) revert InvalidInput();
+
+        _verifySignature(UNSTAKE_TYPEHASH, _user, _amount, _deadline, _v, _r, _s);
+        _unstake(_user, _amount, false);
+    }
+
+    /*
+     * @title withdraw
+     * @notice Withdraw all the unbonding requests whose release time has passed
+     */
+    function withdraw() public {
+        if (isStakingPaused) revert StakingPaused();
+
+        UnbondingRequest[] storage requests = unbondingRequests[msg.sender];
+        uint256 amount = 0;
+        uint256 i = 0;
+        while (i < requests.length) {
+            if (requests[i].releaseTime <= block.timestamp) {
+                amount += requests[i].amount;
+                requests[i] = requests[requests.length - 1];
+                requests.pop();
+            } else {
+                i++;
+            }
+        }
+        if (amount == 0) revert NothingToWithdraw();
+
+        unbondingAmount[msg.sender] -= amount;
+        totalUnbondingAmount -= amount;
+        _transferStakingTokens(msg.sender, amount);
+
+        emit Withdrawn(msg.sender, amount);
+    }
+
+    /*
+     * @title cancelUnbonding
+     * @notice Cancel an unbonding request and restake its tokens
+     * @param _requestId The index of the unbonding request
+     * @dev The last request takes the index of the cancelled one
+     */
+    function cancelUnbonding(uint256 _requestId) public {
+        if (isStakingPaused) revert StakingPaused();
+
+        UnbondingRequest[] storage requests = unbondingRequests[msg.sender];
+        if (_requestId >= requests.length) revert InvalidInput();
+
+        uint256 amount = requests[_requestId].amount;
+        requests[_requestId] = requests[requests.length - 1];
+        requests.pop();
+        unbondingAmount[msg.sender] -= amount;
+        totalUnbondingAmount -= amount;
+
+        _checkStakeLimits(msg.sender, amount, true);
+        _updateStake(msg.sender, stakedAmount[msg.sender] + amount, effectiveStakedAmount[msg.sender] + amount);
+
+        emit UnbondingCancelled(msg.sender, amount);
+        emit Staked(msg.sender, amount);
     }
 
     /*
@@ -191,23 +849,292 @@ contract BETRStaking is IBETRStakingStateProvider, Ownable {
      * @notice Admin function to unstake tokens for multiple users (owner only)
      * @param _users Array of users to unstake tokens for
      * @param _amounts Array of amounts to unstake (0 for all, must match _users length)
-     * @dev This function bypasses the staking pause for emergency situations
+     * @dev This function bypasses the staking pause, the lock positions and the unbonding period for emergency situations, also releasing pending unbonding requests
      */
     function batchUnstake(address[] calldata _users, uint256[] calldata _amounts) public onlyOwner {
         if (_users.length != _amounts.length) revert InvalidInput();
         if (_users.length == 0) revert InvalidInput();
         
-        uint256 totalUnstaked = 0;
-        
+        for (uint256 i = 0; i < _users.length; i++) {
+            _unstake(_users[i], _amounts[i], true);
+        }
+    }
+
+    /*
+     * @title getLockPositions
+     * @notice Function to get the lock positions of a user
+     * @param _user The address of the user
+     * @return The lock positions of the user
+     */
+    function getLockPositions(address _user) public view returns (LockPosition[] memory) {
+        return lockPositions[_user];
+    }
+
+    /*
+     * @title onReceiptTransfer
+     * @notice Function to move the stake of a receipt token transfer (receipt token only)
+     * @param _from The sender of the receipts
+     * @param _to The receiver of the receipts
+     * @param _amount The amount of receipts transferred
+     * @dev Only the unlocked stake of the sender can be transferred
+     */
+    function onReceiptTransfer(address _from, address _to, uint256 _amount) public {
+        if (msg.sender != address(receiptToken)) revert NotReceiptToken();
+        if (isStakingPaused) revert StakingPaused();
+
+        uint256 fromAvailable = stakedAmount[_from] - lockedAmount[_from];
+        if (_amount > fromAvailable) revert NotEnoughStakedAmount(fromAvailable, _amount);
+        _checkStakeLimits(_to, _amount, false);
+
+        _updateStake(_from, stakedAmount[_from] - _amount, effectiveStakedAmount[_from] - _amount);
+        _updateStake(_to, stakedAmount[_to] + _amount, effectiveStakedAmount[_to] + _amount);
+
+        emit StakeTransferred(_from, _to, _amount);
+    }
+
+    /*
+     * @title claimAllowlist
+     * @notice Function to allowlist an address included in the allowlist Merkle root
+     * @param _user The address to allowlist
+     * @param _proof The Merkle proof of the address
+     * @dev Leaves are keccak256(bytes.concat(keccak256(abi.encode(user)))), addresses stay allowlisted if the root changes
+     */
+    function claimAllowlist(address _user, bytes32[] calldata _proof) public {
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(_user))));
+        if (!MerkleProof.verifyCalldata(_proof, allowlistRoot, leaf)) revert InvalidProof();
+        isAllowlisted[_user] = true;
+        emit AllowlistedSet(_user, true);
+    }
+
+    /*
+     * @title resyncRewarder
+     * @notice Function to replay the failed notifications of a rewarder for a list of users
+     * @param _rewarder The address of the rewarder
+     * @param _users Array of users to resync
+     * @dev The rewarder is called without gas limit and reverts bubble up, users without failed notifications are skipped
+     */
+    function resyncRewarder(address _rewarder, address[] calldata _users) public {
+        if (!isRewarder(_rewarder)) revert InvalidInput();
+
         for (uint256 i = 0; i < _users.length; i++) {
             address user = _users[i];
-            uint256 amount = _amounts[i];
-            
-            uint256 unstakedAmount = _unstake(user, amount);
-            totalUnstaked += unstakedAmount;
+            FailedNotification storage failed = _getFailedNotification(_rewarder, user);
+            if (!failed.isPending) continue;
+
+            failed.isPending = false;
+            IBETRStakingEventHandler(_rewarder).onStakeChanged(user, failed.oldAmount, effectiveStakedAmount[user]);
+            emit RewarderResynced(_rewarder, user);
         }
-        
-        totalStakedAmount -= totalUnstaked;
+    }
+
+    /*
+     * @title notifiedStakedAmount
+     * @notice Function to get the effective stake of a user as last processed by a rewarder
+     * @param _rewarder The address of the rewarder
+     * @param _user The address of the user
+     * @return The effective stake of the user known by the rewarder
+     */
+    function notifiedStakedAmount(address _rewarder, address _user) public view returns (uint256) {
+        FailedNotification storage failed = _getFailedNotification(_rewarder, _user);
+        return failed.isPending ? failed.oldAmount : effectiveStakedAmount[_user];
+    }
+
+    /*
+     * @title failedNotifications
+     * @notice Function to get the failed notification of a user for a rewarder since it was last added
+     * @param _rewarder The address of the rewarder
+     * @param _user The address of the user
+     * @return isPending Whether the rewarder still has to be resynced for the user
+     * @return oldAmount The last effective stake of the user successfully notified to the rewarder
+     */
+    function failedNotifications(address _rewarder, address _user) public view returns (bool isPending, uint256 oldAmount) {
+        FailedNotification storage failed = _getFailedNotification(_rewarder, _user);
+        return (failed.isPending, failed.oldAmount);
+    }
+
+    /*
+     * @title stakedAmountAt
+     * @notice Function to get the amount of tokens staked by a user at the end of a past block
+     * @param _user The address of the user
+     * @param _timepoint The block number, must be before the current clock
+     * @return The amount of tokens staked by the user
+     */
+    function stakedAmountAt(address _user, uint256 _timepoint) public view returns (uint256) {
+        return _stakedAmountCheckpoints[_user].upperLookupRecent(_validateTimepoint(_timepoint));
+    }
+
+    /*
+     * @title totalStakedAmountAt
+     * @notice Function to get the total amount of tokens staked at the end of a past block
+     * @param _timepoint The block number, must be before the current clock
+     * @return The total amount of tokens staked
+     */
+    function totalStakedAmountAt(uint256 _timepoint) public view returns (uint256) {
+        return _totalStakedAmountCheckpoints.upperLookupRecent(_validateTimepoint(_timepoint));
+    }
+
+    /*
+     * @title _getVotingUnits
+     * @notice Internal function to get the voting units of an account
+     * @param _account The address of the account
+     * @return The amount of tokens staked by the account, including locked tokens
+     */
+    function _getVotingUnits(address _account) internal view override returns (uint256) {
+        return stakedAmount[_account];
+    }
+
+    /*
+     * @title getUnbondingRequests
+     * @notice Function to get the pending unbonding requests of a user
+     * @param _user The address of the user
+     * @return The unbonding requests of the user
+     */
+    function getUnbondingRequests(address _user) public view returns (UnbondingRequest[] memory) {
+        return unbondingRequests[_user];
+    }
+
+    /*
+     * @title withdrawableAmount
+     * @notice Function to get the amount of unbonded tokens a user can withdraw now
+     * @param _user The address of the user
+     * @return _amount The amount of tokens whose release time has passed
+     */
+    function withdrawableAmount(address _user) public view returns (uint256 _amount) {
+        UnbondingRequest[] storage requests = unbondingRequests[_user];
+        for (uint256 i = 0; i < requests.length; i++) {
+            if (requests[i].releaseTime <= block.timestamp) {
+                _amount += requests[i].amount;
+            }
+        }
+    }
+
+    /*
+     * @title setUnbondingPeriod
+     * @notice Function to set the cooldown applied to unstaked tokens before they can be withdrawn
+     * @param _unbondingPeriod The new unbonding period (0 to transfer unstaked tokens instantly)
+     */
+    function setUnbondingPeriod(uint256 _unbondingPeriod) public onlyOwner {
+        if (_unbondingPeriod > MAX_UNBONDING_PERIOD) revert InvalidInput();
+        unbondingPeriod = _unbondingPeriod;
+        emit UnbondingPeriodSet(_unbondingPeriod);
+    }
+
+    /*
+     * @title setLockMultiplier
+     * @notice Function to set the reward multiplier of a lock duration
+     * @param _duration The lock duration
+     * @param _multiplier The multiplier (MULTIPLIER_PRECISION is 1x, 0 to disallow the duration)
+     */
+    function setLockMultiplier(uint256 _duration, uint256 _multiplier) public onlyOwner {
+        if (_duration == 0) revert InvalidInput();
+        if (_multiplier != 0 && _multiplier < MULTIPLIER_PRECISION) revert InvalidInput();
+        lockMultipliers[_duration] = _multiplier;
+        emit LockMultiplierSet(_duration, _multiplier);
+    }
+
+    /*
+     * @title setReceiptToken
+     * @notice Function to set the liquid staking receipt token, minted and burned 1:1 with the stake
+     * @param _receiptToken The address of the receipt token
+     * @dev The receipt token can only be set once and while nothing is staked, so every stake is backed by receipts
+     */
+    function setReceiptToken(address _receiptToken) public onlyOwner {
+        if (_receiptToken == address(0)) revert InvalidInput();
+        if (address(receiptToken) != address(0) || totalStakedAmount != 0) revert InvalidInput();
+        if (IBETRStakingReceipt(_receiptToken).stakingContract() != address(this)) revert InvalidInput();
+        receiptToken = IBETRStakingReceipt(_receiptToken);
+        emit ReceiptTokenSet(_receiptToken);
+    }
+
+    /*
+     * @title setMaxTotalStake
+     * @notice Function to set the maximum total stake
+     * @param _maxTotalStake The new maximum total stake (0 for unlimited)
+     */
+    function setMaxTotalStake(uint256 _maxTotalStake) public onlyOwner {
+        maxTotalStake = _maxTotalStake;
+        emit MaxTotalStakeSet(_maxTotalStake);
+    }
+
+    /*
+     * @title setMaxStakePerUser
+     * @notice Function to set the maximum stake per user
+     * @param _maxStakePerUser The new maximum stake per user (0 for unlimited)
+     */
+    function setMaxStakePerUser(uint256 _maxStakePerUser) public onlyOwner {
+        maxStakePerUser = _maxStakePerUser;
+        emit MaxStakePerUserSet(_maxStakePerUser);
+    }
+
+    /*
+     * @title setAllowlistEnabled
+     * @notice Function to set whether only allowlisted addresses can stake or receive stake
+     * @param _isAllowlistEnabled The new allowlist enabled state
+     */
+    function setAllowlistEnabled(bool _isAllowlistEnabled) public onlyOwner {
+        isAllowlistEnabled = _isAllowlistEnabled;
+        emit AllowlistEnabledSet(_isAllowlistEnabled);
+    }
+
+    /*
+     * @title setAllowlistRoot
+     * @notice Function to set the allowlist Merkle root
+     * @param _allowlistRoot The new allowlist Merkle root
+     */
+    function setAllowlistRoot(bytes32 _allowlistRoot) public onlyOwner {
+        allowlistRoot = _allowlistRoot;
+        emit AllowlistRootSet(_allowlistRoot);
+    }
+
+    /*
+     * @title setAllowlisted
+     * @notice Function to set the allowlisted state of multiple addresses
+     * @param _users Array of addresses to set
+     * @param _isAllowlisted The new allowlisted state
+     */
+    function setAllowlisted(address[] calldata _users, bool _isAllowlisted) public onlyOwner {
+        if (_users.length == 0) revert InvalidInput();
+
+        for (uint256 i = 0; i < _users.length; i++) {
+            if (_users[i] == address(0)) revert InvalidInput();
+            isAllowlisted[_users[i]] = _isAllowlisted;
+            emit AllowlistedSet(_users[i], _isAllowlisted);
+        }
+    }
+
+    /*
+     * @title setRewarderGasLimit
+     * @notice Function to set the gas limit of each rewarder notification
+     * @param _gasLimit The new gas limit
+     */
+    function setRewarderGasLimit(uint256 _gasLimit) public onlyOwner {
+        if (_gasLimit == 0) revert InvalidInput();
+        rewarderGasLimit = _gasLimit;
+        emit RewarderGasLimitSet(_gasLimit);
+    }
+
+    /*
+     * @title setMaxRewarderFailures
+     * @notice Function to set the number of failed notifications after which a rewarder is quarantined
+     * @param _maxFailures The new maximum number of failures (0 to never quarantine)
+     */
+    function setMaxRewarderFailures(uint256 _maxFailures) public onlyOwner {
+        maxRewarderFailures = _maxFailures;
+        emit MaxRewarderFailuresSet(_maxFailures);
+    }
+
+    /*
+     * @title setRewarderQuarantined
+     * @notice Function to set the quarantine state of a rewarder
+     * @param _rewarder The address of the rewarder
+     * @param _isQuarantined The new quarantine state
+     * @dev Lifting the quarantine resets the failure count, pending notifications still need a resync
+     */
+    function setRewarderQuarantined(address _rewarder, bool _isQuarantined) public onlyOwner {
+        if (!isRewarder(_rewarder)) revert InvalidInput();
+        isRewarderQuarantined[_rewarder] = _isQuarantined;
+        if (!_isQuarantined) rewarderFailureCount[_rewarder] = 0;
+        emit RewarderQuarantinedSet(_rewarder, _isQuarantined);
     }
 
     /*
@@ -251,12 +1178,16 @@ contract BETRStaking is IBETRStakingStateProvider, Ownable {
      * @title removeRewarder
      * @notice Function to remove a rewarder
      * @param _rewarder The address of the rewarder
+     * @dev Its failure count, quarantine and failed notifications are cleared, so it starts over if added again
      */
     function removeRewarder(address _rewarder) public onlyOwner {
         for (uint256 i = 0; i < rewarders.length; i++) {
             if (address(rewarders[i]) == _rewarder) {
                 rewarders[i] = rewarders[rewarders.length - 1];
                 rewarders.pop();
+                delete rewarderFailureCount[_rewarder];
+                delete isRewarderQuarantined[_rewarder];
+                rewarderEpoch[_rewarder]++;
                 emit RewarderRemoved(_rewarder);
                 return;
             }
@@ -0,0 +1,77 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import {InvalidInput} from "./common/error.sol";
+import {BETRStaking} from "./BETRStaking.sol";
+import {IBETRStakingReceipt} from "./interfaces/IBETRStakingReceipt.sol";
+
+/*
+ * @title BETRStakingReceipt
+ * @author Mirko Nosenzo (@netnose)
+ * @notice This contract is the liquid receipt token of a BETRStaking position, transferring it moves the underlying stake
+ */
+contract BETRStakingReceipt is IBETRStakingReceipt, ERC20 {
+    address public immutable stakingContract;
+
+    /*
+     * @notice Constructor
+     * @param _name The name of the receipt token
+     * @param _symbol The symbol of the receipt token
+     * @param _stakingContract The address of the staking contract
+     */
+    constructor(string memory _name, string memory _symbol, address _stakingContract) ERC20(_name, _symbol) {
+        if (_stakingContract == address(0)) revert InvalidInput();
+
+        stakingContract = _stakingContract;
+    }
+
+    /*
+     * @title NotStakingContract
+     * @notice Error to check if the caller is not the staking contract
+     */
+    error NotStakingContract();
+
+    /*
+     * @title onlyStakingContract
+     * @notice Modifier to check if the caller is the staking contract
+     */
+    modifier onlyStakingContract() {
+        if (msg.sender != stakingContract) revert NotStakingContract();
+        _;
+    }
+
+    /*
+     * @title mint
+     * @notice Function to mint receipts for staked tokens (staking contract only)
+     * @param _to The address to mint receipts to
+     * @param _amount The amount of receipts to mint
+     */
+    function mint(address _to, uint256 _amount) public onlyStakingContract {
+        _mint(_to, _amount);
+    }
+
+    /*
+     * @title burn
+     * @notice Function to burn receipts for unstaked tokens (staking contract only)
+     * @param _from The address to burn receipts from
+     * @param _amount The amount of receipts to burn
+     */
+    function burn(address _from, uint256 _amount) public onlyStakingContract {
+        _burn(_from, _amount);
+    }
+
+    /*
+     * @title _update
+     * @notice Internal function to move the underlying stake along with the receipts on transfers
+     * @param _from The sender of the receipts
+     * @param _to The receiver of the receipts
+     * @param _value The amount of receipts
+     */
+    function _update(address _from, address _to, uint256 _value) internal override {
+        if (_from != address(0) && _to != address(0)) {
+            BETRStaking(stakingContract).onReceiptTransfer(_from, _to, _value);
+        }
+        super._update(_from, _to, _value);
+    }
+}
@@ -0,0 +1,86 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import {IUniswapV3Pool} from "@uniswap/v3-core/contracts/interfaces/IUniswapV3Pool.sol";
+import {IBETRPriceOracle} from "./interfaces/IBETRPriceOracle.sol";
+import {UniswapV3Price} from "./libraries/UniswapV3Price.sol";
+import {InvalidInput} from "./common/error.sol";
+
+/*
+ * @title BETRUniswapV3Oracle
+ * @author Mirko Nosenzo (@netnose)
+ * @notice This contract is used to price a token in ETH through a route of Uniswap V3 pools
+ */
+contract BETRUniswapV3Oracle is IBETRPriceOracle {
+    uint256 public constant MAX_PRICE_ROUTE_LENGTH = 3;
+
+    address public immutable WETH;
+    address public immutable token;
+    uint32 public immutable twapWindow;
+
+    IUniswapV3Pool[] private _pools;
+    address[] private _path;
+
+    /*
+     * @title InvalidPool
+     * @notice Error to check if the pool is invalid
+     */
+    error InvalidPool();
+
+    /*
+     * @notice Constructor
+     * @param _weth The WETH address
+     * @param _token The token address
+     * @param _routePools The pool addresses chaining the token to WETH, e.g. TOKEN/USDC then USDC/WETH
+     * @param _twapWindow The TWAP window in seconds, zero to price off the spot prices
+     */
+    constructor(address _weth, address _token, address[] memory _routePools, uint32 _twapWindow) {
+        if (_weth == address(0) || _token == address(0)) revert InvalidInput();
+        if (_routePools.length == 0 || _routePools.length > MAX_PRICE_ROUTE_LENGTH) revert InvalidInput();
+
+        _path.push(_token);
+        for (uint256 i = 0; i < _routePools.length; i++) {
+            if (_routePools[i] == address(0)) revert InvalidInput();
+            IUniswapV3Pool pool = IUniswapV3Pool(_routePools[i]);
+            if (pool.token0() == _path[i]) {
+                _path.push(pool.token1());
+            } else if (pool.token1() == _path[i]) {
+                _path.push(pool.token0());
+            } else {
+                revert InvalidPool();
+            }
+            _pools.push(pool);
+        }
+        if (_path[_routePools.length] != _weth) revert InvalidPool();
+
+        WETH = _weth;
+        token = _token;
+        twapWindow = _twapWindow;
+    }
+
+    /*
+     * @title getRoute
+     * @notice Function to get the price route of the token
+     * @return _routePools The pool addresses from the token to WETH
+     * @return _routePath The token path from the token to WETH
+     */
+    function getRoute() public view returns (address[] memory _routePools, address[] memory _routePath) {
+        _routePools = new address[](_pools.length);
+        for (uint256 i = 0; i < _pools.length; i++) {
+            _routePools[i] = address(_pools[i]);
+        }
+        _routePath = _path;
+    }
+
+    /*
+     * @title getPrice
+     * @notice Function to get the price of the token
+     * @param _token The token address
+     * @param _amount The amount of ETH to pay
+     * @return _price The amount of tokens worth the amount of ETH
+     */
+    function getPrice(address _token, uint256 _amount) public view returns (uint256 _price) {
+        if (_token != token || _amount == 0) revert InvalidInput();
+        _price = UniswapV3Price.getRouteQuote(_pools, _path, _amount, twapWindow);
+    }
+}
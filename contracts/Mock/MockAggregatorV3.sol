@@ -0,0 +1,37 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+contract MockAggregatorV3 {
+    uint8 public immutable decimals;
+    string public description = "Mock Aggregator";
+    uint256 public version = 4;
+
+    uint80 public roundId;
+    int256 public answer;
+    uint256 public startedAt;
+    uint256 public updatedAt;
+
+    constructor(uint8 _decimals, int256 _answer) {
+        decimals = _decimals;
+        setAnswer(_answer);
+    }
+
+    function setAnswer(int256 _answer) public {
+        setRoundData(_answer, block.timestamp, block.timestamp);
+    }
+
+    function setRoundData(int256 _answer, uint256 _startedAt, uint256 _updatedAt) public {
+        roundId++;
+        answer = _answer;
+        startedAt = _startedAt;
+        updatedAt = _updatedAt;
+    }
+
+    function getRoundData(uint80) external view returns (uint80, int256, uint256, uint256, uint80) {
+        return (roundId, answer, startedAt, updatedAt, roundId);
+    }
+
+    function latestRoundData() external view returns (uint80, int256, uint256, uint256, uint80) {
+        return (roundId, answer, startedAt, updatedAt, roundId);
+    }
+}
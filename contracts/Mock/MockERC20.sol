@@ -5,11 +5,19 @@ import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
 import {ERC20Permit} from "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
 
 contract MockERC20 is ERC20, ERC20Permit {
-    constructor(string memory name, string memory symbol, uint8 decimals) 
+    uint8 private immutable _decimals;
+    bool public shouldReturnFalse;
+
+    constructor(string memory name, string memory symbol, uint8 decimals_) 
         ERC20(name, symbol) 
         ERC20Permit(name)
     {
-        _mint(msg.sender, 1000000 * 10**decimals);
+        _decimals = decimals_;
+        _mint(msg.sender, 1000000 * 10**decimals_);
+    }
+
+    function decimals() public view override returns (uint8) {
+        return _decimals;
     }
 
     function mint(address to, uint256 amount) public {
@@ -19,4 +27,18 @@ contract MockERC20 is ERC20, ERC20Permit {
     function burn(address from, uint256 amount) public {
         _burn(from, amount);
     }
+
+    function setShouldReturnFalse(bool _shouldReturnFalse) public {
+        shouldReturnFalse = _shouldReturnFalse;
+    }
+
+    function transfer(address to, uint256 value) public override returns (bool) {
+        if (shouldReturnFalse) return false;
+        return super.transfer(to, value);
+    }
+
+    function transferFrom(address from, address to, uint256 value) public override returns (bool) {
+        if (shouldReturnFalse) return false;
+        return super.transferFrom(from, to, value);
+    }
 } 
\ No newline at end of file
@@ -19,6 +19,10 @@ contract MockRewarder is IBETRStakingEventHandler {
     
     // Track all stake changes for each user
     mapping(address => StakeChange[]) public userStakeChanges;
+
+    // Simulate failing rewarders
+    bool public shouldRevert;
+    bool public shouldConsumeAllGas;
     
     // Structure to store stake change details
     struct StakeChange {
@@ -45,6 +49,13 @@ contract MockRewarder is IBETRStakingEventHandler {
      * @param _newAmount The new amount of stake
      */
     function onStakeChanged(address _user, uint256 _oldAmount, uint256 _newAmount) external override {
+        if (shouldRevert) revert("MockRewarder");
+        if (shouldConsumeAllGas) {
+            while (true) {
+                totalCalls++;
+            }
+        }
+
         totalCalls++;
         userCalls[_user]++;
         
@@ -127,6 +138,24 @@ contract MockRewarder is IBETRStakingEventHandler {
         return userStakeChanges[_user].length;
     }
     
+    /*
+     * @title setShouldRevert
+     * @notice Make onStakeChanged revert (for testing)
+     * @param _shouldRevert Whether onStakeChanged should revert
+     */
+    function setShouldRevert(bool _shouldRevert) public {
+        shouldRevert = _shouldRevert;
+    }
+
+    /*
+     * @title setShouldConsumeAllGas
+     * @notice Make onStakeChanged consume all the gas it receives (for testing)
+     * @param _shouldConsumeAllGas Whether onStakeChanged should consume all gas
+     */
+    function setShouldConsumeAllGas(bool _shouldConsumeAllGas) public {
+        shouldConsumeAllGas = _shouldConsumeAllGas;
+    }
+
     /*
      * @title reset
      * @notice Reset all tracking data (for testing)
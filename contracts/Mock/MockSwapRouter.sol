@@ -0,0 +1,29 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {IV3SwapRouter} from "../interfaces/IV3SwapRouter.sol";
+
+// Swaps at a configurable rate, paying out of its own balance of the last path token
+contract MockSwapRouter {
+    uint256 public rate = 1e18;
+    bytes public lastPath;
+
+    error TooLittleReceived(uint256 amountOut, uint256 amountOutMinimum);
+
+    function setRate(uint256 _rate) external {
+        rate = _rate;
+    }
+
+    function exactInput(IV3SwapRouter.ExactInputParams calldata params) external payable returns (uint256 amountOut) {
+        address tokenIn = address(bytes20(params.path[:20]));
+        address tokenOut = address(bytes20(params.path[params.path.length - 20:]));
+        lastPath = params.path;
+
+        amountOut = params.amountIn * rate / 1e18;
+        if (amountOut < params.amountOutMinimum) revert TooLittleReceived(amountOut, params.amountOutMinimum);
+
+        IERC20(tokenIn).transferFrom(msg.sender, address(this), params.amountIn);
+        IERC20(tokenOut).transfer(params.recipient, amountOut);
+    }
+}
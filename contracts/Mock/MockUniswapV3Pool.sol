@@ -17,6 +17,9 @@ contract MockUniswapV3Pool {
     uint8 public feeProtocol = 0;
     bool public unlocked = true;
 
+    // Mock oracle data - configurable tick accumulated by the observations
+    int24 public observationTick = 0;
+
     constructor(address _token0, address _token1, uint160 _sqrtPriceX96) {
         // Uniswap V3 orders tokens by address (lexicographically)
         if (_token0 < _token1) {
@@ -43,4 +46,19 @@ contract MockUniswapV3Pool {
     ) {
         return (sqrtPriceX96, tick, observationIndex, observationCardinality, observationCardinalityNext, feeProtocol, unlocked);
     }
+
+    function setObservationTick(int24 _observationTick) external {
+        observationTick = _observationTick;
+    }
+
+    function observe(uint32[] calldata secondsAgos) external view returns (
+        int56[] memory tickCumulatives,
+        uint160[] memory secondsPerLiquidityCumulativeX128s
+    ) {
+        tickCumulatives = new int56[](secondsAgos.length);
+        secondsPerLiquidityCumulativeX128s = new uint160[](secondsAgos.length);
+        for (uint256 i = 0; i < secondsAgos.length; i++) {
+            tickCumulatives[i] = int56(observationTick) * int56(uint56(block.timestamp - secondsAgos[i]));
+        }
+    }
 }
\ No newline at end of file
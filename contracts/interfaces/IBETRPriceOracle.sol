@@ -0,0 +1,17 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+/*
+ * @title IBETRPriceOracle
+ * @notice Interface for the ERC20 token price oracles
+ */
+interface IBETRPriceOracle {
+    /*
+     * @title getPrice
+     * @notice Function to get the price of the token
+     * @param _token The token address
+     * @param _amount The amount of ETH to pay
+     * @return _price The amount of tokens worth the amount of ETH
+     */
+    function getPrice(address _token, uint256 _amount) external view returns (uint256 _price);
+}
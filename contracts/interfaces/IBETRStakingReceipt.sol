@@ -0,0 +1,33 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+
+/*
+ * @title IBETRStakingReceipt
+ * @notice Interface for the liquid staking receipt token
+ */
+interface IBETRStakingReceipt is IERC20 {
+    /*
+     * @title stakingContract
+     * @notice Function to get the staking contract the receipt is bound to
+     * @return stakingContract The address of the staking contract
+     */
+    function stakingContract() external view returns (address);
+
+    /*
+     * @title mint
+     * @notice Function to mint receipts for staked tokens
+     * @param _to The address to mint receipts to
+     * @param _amount The amount of receipts to mint
+     */
+    function mint(address _to, uint256 _amount) external;
+
+    /*
+     * @title burn
+     * @notice Function to burn receipts for unstaked tokens
+     * @param _from The address to burn receipts from
+     * @param _amount The amount of receipts to burn
+     */
+    function burn(address _from, uint256 _amount) external;
+}
@@ -37,4 +37,53 @@ interface IBETRStakingStateProvider {
      * @return stakedAmount The amount of tokens staked by the user
      */
     function stakedAmount(address _user) external view returns (uint256);
+
+    /*
+     * @title totalEffectiveStakedAmount
+     * @notice Function to get the total effective (multiplier-weighted) stake
+     * @return totalEffectiveStakedAmount The total effective stake
+     */
+    function totalEffectiveStakedAmount() external view returns (uint256);
+
+    /*
+     * @title effectiveStakedAmount
+     * @notice Function to get the effective (multiplier-weighted) stake of a user, as reported to the rewarders
+     * @param _user The address of the user
+     * @return effectiveStakedAmount The effective stake of the user
+     */
+    function effectiveStakedAmount(address _user) external view returns (uint256);
+
+    /*
+     * @title stakedAmountAt
+     * @notice Function to get the amount of tokens staked by a user at the end of a past block
+     * @param _user The address of the user
+     * @param _timepoint The block number, must be in the past
+     * @return stakedAmount The amount of tokens staked by the user
+     */
+    function stakedAmountAt(address _user, uint256 _timepoint) external view returns (uint256);
+
+    /*
+     * @title totalStakedAmountAt
+     * @notice Function to get the total amount of tokens staked at the end of a past block
+     * @param _timepoint The block number, must be in the past
+     * @return totalStakedAmount The total amount of tokens staked
+     */
+    function totalStakedAmountAt(uint256 _timepoint) external view returns (uint256);
+
+    /*
+     * @title notifiedStakedAmount
+     * @notice Function to get the effective stake of a user as last processed by a rewarder
+     * @param _rewarder The address of the rewarder
+     * @param _user The address of the user
+     * @return notifiedStakedAmount The effective stake of the user known by the rewarder
+     */
+    function notifiedStakedAmount(address _rewarder, address _user) external view returns (uint256);
+
+    /*
+     * @title stakeFor
+     * @notice Function to stake tokens for a user, pulling them from the caller
+     * @param _user The user to stake tokens for
+     * @param _amount The amount of tokens to stake
+     */
+    function stakeFor(address _user, uint256 _amount) external;
 }
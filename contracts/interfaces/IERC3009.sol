@@ -0,0 +1,32 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+/*
+ * @title IERC3009
+ * @notice Interface for the EIP-3009 transfers with authorization, e.g. USDC
+ */
+interface IERC3009 {
+    /*
+     * @title receiveWithAuthorization
+     * @notice Function to receive tokens with a signed authorization, callable by the recipient only
+     * @param from The payer address
+     * @param to The recipient address
+     * @param value The amount of tokens
+     * @param validAfter The time after which the authorization is valid
+     * @param validBefore The time before which the authorization is valid
+     * @param nonce The unique nonce of the authorization
+     * @param v The v parameter of the signature
+     * @param r The r parameter of the signature
+     * @param s The s parameter of the signature
+     */
+    function receiveWithAuthorization(address from, address to, uint256 value, uint256 validAfter, uint256 validBefore, bytes32 nonce, uint8 v, bytes32 r, bytes32 s) external;
+
+    /*
+     * @title authorizationState
+     * @notice Function to get whether an authorization nonce is used
+     * @param authorizer The authorizer address
+     * @param nonce The nonce of the authorization
+     * @return used Whether the nonce is used
+     */
+    function authorizationState(address authorizer, bytes32 nonce) external view returns (bool used);
+}
@@ -0,0 +1,52 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+/*
+ * @title ISignatureTransfer
+ * @notice Interface for the signature transfers of Uniswap's Permit2
+ */
+interface ISignatureTransfer {
+    /*
+     * @notice Token and amount in a permit message
+     * @param token The token address
+     * @param amount The maximum amount that can be transferred
+     */
+    struct TokenPermissions {
+        address token;
+        uint256 amount;
+    }
+
+    /*
+     * @notice Signed permit message for a single token transfer
+     * @param permitted The token and the maximum amount
+     * @param nonce The unordered nonce of the permit
+     * @param deadline The deadline of the permit
+     */
+    struct PermitTransferFrom {
+        TokenPermissions permitted;
+        uint256 nonce;
+        uint256 deadline;
+    }
+
+    /*
+     * @notice Transfer details of a permit transfer
+     * @param to The recipient address
+     * @param requestedAmount The amount to transfer, at most the permitted amount
+     */
+    struct SignatureTransferDetails {
+        address to;
+        uint256 requestedAmount;
+    }
+
+    /*
+     * @title permitWitnessTransferFrom
+     * @notice Function to transfer tokens with a signed permit that also binds extra witness data
+     * @param permit The permit message
+     * @param transferDetails The transfer details
+     * @param owner The owner of the tokens and signer of the permit
+     * @param witness The hash of the witness data
+     * @param witnessTypeString The EIP-712 type string of the witness
+     * @param signature The signature of the permit
+     */
+    function permitWitnessTransferFrom(PermitTransferFrom calldata permit, SignatureTransferDetails calldata transferDetails, address owner, bytes32 witness, string calldata witnessTypeString, bytes calldata signature) external;
+}
@@ -0,0 +1,30 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+/*
+ * @title IV3SwapRouter
+ * @notice Interface for the Uniswap V3 swaps of SwapRouter02
+ */
+interface IV3SwapRouter {
+    /*
+     * @notice Exact input swap parameters
+     * @param path The encoded path of tokens and pool fees
+     * @param recipient The recipient of the output tokens
+     * @param amountIn The amount of input tokens
+     * @param amountOutMinimum The minimum amount of output tokens
+     */
+    struct ExactInputParams {
+        bytes path;
+        address recipient;
+        uint256 amountIn;
+        uint256 amountOutMinimum;
+    }
+
+    /*
+     * @title exactInput
+     * @notice Function to swap an exact amount of input tokens along the path
+     * @param params The swap parameters
+     * @return amountOut The amount of output tokens
+     */
+    function exactInput(ExactInputParams calldata params) external payable returns (uint256 amountOut);
+}
@@ -0,0 +1,23 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+
+/*
+ * @title IWETH9
+ * @notice Interface for wrapped ETH
+ */
+interface IWETH9 is IERC20 {
+    /*
+     * @title deposit
+     * @notice Function to wrap ETH
+     */
+    function deposit() external payable;
+
+    /*
+     * @title withdraw
+     * @notice Function to unwrap WETH
+     * @param amount The amount of WETH to unwrap
+     */
+    function withdraw(uint256 amount) external;
+}
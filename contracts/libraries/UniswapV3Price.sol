@@ -0,0 +1,101 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import {IUniswapV3Pool} from "@uniswap/v3-core/contracts/interfaces/IUniswapV3Pool.sol";
+import {Math} from "@openzeppelin/contracts/utils/math/Math.sol";
+import {TickMath} from "./TickMath.sol";
+
+/*
+ * @title UniswapV3Price
+ * @author Mirko Nosenzo (@netnose)
+ * @notice This library is used to quote token amounts off Uniswap V3 pools
+ */
+library UniswapV3Price {
+    uint256 private constant Q96 = 2 ** 96;
+
+    /*
+     * @title InvalidInput
+     * @notice Error to check if the input is invalid
+     */
+    error InvalidInput();
+
+    /*
+     * @title PriceCalculationError
+     * @notice Error to check if the price calculation failed
+     */
+    error PriceCalculationError();
+
+    /*
+     * @title getQuote
+     * @notice Function to get the amount of a pool token worth an amount of the other pool token
+     * @param pool The pool
+     * @param tokenIn The token to quote the amount of
+     * @param amount The amount of the other pool token, in its smallest unit
+     * @param sqrtPriceX96 The pool sqrt price to quote at
+     * @return price The amount of the token in, in its smallest unit
+     * @dev The pool price is quoted in smallest units (token1 per token0), so each hop handles the token decimals
+     */
+    function getQuote(IUniswapV3Pool pool, address tokenIn, uint256 amount, uint160 sqrtPriceX96) internal view returns (uint256 price) {
+        // Get token0 and token1 from the pool
+        address token0 = pool.token0();
+        address token1 = pool.token1();
+
+        if (tokenIn != token0 && tokenIn != token1) revert InvalidInput();
+        if (sqrtPriceX96 == 0) revert PriceCalculationError();
+
+        // price = amount / (sqrtPriceX96 ^ 2 / 2 ^ 192) when paying in token0, amount * (sqrtPriceX96 ^ 2 / 2 ^ 192) otherwise
+        if (tokenIn == token0) {
+            price = Math.mulDiv(Math.mulDiv(amount, Q96, sqrtPriceX96), Q96, sqrtPriceX96);
+        } else {
+            price = Math.mulDiv(Math.mulDiv(amount, sqrtPriceX96, Q96), sqrtPriceX96, Q96);
+        }
+        
+        // Validate price is reasonable (not zero or extremely large)
+        if (price == 0 || price > type(uint256).max / 1e18) revert PriceCalculationError();
+    }
+
+    /*
+     * @title getRouteQuote
+     * @notice Function to get the amount of the first path token worth an amount of the last path token, from the last pool back to the first
+     * @param pools The pools chaining the path tokens
+     * @param path The path tokens, one more than the pools
+     * @param amount The amount of the last path token
+     * @param twapWindow The TWAP window in seconds, zero to quote at the spot prices
+     * @return price The amount of the first path token
+     */
+    function getRouteQuote(IUniswapV3Pool[] storage pools, address[] storage path, uint256 amount, uint32 twapWindow) internal view returns (uint256 price) {
+        price = amount;
+        for (uint256 i = pools.length; i > 0; i--) {
+            IUniswapV3Pool pool = pools[i - 1];
+            uint160 sqrtPriceX96;
+            if (twapWindow == 0) {
+                (sqrtPriceX96, , , , , , ) = pool.slot0();
+            } else {
+                sqrtPriceX96 = getTwapSqrtPrice(pool, twapWindow);
+            }
+            price = getQuote(pool, path[i - 1], price, sqrtPriceX96);
+        }
+    }
+
+    /*
+     * @title getTwapSqrtPrice
+     * @notice Function to get the time-weighted average sqrt price of the pool
+     * @param pool The pool
+     * @param window The TWAP window in seconds
+     * @return sqrtPriceX96 The sqrt price at the time-weighted average tick
+     */
+    function getTwapSqrtPrice(IUniswapV3Pool pool, uint32 window) internal view returns (uint160 sqrtPriceX96) {
+        uint32[] memory secondsAgos = new uint32[](2);
+        secondsAgos[0] = window;
+        secondsAgos[1] = 0;
+
+        (int56[] memory tickCumulatives, ) = pool.observe(secondsAgos);
+        int56 tickCumulativesDelta = tickCumulatives[1] - tickCumulatives[0];
+        int24 arithmeticMeanTick = int24(tickCumulativesDelta / int56(uint56(window)));
+
+        // Always round to negative infinity
+        if (tickCumulativesDelta < 0 && (tickCumulativesDelta % int56(uint56(window)) != 0)) arithmeticMeanTick--;
+
+        sqrtPriceX96 = TickMath.getSqrtRatioAtTick(arithmeticMeanTick);
+    }
+}
@@ -3,15 +3,16 @@
 
 import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
 import { vars } from "hardhat/config";
+import BETRStakingModule from "./BETRStaking";
 
 const BETRRewardsModule = buildModule("BETRRewardsModule", (m) => {
   const owner = m.getParameter("owner", vars.get("BETR_OWNER"));
-  const stakingContract = m.getParameter("stakingContract");
   const rewardToken = m.getParameter("rewardToken");
+  const { betrStaking } = m.useModule(BETRStakingModule);
 
-  const betrRewards = m.contract("BETRRewards", [owner, stakingContract, rewardToken]);
+  const betrRewards = m.contract("BETRRewards", [owner, betrStaking, rewardToken]);
 
-  return { betrRewards };
+  return { betrRewards, betrStaking };
 });
 
 export default BETRRewardsModule;
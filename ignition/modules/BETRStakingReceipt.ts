@@ -0,0 +1,17 @@
+// This setup uses Hardhat Ignition to manage smart contract deployments.
+// Learn more about it at https://hardhat.org/ignition
+
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import BETRStakingModule from "./BETRStaking";
+
+const BETRStakingReceiptModule = buildModule("BETRStakingReceiptModule", (m) => {
+  const name = m.getParameter("name", "Staked BETR");
+  const symbol = m.getParameter("symbol", "stBETR");
+  const { betrStaking } = m.useModule(BETRStakingModule);
+
+  const betrStakingReceipt = m.contract("BETRStakingReceipt", [name, symbol, betrStaking]);
+
+  return { betrStakingReceipt, betrStaking };
+});
+
+export default BETRStakingReceiptModule;
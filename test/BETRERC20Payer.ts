@@ -1,9 +1,12 @@
 import {
   loadFixture,
+  mine,
+  setCode,
+  time,
 } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
 import { expect } from "chai";
 import hre from "hardhat";
-import { getAddress, encodeFunctionData, parseEther } from "viem";
+import { getAddress, encodeAbiParameters, encodeFunctionData, hashTypedData, keccak256, maxUint256, parseAbiParameters, parseEther, parseUnits, toFunctionSelector, toHex } from "viem";
 import { Signature } from "ethers";
 
 describe("BETRERC20Payer", function () {
@@ -82,6 +85,55 @@ describe("BETRERC20Payer", function () {
     };
   }
 
+  // Fixture for payments of the mock token to the mock destination, configurable per payment path
+  async function deployPaymentFixture({
+    float = parseEther("1"),
+    balance = parseEther("1000"),
+    payers = ["user"],
+    spender = "payer",
+  }: {
+    float?: bigint;
+    balance?: bigint;
+    payers?: ("user" | "otherAccount")[];
+    spender?: "payer" | "permit2";
+  } = {}) {
+    const fixture = await deployBETRERC20PayerFixture();
+    const { betrERC20Payer, mockToken, mockPool, mockDestination, owner } = fixture;
+
+    await betrERC20Payer.write.setERC20TokenPricePool([mockToken.address, mockPool.address], {
+      account: owner.account
+    });
+    await betrERC20Payer.write.setWhitelistedDestination([mockDestination.address, true], {
+      account: owner.account
+    });
+    await betrERC20Payer.write.setAllowedSelector([mockDestination.address, toFunctionSelector("testSuccess()"), true, 0n], {
+      account: owner.account
+    });
+    await owner.sendTransaction({
+      to: betrERC20Payer.address,
+      value: float
+    });
+
+    const spenderAddress = spender === "permit2" ? await betrERC20Payer.read.PERMIT2() : betrERC20Payer.address;
+    for (const payer of payers) {
+      const account = fixture[payer].account;
+      await mockToken.write.mint([account.address, balance], {
+        account: owner.account
+      });
+      await mockToken.write.approve([spenderAddress, balance], {
+        account
+      });
+    }
+
+    const data = encodeFunctionData({
+      abi: mockDestination.abi,
+      functionName: "testSuccess",
+      args: []
+    });
+
+    return { ...fixture, data };
+  }
+
   describe("Deployment", function () {
     it("Should set the right owner and WETH", async function () {
       const { betrERC20Payer, owner, mockWETH } = await loadFixture(deployBETRERC20PayerFixture);
@@ -294,6 +346,136 @@ describe("BETRERC20Payer", function () {
     });
   });
 
+  describe("Allowed Selectors", function () {
+    async function deploySelectorsFixture() {
+      const fixture = await deployBETRERC20PayerFixture();
+      const { betrERC20Payer, mockToken, mockPool, mockDestination, owner, user } = fixture;
+
+      await betrERC20Payer.write.setERC20TokenPricePool([mockToken.address, mockPool.address], {
+        account: owner.account
+      });
+      await betrERC20Payer.write.setWhitelistedDestination([mockDestination.address, true], {
+        account: owner.account
+      });
+      await owner.sendTransaction({
+        to: betrERC20Payer.address,
+        value: parseEther("1")
+      });
+      await mockToken.write.mint([user.account.address, parseEther("1000")], {
+        account: owner.account
+      });
+      await mockToken.write.approve([betrERC20Payer.address, parseEther("1000")], {
+        account: user.account
+      });
+
+      const data = encodeFunctionData({
+        abi: mockDestination.abi,
+        functionName: "testSuccess",
+        args: []
+      });
+
+      return { ...fixture, data, selector: toFunctionSelector("testSuccess()") };
+    }
+
+    it("Should set the allowed selector", async function () {
+      const { betrERC20Payer, mockDestination, selector, owner } = await loadFixture(deploySelectorsFixture);
+
+      expect(await betrERC20Payer.read.allowedSelectors([mockDestination.address, selector])).to.deep.equal([false, 0n]);
+      expect(await betrERC20Payer.write.setAllowedSelector([mockDestination.address, selector, true, parseEther("0.5")], {
+        account: owner.account
+      })).to.emit(betrERC20Payer, "AllowedSelectorSet").withArgs(mockDestination.address, selector, true, parseEther("0.5"));
+      expect(await betrERC20Payer.read.allowedSelectors([mockDestination.address, selector])).to.deep.equal([true, parseEther("0.5")]);
+
+      // Disallowing clears the cap
+      await betrERC20Payer.write.setAllowedSelector([mockDestination.address, selector, false, parseEther("0.5")], {
+        account: owner.account
+      });
+      expect(await betrERC20Payer.read.allowedSelectors([mockDestination.address, selector])).to.deep.equal([false, 0n]);
+    });
+
+    it("Should not set the allowed selector if the input is invalid", async function () {
+      const { betrERC20Payer, mockDestination, selector, owner, otherAccount } = await loadFixture(deploySelectorsFixture);
+
+      await expect(betrERC20Payer.write.setAllowedSelector([mockDestination.address, selector, true, 0n], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("NotOwner");
+      await expect(betrERC20Payer.write.setAllowedSelector(["0x0000000000000000000000000000000000000000", selector, true, 0n], {
+        account: owner.account
+      })).to.be.rejectedWith("InvalidInput");
+    });
+
+    it("Should revert if the selector is not allowed on the destination", async function () {
+      const { betrERC20Payer, mockToken, mockDestination, data, selector, owner, user } = await loadFixture(deploySelectorsFixture);
+
+      await expect(betrERC20Payer.write.payWithERC20([
+        mockToken.address,
+        mockDestination.address,
+        data,
+        parseEther("0.1"),
+        parseEther("0.1")
+      ], {
+        account: user.account
+      })).to.be.rejectedWith("NotAllowedSelector");
+
+      // Allowing another selector does not allow this one
+      await betrERC20Payer.write.setAllowedSelector([mockDestination.address, toFunctionSelector("testRevert()"), true, 0n], {
+        account: owner.account
+      });
+      await expect(betrERC20Payer.write.payWithERC20([
+        mockToken.address,
+        mockDestination.address,
+        data,
+        parseEther("0.1"),
+        parseEther("0.1")
+      ], {
+        account: user.account
+      })).to.be.rejectedWith("NotAllowedSelector");
+
+      await betrERC20Payer.write.setAllowedSelector([mockDestination.address, selector, true, 0n], {
+        account: owner.account
+      });
+      await betrERC20Payer.write.payWithERC20([
+        mockToken.address,
+        mockDestination.address,
+        data,
+        parseEther("0.1"),
+        parseEther("0.1")
+      ], {
+        account: user.account
+      });
+      expect(await mockDestination.read.getCalls()).to.equal(1n);
+    });
+
+    it("Should revert if the ETH value exceeds the selector cap", async function () {
+      const { betrERC20Payer, mockToken, mockDestination, data, selector, owner, user } = await loadFixture(deploySelectorsFixture);
+
+      await betrERC20Payer.write.setAllowedSelector([mockDestination.address, selector, true, parseEther("0.1")], {
+        account: owner.account
+      });
+
+      await expect(betrERC20Payer.write.payWithERC20([
+        mockToken.address,
+        mockDestination.address,
+        data,
+        parseEther("0.2"),
+        parseEther("0.2")
+      ], {
+        account: user.account
+      })).to.be.rejectedWith("SelectorValueCapExceeded");
+
+      await betrERC20Payer.write.payWithERC20([
+        mockToken.address,
+        mockDestination.address,
+        data,
+        parseEther("0.1"),
+        parseEther("0.1")
+      ], {
+        account: user.account
+      });
+      expect(await mockDestination.read.getCalls()).to.equal(1n);
+    });
+  });
+
   describe("Price Calculations", function () {
     it("Should get price from pool", async function () {
       const { betrERC20Payer, mockToken, mockPool } = await loadFixture(deployBETRERC20PayerFixture);
@@ -333,379 +515,2639 @@ describe("BETRERC20Payer", function () {
     });
   });
 
-  describe("Pay with ERC20", function () {
-    it("Should pay with ERC20 tokens successfully", async function () {
-      const { betrERC20Payer, mockToken, mockPool, mockDestination, owner, user } = await loadFixture(deployBETRERC20PayerFixture);
+  describe("TWAP Pricing", function () {
+    async function deployTwapFixture() {
+      const fixture = await deployBETRERC20PayerFixture();
+      const { betrERC20Payer, mockToken, mockPool, mockDestination, owner, user } = fixture;
 
-      // Setup: Set pool and whitelist destination
       await betrERC20Payer.write.setERC20TokenPricePool([mockToken.address, mockPool.address], {
         account: owner.account
       });
       await betrERC20Payer.write.setWhitelistedDestination([mockDestination.address, true], {
         account: owner.account
       });
-
-      // Fund the contract with ETH
+      await betrERC20Payer.write.setAllowedSelector([mockDestination.address, toFunctionSelector("testSuccess()"), true, 0n], {
+        account: owner.account
+      });
       await owner.sendTransaction({
         to: betrERC20Payer.address,
         value: parseEther("1")
       });
-
-      // Fund user with tokens
       await mockToken.write.mint([user.account.address, parseEther("1000")], {
         account: owner.account
       });
-
-      // Approve tokens
       await mockToken.write.approve([betrERC20Payer.address, parseEther("1000")], {
         account: user.account
       });
 
-      const amount = parseEther("0.1");
-      const expectedPrice = amount; // 1:1 ratio from mock pool
+      return fixture;
+    }
+
+    // Token amount for the given ETH amount at a tick, within floating point precision
+    async function expectedPriceAtTick(mockPool: { read: { token0: () => Promise<`0x${string}`> } }, token: `0x${string}`, amount: bigint, tick: number) {
+      const ratio = Math.pow(1.0001, tick);
+      const isToken0 = (await mockPool.read.token0()) === getAddress(token);
+      return BigInt(Math.round(Number(amount) * (isToken0 ? 1 / ratio : ratio)));
+    }
+
+    it("Should set the TWAP configuration", async function () {
+      const { betrERC20Payer, mockToken, owner } = await loadFixture(deployTwapFixture);
+
+      expect(await betrERC20Payer.write.setERC20TokenTwapConfig([mockToken.address, 1800, 200], {
+        account: owner.account
+      })).to.emit(betrERC20Payer, "ERC20TokenTwapConfigSet").withArgs(mockToken.address, 1800, 200);
+
+      expect(await betrERC20Payer.read.erc20TokenTwapConfig([mockToken.address])).to.deep.equal([1800, 200]);
+    });
+
+    it("Should not set an invalid TWAP configuration", async function () {
+      const { betrERC20Payer, mockToken, owner, otherAccount } = await loadFixture(deployTwapFixture);
+
+      await expect(betrERC20Payer.write.setERC20TokenTwapConfig([mockToken.address, 1800, 200], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("NotOwner");
+      await expect(betrERC20Payer.write.setERC20TokenTwapConfig(["0x0000000000000000000000000000000000000000", 1800, 200], {
+        account: owner.account
+      })).to.be.rejectedWith("InvalidInput");
+      await expect(betrERC20Payer.write.setERC20TokenTwapConfig([mockToken.address, 1800, 0], {
+        account: owner.account
+      })).to.be.rejectedWith("InvalidInput");
+      await expect(betrERC20Payer.write.setERC20TokenTwapConfig([mockToken.address, 1800, 10001], {
+        account: owner.account
+      })).to.be.rejectedWith("InvalidInput");
+    });
+
+    it("Should price off the TWAP when configured", async function () {
+      const { betrERC20Payer, mockToken, mockPool, owner } = await loadFixture(deployTwapFixture);
+
+      const amount = parseEther("1");
+      await betrERC20Payer.write.setERC20TokenTwapConfig([mockToken.address, 1800, 200], {
+        account: owner.account
+      });
+
+      // Tick 0 matches the 1:1 spot price
+      expect(await betrERC20Payer.read.getPrice([mockToken.address, amount])).to.equal(amount);
+
+      // A TWAP 100 ticks (~1%) away from the spot price is within the 2% tolerance
+      await mockPool.write.setObservationTick([-100]);
+      const price = await betrERC20Payer.read.getPrice([mockToken.address, amount]);
+      const expectedPrice = await expectedPriceAtTick(mockPool, mockToken.address, amount, -100);
+
+      expect(price).to.not.equal(amount);
+      expect(price).to.be.closeTo(expectedPrice, expectedPrice / 100000n);
+    });
+
+    it("Should keep pricing off the spot price without a TWAP window", async function () {
+      const { betrERC20Payer, mockToken, mockPool } = await loadFixture(deployTwapFixture);
+
+      await mockPool.write.setObservationTick([100]);
+
+      expect(await betrERC20Payer.read.getPrice([mockToken.address, parseEther("1")])).to.equal(parseEther("1"));
+    });
+
+    it("Should revert if the spot price deviates too much from the TWAP", async function () {
+      const { betrERC20Payer, mockToken, mockPool, mockDestination, owner, user } = await loadFixture(deployTwapFixture);
+
+      await betrERC20Payer.write.setERC20TokenTwapConfig([mockToken.address, 1800, 50], {
+        account: owner.account
+      });
+      await mockPool.write.setObservationTick([-100]);
+
+      await expect(betrERC20Payer.read.getPrice([mockToken.address, parseEther("1")])).to.be.rejectedWith("TwapDeviationError");
 
       const data = encodeFunctionData({
         abi: mockDestination.abi,
         functionName: "testSuccess",
         args: []
       });
-
-      const result = await betrERC20Payer.write.payWithERC20([
+      await expect(betrERC20Payer.write.payWithERC20([
         mockToken.address,
         mockDestination.address,
         data,
-        amount,
-        expectedPrice
+        parseEther("0.1"),
+        parseEther("0.1")
       ], {
         account: user.account
-      });
-
-      expect(result).to.not.be.undefined;
+      })).to.be.rejectedWith("TwapDeviationError");
     });
 
-    it("Should revert if token is zero address", async function () {
-      const { betrERC20Payer, mockDestination, user } = await loadFixture(deployBETRERC20PayerFixture);
+    it("Should pay with ERC20 tokens at the TWAP price", async function () {
+      const { betrERC20Payer, mockToken, mockPool, mockDestination, owner, user } = await loadFixture(deployTwapFixture);
+
+      await betrERC20Payer.write.setERC20TokenTwapConfig([mockToken.address, 1800, 200], {
+        account: owner.account
+      });
+      await mockPool.write.setObservationTick([-50]);
 
+      const amount = parseEther("0.1");
+      const twapPrice = await betrERC20Payer.read.getPrice([mockToken.address, amount]);
+      expect(twapPrice).to.not.equal(amount);
+      const ownerBalance = await mockToken.read.balanceOf([owner.account.address]);
       const data = encodeFunctionData({
         abi: mockDestination.abi,
         functionName: "testSuccess",
         args: []
       });
 
-      await expect(betrERC20Payer.write.payWithERC20([
-        "0x0000000000000000000000000000000000000000",
+      await betrERC20Payer.write.payWithERC20([
+        mockToken.address,
         mockDestination.address,
         data,
-        parseEther("0.1"),
-        parseEther("1")
+        amount,
+        twapPrice
       ], {
         account: user.account
+      });
+
+      expect(await mockToken.read.balanceOf([owner.account.address])).to.equal(ownerBalance + twapPrice);
+      expect(await mockDestination.read.getCalls()).to.equal(1n);
+    });
+  });
+
+  describe("Price Routes", function () {
+    async function deployRouteFixture() {
+      const fixture = await deployMultipleTokensFixture();
+      const { betrERC20Payer, mockWETH, mockToken18, mockToken6, mockDestination, owner, user } = fixture;
+
+      // TKN18 trades at 2 TKN6 and TKN6 trades at 4000 TKN6 per WETH, so 1 ETH is worth 2000 TKN18
+      const tokenPool = await deployPoolAtPrice(mockToken18.address, mockToken6.address, 2n * 10n ** 6n, 10n ** 18n);
+      const wethPool = await deployPoolAtPrice(mockToken6.address, mockWETH.address, 10n ** 18n, 4000n * 10n ** 6n);
+
+      await betrERC20Payer.write.setWhitelistedDestination([mockDestination.address, true], {
+        account: owner.account
+      });
+      await betrERC20Payer.write.setAllowedSelector([mockDestination.address, toFunctionSelector("testSuccess()"), true, 0n], {
+        account: owner.account
+      });
+      await owner.sendTransaction({
+        to: betrERC20Payer.address,
+        value: parseEther("1")
+      });
+      await mockToken18.write.mint([user.account.address, parseEther("10000")], {
+        account: owner.account
+      });
+      await mockToken18.write.approve([betrERC20Payer.address, parseEther("10000")], {
+        account: user.account
+      });
+
+      return { ...fixture, tokenPool, wethPool };
+    }
+
+    // Deploys a pool quoting _amountOut smallest units of _tokenOut for _amountIn smallest units of _tokenIn
+    async function deployPoolAtPrice(tokenIn: `0x${string}`, tokenOut: `0x${string}`, amountOut: bigint, amountIn: bigint) {
+      const [numerator, denominator] = BigInt(tokenIn) < BigInt(tokenOut) ? [amountOut, amountIn] : [amountIn, amountOut];
+      return hre.viem.deployContract("MockUniswapV3Pool", [tokenIn, tokenOut, sqrt((numerator << 192n) / denominator)]);
+    }
+
+    function sqrt(value: bigint) {
+      let x = value;
+      let y = (x + 1n) / 2n;
+      while (y < x) {
+        x = y;
+        y = (x + value / x) / 2n;
+      }
+      return x;
+    }
+
+    it("Should set a multi-hop price route", async function () {
+      const { betrERC20Payer, mockToken18, mockToken6, mockWETH, tokenPool, wethPool, owner } = await loadFixture(deployRouteFixture);
+
+      expect(await betrERC20Payer.write.setERC20TokenPriceRoute([mockToken18.address, [tokenPool.address, wethPool.address]], {
+        account: owner.account
+      })).to.emit(betrERC20Payer, "ERC20TokenPriceRouteSet").withArgs(mockToken18.address, [tokenPool.address, wethPool.address]);
+
+      expect(await betrERC20Payer.read.getERC20TokenPriceRoute([mockToken18.address])).to.deep.equal([
+        [getAddress(tokenPool.address), getAddress(wethPool.address)],
+        [getAddress(mockToken18.address), getAddress(mockToken6.address), getAddress(mockWETH.address)]
+      ]);
+      expect(await betrERC20Payer.read.erc20TokenPricePool([mockToken18.address])).to.equal(getAddress(tokenPool.address));
+    });
+
+    it("Should not set an invalid price route", async function () {
+      const { betrERC20Payer, mockToken18, mockToken6, mockToken8, mockWETH, tokenPool, wethPool, owner, otherAccount } = await loadFixture(deployRouteFixture);
+
+      await expect(betrERC20Payer.write.setERC20TokenPriceRoute([mockToken18.address, [tokenPool.address, wethPool.address]], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("NotOwner");
+      await expect(betrERC20Payer.write.setERC20TokenPriceRoute(["0x0000000000000000000000000000000000000000", [tokenPool.address, wethPool.address]], {
+        account: owner.account
+      })).to.be.rejectedWith("InvalidInput");
+      await expect(betrERC20Payer.write.setERC20TokenPriceRoute([mockToken18.address, []], {
+        account: owner.account
+      })).to.be.rejectedWith("InvalidInput");
+      await expect(betrERC20Payer.write.setERC20TokenPriceRoute([mockToken18.address, [tokenPool.address, "0x0000000000000000000000000000000000000000"]], {
+        account: owner.account
       })).to.be.rejectedWith("InvalidInput");
+
+      // Routes are limited to MAX_PRICE_ROUTE_LENGTH hops
+      const longRoute = [tokenPool.address, wethPool.address, wethPool.address, wethPool.address];
+      await expect(betrERC20Payer.write.setERC20TokenPriceRoute([mockToken18.address, longRoute], {
+        account: owner.account
+      })).to.be.rejectedWith("InvalidInput");
+
+      // Each pool has to contain the previous token of the path
+      await expect(betrERC20Payer.write.setERC20TokenPriceRoute([mockToken18.address, [wethPool.address]], {
+        account: owner.account
+      })).to.be.rejectedWith("InvalidPool");
+
+      // The path has to end at WETH
+      await expect(betrERC20Payer.write.setERC20TokenPriceRoute([mockToken18.address, [tokenPool.address]], {
+        account: owner.account
+      })).to.be.rejectedWith("InvalidPool");
+      const tokenPool8 = await deployPoolAtPrice(mockToken6.address, mockToken8.address, 1n, 1n);
+      await expect(betrERC20Payer.write.setERC20TokenPriceRoute([mockToken18.address, [tokenPool.address, tokenPool8.address]], {
+        account: owner.account
+      })).to.be.rejectedWith("InvalidPool");
+      await expect(betrERC20Payer.write.setERC20TokenPriceRoute([mockWETH.address, [wethPool.address, tokenPool.address]], {
+        account: owner.account
+      })).to.be.rejectedWith("InvalidPool");
     });
 
-    it("Should revert if destination is zero address", async function () {
-      const { betrERC20Payer, mockToken, user } = await loadFixture(deployBETRERC20PayerFixture);
+    it("Should price through a multi-hop route across token decimals", async function () {
+      const { betrERC20Payer, mockToken18, tokenPool, wethPool, owner } = await loadFixture(deployRouteFixture);
 
-      const data = encodeFunctionData({
-        abi: mockToken.abi,
-        functionName: "transfer",
-        args: [user.account.address, parseEther("1")]
+      await betrERC20Payer.write.setERC20TokenPriceRoute([mockToken18.address, [tokenPool.address, wethPool.address]], {
+        account: owner.account
       });
 
-      await expect(betrERC20Payer.write.payWithERC20([
-        mockToken.address,
-        "0x0000000000000000000000000000000000000000",
-        data,
-        parseEther("0.1"),
-        parseEther("1")
-      ], {
-        account: user.account
+      for (const amount of [parseEther("0.01"), parseEther("1"), parseEther("10")]) {
+        const expectedPrice = amount * 2000n;
+        const price = await betrERC20Payer.read.getPrice([mockToken18.address, amount]);
+        // Intermediate amounts are rounded down to the smallest unit of the 6-decimal token
+        expect(price).to.be.closeTo(expectedPrice, expectedPrice / 1000000n);
+      }
+    });
+
+    it("Should replace the route when a direct pool is set", async function () {
+      const { betrERC20Payer, mockToken18, mockWETH, tokenPool, wethPool, owner } = await loadFixture(deployRouteFixture);
+
+      await betrERC20Payer.write.setERC20TokenPriceRoute([mockToken18.address, [tokenPool.address, wethPool.address]], {
+        account: owner.account
+      });
+      const directPool = await deployPoolAtPrice(mockToken18.address, mockWETH.address, 1n, 1000n);
+      await betrERC20Payer.write.setERC20TokenPricePool([mockToken18.address, directPool.address], {
+        account: owner.account
+      });
+
+      expect(await betrERC20Payer.read.getERC20TokenPriceRoute([mockToken18.address])).to.deep.equal([
+        [getAddress(directPool.address)],
+        [getAddress(mockToken18.address), getAddress(mockWETH.address)]
+      ]);
+      const price = await betrERC20Payer.read.getPrice([mockToken18.address, parseEther("1")]);
+      expect(price).to.be.closeTo(parseEther("1000"), parseEther("1000") / 1000000000n);
+    });
+
+    it("Should apply the TWAP configuration to every hop of the route", async function () {
+      const { betrERC20Payer, mockToken18, tokenPool, wethPool, owner } = await loadFixture(deployRouteFixture);
+
+      await betrERC20Payer.write.setERC20TokenPriceRoute([mockToken18.address, [tokenPool.address, wethPool.address]], {
+        account: owner.account
+      });
+      await betrERC20Payer.write.setERC20TokenTwapConfig([mockToken18.address, 1800, 200], {
+        account: owner.account
+      });
+
+      // The mock observations stay at tick 0, far away from the spot prices of the route
+      await expect(betrERC20Payer.read.getPrice([mockToken18.address, parseEther("1")])).to.be.rejectedWith("TwapDeviationError");
+    });
+
+    it("Should pay with ERC20 tokens priced through a route", async function () {
+      const { betrERC20Payer, mockToken18, mockDestination, tokenPool, wethPool, owner, user } = await loadFixture(deployRouteFixture);
+
+      await betrERC20Payer.write.setERC20TokenPriceRoute([mockToken18.address, [tokenPool.address, wethPool.address]], {
+        account: owner.account
+      });
+
+      const amount = parseEther("0.1");
+      const price = await betrERC20Payer.read.getPrice([mockToken18.address, amount]);
+      const ownerBalance = await mockToken18.read.balanceOf([owner.account.address]);
+      const data = encodeFunctionData({
+        abi: mockDestination.abi,
+        functionName: "testSuccess",
+        args: []
+      });
+
+      await betrERC20Payer.write.payWithERC20([
+        mockToken18.address,
+        mockDestination.address,
+        data,
+        amount,
+        price
+      ], {
+        account: user.account
+      });
+
+      expect(await mockToken18.read.balanceOf([owner.account.address])).to.equal(ownerBalance + price);
+      expect(await mockDestination.read.getCalls()).to.equal(1n);
+    });
+  });
+
+  describe("Price Oracles", function () {
+    async function deployOracleFixture() {
+      const fixture = await deployPaymentFixture({ balance: parseEther("10000") });
+      const { mockToken } = fixture;
+
+      // The feed prices the token at 0.0005 ETH, so 1 ETH is worth 2000 tokens
+      const tokenFeed = await hre.viem.deployContract("MockAggregatorV3", [18, parseEther("0.0005")]);
+      const chainlinkOracle = await hre.viem.deployContract("BETRChainlinkOracle", [
+        mockToken.address,
+        tokenFeed.address,
+        "0x0000000000000000000000000000000000000000",
+        "0x0000000000000000000000000000000000000000",
+        3600n,
+        0n
+      ]);
+
+      return { ...fixture, tokenFeed, chainlinkOracle };
+    }
+
+    it("Should set the ERC20 token price oracle", async function () {
+      const { betrERC20Payer, mockToken, chainlinkOracle, owner } = await loadFixture(deployOracleFixture);
+
+      expect(await betrERC20Payer.write.setERC20TokenPriceOracle([mockToken.address, chainlinkOracle.address], {
+        account: owner.account
+      })).to.emit(betrERC20Payer, "ERC20TokenPriceOracleSet").withArgs(mockToken.address, chainlinkOracle.address);
+
+      expect(await betrERC20Payer.read.erc20TokenPriceOracle([mockToken.address])).to.equal(getAddress(chainlinkOracle.address));
+    });
+
+    it("Should not set the ERC20 token price oracle if the input is invalid", async function () {
+      const { betrERC20Payer, mockToken, chainlinkOracle, owner, otherAccount } = await loadFixture(deployOracleFixture);
+
+      await expect(betrERC20Payer.write.setERC20TokenPriceOracle([mockToken.address, chainlinkOracle.address], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("NotOwner");
+      await expect(betrERC20Payer.write.setERC20TokenPriceOracle(["0x0000000000000000000000000000000000000000", chainlinkOracle.address], {
+        account: owner.account
+      })).to.be.rejectedWith("InvalidInput");
+    });
+
+    it("Should not set an oracle that cannot price the token", async function () {
+      const { betrERC20Payer, mockToken, tokenFeed, chainlinkOracle, owner, otherAccount } = await loadFixture(deployOracleFixture);
+
+      await expect(betrERC20Payer.write.setERC20TokenPriceOracle([mockToken.address, otherAccount.account.address], {
+        account: owner.account
+      })).to.be.rejectedWith("InvalidInput");
+      await expect(betrERC20Payer.write.setERC20TokenPriceOracle([mockToken.address, mockToken.address], {
+        account: owner.account
+      })).to.be.rejected;
+
+      await tokenFeed.write.setAnswer([0n]);
+      await expect(betrERC20Payer.write.setERC20TokenPriceOracle([mockToken.address, chainlinkOracle.address], {
+        account: owner.account
+      })).to.be.rejectedWith("InvalidFeedAnswer");
+
+      // An oracle pricing the payment at zero tokens is rejected as well
+      await tokenFeed.write.setAnswer([parseEther("1000000000000000000000")]);
+      await expect(betrERC20Payer.write.setERC20TokenPriceOracle([mockToken.address, chainlinkOracle.address], {
+        account: owner.account
+      })).to.be.rejectedWith("InvalidInput");
+
+      expect(await betrERC20Payer.read.erc20TokenPriceOracle([mockToken.address])).to.equal("0x0000000000000000000000000000000000000000");
+    });
+
+    it("Should price off the oracle instead of the pool", async function () {
+      const { betrERC20Payer, mockToken, chainlinkOracle, owner } = await loadFixture(deployOracleFixture);
+
+      expect(await betrERC20Payer.read.getPrice([mockToken.address, parseEther("1")])).to.equal(parseEther("1"));
+
+      await betrERC20Payer.write.setERC20TokenPriceOracle([mockToken.address, chainlinkOracle.address], {
+        account: owner.account
+      });
+      expect(await betrERC20Payer.read.getPrice([mockToken.address, parseEther("1")])).to.equal(parseEther("2000"));
+
+      // Clearing the oracle prices off the pool again
+      await betrERC20Payer.write.setERC20TokenPriceOracle([mockToken.address, "0x0000000000000000000000000000000000000000"], {
+        account: owner.account
+      });
+      expect(await betrERC20Payer.read.getPrice([mockToken.address, parseEther("1")])).to.equal(parseEther("1"));
+    });
+
+    it("Should price tokens without a pool off the oracle", async function () {
+      const { betrERC20Payer, owner } = await loadFixture(deployOracleFixture);
+
+      const mockUSDC = await hre.viem.deployContract("MockERC20", ["USD Coin", "USDC", 6]);
+      const usdcFeed = await hre.viem.deployContract("MockAggregatorV3", [8, parseUnits("1", 8)]);
+      const ethFeed = await hre.viem.deployContract("MockAggregatorV3", [8, parseUnits("4000", 8)]);
+      const usdcOracle = await hre.viem.deployContract("BETRChainlinkOracle", [
+        mockUSDC.address,
+        usdcFeed.address,
+        ethFeed.address,
+        "0x0000000000000000000000000000000000000000",
+        3600n,
+        0n
+      ]);
+
+      await expect(betrERC20Payer.read.getPrice([mockUSDC.address, parseEther("1")])).to.be.rejectedWith("NoPoolForToken");
+
+      await betrERC20Payer.write.setERC20TokenPriceOracle([mockUSDC.address, usdcOracle.address], {
+        account: owner.account
+      });
+      expect(await betrERC20Payer.read.getPrice([mockUSDC.address, parseEther("0.5")])).to.equal(parseUnits("2000", 6));
+    });
+
+    it("Should revert if the oracle reverts", async function () {
+      const { betrERC20Payer, mockToken, tokenFeed, chainlinkOracle, owner } = await loadFixture(deployOracleFixture);
+
+      await betrERC20Payer.write.setERC20TokenPriceOracle([mockToken.address, chainlinkOracle.address], {
+        account: owner.account
+      });
+      await tokenFeed.write.setAnswer([0n]);
+
+      await expect(betrERC20Payer.read.getPrice([mockToken.address, parseEther("1")])).to.be.rejectedWith("InvalidFeedAnswer");
+    });
+
+    it("Should pay with ERC20 tokens at the oracle price", async function () {
+      const { betrERC20Payer, mockToken, mockDestination, chainlinkOracle, owner, user } = await loadFixture(deployOracleFixture);
+
+      await betrERC20Payer.write.setERC20TokenPriceOracle([mockToken.address, chainlinkOracle.address], {
+        account: owner.account
+      });
+
+      const ownerBalance = await mockToken.read.balanceOf([owner.account.address]);
+      const data = encodeFunctionData({
+        abi: mockDestination.abi,
+        functionName: "testSuccess",
+        args: []
+      });
+
+      await betrERC20Payer.write.payWithERC20([
+        mockToken.address,
+        mockDestination.address,
+        data,
+        parseEther("0.1"),
+        parseEther("200")
+      ], {
+        account: user.account
+      });
+
+      expect(await mockToken.read.balanceOf([owner.account.address])).to.equal(ownerBalance + parseEther("200"));
+      expect(await mockDestination.read.getCalls()).to.equal(1n);
+    });
+  });
+
+  describe("Payment Configuration", function () {
+    it("Should set the ERC20 token payment configuration", async function () {
+      const { betrERC20Payer, mockToken, owner } = await loadFixture(deployPaymentFixture);
+
+      expect(await betrERC20Payer.read.erc20TokenPaymentConfig([mockToken.address])).to.deep.equal([0, 0]);
+      expect(await betrERC20Payer.write.setERC20TokenPaymentConfig([mockToken.address, 250, 50], {
+        account: owner.account
+      })).to.emit(betrERC20Payer, "ERC20TokenPaymentConfigSet").withArgs(mockToken.address, 250, 50);
+
+      expect(await betrERC20Payer.read.erc20TokenPaymentConfig([mockToken.address])).to.deep.equal([250, 50]);
+    });
+
+    it("Should not set an invalid ERC20 token payment configuration", async function () {
+      const { betrERC20Payer, mockToken, owner, otherAccount } = await loadFixture(deployPaymentFixture);
+
+      await expect(betrERC20Payer.write.setERC20TokenPaymentConfig([mockToken.address, 250, 50], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("NotOwner");
+      await expect(betrERC20Payer.write.setERC20TokenPaymentConfig(["0x0000000000000000000000000000000000000000", 250, 50], {
+        account: owner.account
+      })).to.be.rejectedWith("InvalidInput");
+      await expect(betrERC20Payer.write.setERC20TokenPaymentConfig([mockToken.address, 5001, 50], {
+        account: owner.account
+      })).to.be.rejectedWith("InvalidInput");
+      await expect(betrERC20Payer.write.setERC20TokenPaymentConfig([mockToken.address, 250, 1001], {
+        account: owner.account
+      })).to.be.rejectedWith("InvalidInput");
+    });
+
+    it("Should set the fee recipient", async function () {
+      const { betrERC20Payer, owner, otherAccount } = await loadFixture(deployPaymentFixture);
+
+      expect(await betrERC20Payer.write.setFeeRecipient([otherAccount.account.address], {
+        account: owner.account
+      })).to.emit(betrERC20Payer, "FeeRecipientSet").withArgs(otherAccount.account.address);
+
+      expect(await betrERC20Payer.read.feeRecipient()).to.equal(getAddress(otherAccount.account.address));
+    });
+
+    it("Should not set the fee recipient if the input is invalid", async function () {
+      const { betrERC20Payer, owner, otherAccount } = await loadFixture(deployPaymentFixture);
+
+      await expect(betrERC20Payer.write.setFeeRecipient([otherAccount.account.address], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("NotOwner");
+      await expect(betrERC20Payer.write.setFeeRecipient(["0x0000000000000000000000000000000000000000"], {
+        account: owner.account
+      })).to.be.rejectedWith("InvalidInput");
+    });
+
+    it("Should include the fee in the price", async function () {
+      const { betrERC20Payer, mockToken, owner } = await loadFixture(deployPaymentFixture);
+
+      await betrERC20Payer.write.setERC20TokenPaymentConfig([mockToken.address, 0, 50], {
+        account: owner.account
+      });
+
+      expect(await betrERC20Payer.read.getPrice([mockToken.address, parseEther("1")])).to.equal(parseEther("1.005"));
+      // The fee is rounded up
+      expect(await betrERC20Payer.read.getPrice([mockToken.address, 1n])).to.equal(2n);
+    });
+
+    it("Should send the fee to the fee recipient", async function () {
+      const { betrERC20Payer, mockToken, mockDestination, data, owner, otherAccount, user } = await loadFixture(deployPaymentFixture);
+
+      await betrERC20Payer.write.setERC20TokenPaymentConfig([mockToken.address, 0, 50], {
+        account: owner.account
+      });
+      await betrERC20Payer.write.setFeeRecipient([otherAccount.account.address], {
+        account: owner.account
+      });
+      const ownerBalance = await mockToken.read.balanceOf([owner.account.address]);
+
+      expect(await betrERC20Payer.write.payWithERC20([
+        mockToken.address,
+        mockDestination.address,
+        data,
+        parseEther("0.1"),
+        parseEther("0.1005")
+      ], {
+        account: user.account
+      })).to.emit(betrERC20Payer, "FeeCharged").withArgs(mockToken.address, user.account.address, otherAccount.account.address, parseEther("0.0005"));
+
+      expect(await mockToken.read.balanceOf([owner.account.address])).to.equal(ownerBalance + parseEther("0.1"));
+      expect(await mockToken.read.balanceOf([otherAccount.account.address])).to.equal(parseEther("0.0005"));
+      expect(await mockToken.read.balanceOf([user.account.address])).to.equal(parseEther("1000") - parseEther("0.1005"));
+    });
+
+    it("Should send the fee to the owner without a fee recipient", async function () {
+      const { betrERC20Payer, mockToken, mockDestination, data, owner, user } = await loadFixture(deployPaymentFixture);
+
+      await betrERC20Payer.write.setERC20TokenPaymentConfig([mockToken.address, 0, 50], {
+        account: owner.account
+      });
+      const ownerBalance = await mockToken.read.balanceOf([owner.account.address]);
+
+      await betrERC20Payer.write.payWithERC20([
+        mockToken.address,
+        mockDestination.address,
+        data,
+        parseEther("0.1"),
+        parseEther("0.1005")
+      ], {
+        account: user.account
+      });
+
+      expect(await mockToken.read.balanceOf([owner.account.address])).to.equal(ownerBalance + parseEther("0.1005"));
+    });
+
+    it("Should apply the per-token slippage tolerance", async function () {
+      const { betrERC20Payer, mockToken, mockDestination, data, owner, user } = await loadFixture(deployPaymentFixture);
+
+      // A 1.5% difference is outside the default 1% tolerance
+      await expect(betrERC20Payer.write.payWithERC20([
+        mockToken.address,
+        mockDestination.address,
+        data,
+        parseEther("0.1"),
+        parseEther("0.1015")
+      ], {
+        account: user.account
+      })).to.be.rejectedWith("SlippageError");
+
+      await betrERC20Payer.write.setERC20TokenPaymentConfig([mockToken.address, 200, 0], {
+        account: owner.account
+      });
+      await betrERC20Payer.write.payWithERC20([
+        mockToken.address,
+        mockDestination.address,
+        data,
+        parseEther("0.1"),
+        parseEther("0.1015")
+      ], {
+        account: user.account
+      });
+      expect(await mockDestination.read.getCalls()).to.equal(1n);
+
+      // A 0.5% difference is outside a 0.25% tolerance
+      await betrERC20Payer.write.setERC20TokenPaymentConfig([mockToken.address, 25, 0], {
+        account: owner.account
+      });
+      await expect(betrERC20Payer.write.payWithERC20([
+        mockToken.address,
+        mockDestination.address,
+        data,
+        parseEther("0.1"),
+        parseEther("0.1005")
+      ], {
+        account: user.account
+      })).to.be.rejectedWith("SlippageError");
+    });
+  });
+
+  describe("Payment Receipts", function () {
+    it("Should emit a payment receipt", async function () {
+      const { betrERC20Payer, mockToken, mockDestination, data, owner, user } = await loadFixture(deployPaymentFixture);
+
+      await betrERC20Payer.write.setERC20TokenPaymentConfig([mockToken.address, 0, 50], {
+        account: owner.account
+      });
+
+      expect(await betrERC20Payer.write.payWithERC20([
+        mockToken.address,
+        mockDestination.address,
+        data,
+        parseEther("0.1"),
+        parseEther("0.1005")
+      ], {
+        account: user.account
+      })).to.emit(betrERC20Payer, "PaidWithERC20").withArgs(
+        user.account.address,
+        mockToken.address,
+        mockDestination.address,
+        data.slice(0, 10),
+        parseEther("0.1"),
+        parseEther("0.1005"),
+        parseEther("0.1005"),
+        0n
+      );
+
+      const [paid] = await betrERC20Payer.getEvents.PaidWithERC20();
+      expect(paid.args.tokenAmount).to.equal(parseEther("0.1005"));
+      expect(paid.args.expectedPrice).to.equal(parseEther("0.1005"));
+      expect(paid.args.maxTokenIn).to.equal(0n);
+    });
+
+    it("Should track the tokens collected and the ETH spent per token", async function () {
+      const { betrERC20Payer, mockToken, mockWETH, mockDestination, data, owner, user } = await loadFixture(deployPaymentFixture);
+
+      await betrERC20Payer.write.setERC20TokenPaymentConfig([mockToken.address, 0, 50], {
+        account: owner.account
+      });
+      expect(await betrERC20Payer.read.totalTokensCollected([mockToken.address])).to.equal(0n);
+      expect(await betrERC20Payer.read.totalETHSpent([mockToken.address])).to.equal(0n);
+
+      for (const amount of [parseEther("0.1"), parseEther("0.2")]) {
+        await betrERC20Payer.write.payWithERC20([
+          mockToken.address,
+          mockDestination.address,
+          data,
+          amount,
+          amount * 10050n / 10000n
+        ], {
+          account: user.account
+        });
+      }
+
+      expect(await betrERC20Payer.read.totalTokensCollected([mockToken.address])).to.equal(parseEther("0.3015"));
+      expect(await betrERC20Payer.read.totalETHSpent([mockToken.address])).to.equal(parseEther("0.3"));
+      expect(await betrERC20Payer.read.totalTokensCollected([mockWETH.address])).to.equal(0n);
+      expect(await betrERC20Payer.read.totalETHSpent([mockWETH.address])).to.equal(0n);
+    });
+
+    it("Should not record failed payments", async function () {
+      const { betrERC20Payer, mockToken, mockDestination, owner, user } = await loadFixture(deployPaymentFixture);
+
+      const data = encodeFunctionData({
+        abi: mockDestination.abi,
+        functionName: "testRevert",
+        args: []
+      });
+      await betrERC20Payer.write.setAllowedSelector([mockDestination.address, toFunctionSelector("testRevert()"), true, 0n], {
+        account: owner.account
+      });
+      await expect(betrERC20Payer.write.payWithERC20([
+        mockToken.address,
+        mockDestination.address,
+        data,
+        parseEther("0.1"),
+        parseEther("0.1")
+      ], {
+        account: user.account
+      })).to.be.rejectedWith("SubcallFailed");
+
+      expect(await betrERC20Payer.read.totalTokensCollected([mockToken.address])).to.equal(0n);
+      expect(await betrERC20Payer.read.totalETHSpent([mockToken.address])).to.equal(0n);
+    });
+  });
+
+  describe("Spend Limits", function () {
+    async function deploySpendLimitsFixture() {
+      return deployPaymentFixture({ float: parseEther("2"), payers: ["user", "otherAccount"] });
+    }
+
+    it("Should not limit payments by default", async function () {
+      const { betrERC20Payer, user } = await loadFixture(deploySpendLimitsFixture);
+
+      expect(await betrERC20Payer.read.spendLimits()).to.deep.equal([0, 0n, 0n, 0n, 0n]);
+      expect(await betrERC20Payer.read.getRemainingAllowance([user.account.address])).to.equal(maxUint256);
+    });
+
+    it("Should set the spend limits", async function () {
+      const { betrERC20Payer, owner, user } = await loadFixture(deploySpendLimitsFixture);
+
+      expect(await betrERC20Payer.write.setSpendLimits([3600, parseEther("0.5"), parseEther("1"), parseEther("0.01"), parseEther("0.4")], {
+        account: owner.account
+      })).to.emit(betrERC20Payer, "SpendLimitsSet").withArgs(3600, parseEther("0.5"), parseEther("1"), parseEther("0.01"), parseEther("0.4"));
+
+      expect(await betrERC20Payer.read.spendLimits()).to.deep.equal([3600, parseEther("0.5"), parseEther("1"), parseEther("0.01"), parseEther("0.4")]);
+      expect(await betrERC20Payer.read.getRemainingAllowance([user.account.address])).to.equal(parseEther("0.5"));
+    });
+
+    it("Should revert when setting invalid spend limits", async function () {
+      const { betrERC20Payer, owner } = await loadFixture(deploySpendLimitsFixture);
+
+      await expect(betrERC20Payer.write.setSpendLimits([0, parseEther("0.5"), 0n, 0n, 0n], {
+        account: owner.account
+      })).to.be.rejectedWith("InvalidInput");
+      await expect(betrERC20Payer.write.setSpendLimits([0, 0n, parseEther("1"), 0n, 0n], {
+        account: owner.account
+      })).to.be.rejectedWith("InvalidInput");
+      await expect(betrERC20Payer.write.setSpendLimits([3600, 0n, 0n, parseEther("0.5"), parseEther("0.4")], {
+        account: owner.account
+      })).to.be.rejectedWith("InvalidInput");
+    });
+
+    it("Should revert if non-owner sets the spend limits", async function () {
+      const { betrERC20Payer, otherAccount } = await loadFixture(deploySpendLimitsFixture);
+
+      await expect(betrERC20Payer.write.setSpendLimits([3600, parseEther("0.5"), 0n, 0n, 0n], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("NotOwner");
+    });
+
+    it("Should revert if the payment amount is out of range", async function () {
+      const { betrERC20Payer, mockToken, mockDestination, data, owner, user } = await loadFixture(deploySpendLimitsFixture);
+
+      await betrERC20Payer.write.setSpendLimits([0, 0n, 0n, parseEther("0.01"), parseEther("0.4")], {
+        account: owner.account
+      });
+      for (const amount of [parseEther("0.009"), parseEther("0.41")]) {
+        await expect(betrERC20Payer.write.payWithERC20([
+          mockToken.address,
+          mockDestination.address,
+          data,
+          amount,
+          amount
+        ], {
+          account: user.account
+        })).to.be.rejectedWith("PaymentAmountOutOfRange");
+      }
+
+      await betrERC20Payer.write.payWithERC20([
+        mockToken.address,
+        mockDestination.address,
+        data,
+        parseEther("0.4"),
+        parseEther("0.4")
+      ], {
+        account: user.account
+      });
+      expect(await mockDestination.read.getCalls()).to.equal(1n);
+    });
+
+    it("Should cap the ETH spent per address per window", async function () {
+      const { betrERC20Payer, mockToken, mockDestination, data, owner, otherAccount, user } = await loadFixture(deploySpendLimitsFixture);
+
+      await betrERC20Payer.write.setSpendLimits([3600, parseEther("0.5"), 0n, 0n, 0n], {
+        account: owner.account
+      });
+      await betrERC20Payer.write.payWithERC20([
+        mockToken.address,
+        mockDestination.address,
+        data,
+        parseEther("0.3"),
+        parseEther("0.3")
+      ], {
+        account: user.account
+      });
+
+      expect(await betrERC20Payer.read.getRemainingAllowance([user.account.address])).to.equal(parseEther("0.2"));
+      expect(await betrERC20Payer.read.getRemainingAllowance([otherAccount.account.address])).to.equal(parseEther("0.5"));
+      await expect(betrERC20Payer.write.payWithERC20([
+        mockToken.address,
+        mockDestination.address,
+        data,
+        parseEther("0.3"),
+        parseEther("0.3")
+      ], {
+        account: user.account
+      })).to.be.rejectedWith("UserSpendCapExceeded");
+
+      // Other addresses keep their own allowance
+      await betrERC20Payer.write.payWithERC20([
+        mockToken.address,
+        mockDestination.address,
+        data,
+        parseEther("0.3"),
+        parseEther("0.3")
+      ], {
+        account: otherAccount.account
+      });
+      expect(await betrERC20Payer.read.getRemainingAllowance([otherAccount.account.address])).to.equal(parseEther("0.2"));
+    });
+
+    it("Should cap the ETH spent by all addresses per window", async function () {
+      const { betrERC20Payer, mockToken, mockDestination, data, owner, otherAccount, user } = await loadFixture(deploySpendLimitsFixture);
+
+      await betrERC20Payer.write.setSpendLimits([3600, parseEther("0.5"), parseEther("0.8"), 0n, 0n], {
+        account: owner.account
+      });
+      await betrERC20Payer.write.payWithERC20([
+        mockToken.address,
+        mockDestination.address,
+        data,
+        parseEther("0.5"),
+        parseEther("0.5")
+      ], {
+        account: user.account
+      });
+
+      expect(await betrERC20Payer.read.getRemainingAllowance([user.account.address])).to.equal(0n);
+      expect(await betrERC20Payer.read.getRemainingAllowance([otherAccount.account.address])).to.equal(parseEther("0.3"));
+      await expect(betrERC20Payer.write.payWithERC20([
+        mockToken.address,
+        mockDestination.address,
+        data,
+        parseEther("0.4"),
+        parseEther("0.4")
+      ], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("GlobalSpendCapExceeded");
+    });
+
+    it("Should restore the allowance once the window is over", async function () {
+      const { betrERC20Payer, mockToken, mockDestination, data, owner, user } = await loadFixture(deploySpendLimitsFixture);
+
+      await betrERC20Payer.write.setSpendLimits([3600, parseEther("0.5"), parseEther("0.8"), 0n, 0n], {
+        account: owner.account
+      });
+      await betrERC20Payer.write.payWithERC20([
+        mockToken.address,
+        mockDestination.address,
+        data,
+        parseEther("0.5"),
+        parseEther("0.5")
+      ], {
+        account: user.account
+      });
+      expect(await betrERC20Payer.read.getRemainingAllowance([user.account.address])).to.equal(0n);
+
+      await time.increase(3600);
+      expect(await betrERC20Payer.read.getRemainingAllowance([user.account.address])).to.equal(parseEther("0.5"));
+      await betrERC20Payer.write.payWithERC20([
+        mockToken.address,
+        mockDestination.address,
+        data,
+        parseEther("0.5"),
+        parseEther("0.5")
+      ], {
+        account: user.account
+      });
+      expect(await betrERC20Payer.read.getRemainingAllowance([user.account.address])).to.equal(0n);
+      expect(await betrERC20Payer.read.globalSpendWindow()).to.deep.equal([BigInt(await time.latest()), parseEther("0.5")]);
+    });
+
+    it("Should not allow a full cap on each side of a window boundary", async function () {
+      const { betrERC20Payer, mockToken, mockDestination, data, owner, user } = await loadFixture(deploySpendLimitsFixture);
+
+      await betrERC20Payer.write.setSpendLimits([3600, parseEther("0.5"), 0n, 0n, 0n], {
+        account: owner.account
+      });
+      const start = BigInt(await time.latest()) + 1n;
+      for (const [timestamp, amount] of [[start, parseEther("0.1")], [start + 3599n, parseEther("0.4")]]) {
+        await time.setNextBlockTimestamp(timestamp);
+        await betrERC20Payer.write.payWithERC20([
+          mockToken.address,
+          mockDestination.address,
+          data,
+          amount,
+          amount
+        ], {
+          account: user.account
+        });
+      }
+
+      // A fixed window starting with the first payment would reset here
+      await time.setNextBlockTimestamp(start + 3600n);
+      await expect(betrERC20Payer.write.payWithERC20([
+        mockToken.address,
+        mockDestination.address,
+        data,
+        parseEther("0.5"),
+        parseEther("0.5")
+      ], {
+        account: user.account
+      })).to.be.rejectedWith("UserSpendCapExceeded");
+
+      // The spent ETH is released linearly over the window
+      await time.increaseTo(start + 3599n + 1800n);
+      expect(await betrERC20Payer.read.getRemainingAllowance([user.account.address])).to.equal(parseEther("0.35"));
+    });
+
+    it("Should apply the limits to the payer of a relayed intent", async function () {
+      const { betrERC20Payer, mockToken, mockDestination, data, owner, otherAccount, user } = await loadFixture(deploySpendLimitsFixture);
+
+      await betrERC20Payer.write.setSpendLimits([3600, parseEther("0.5"), 0n, 0n, 0n], {
+        account: owner.account
+      });
+      const intent = {
+        payer: user.account.address,
+        token: mockToken.address,
+        destination: mockDestination.address,
+        dataHash: keccak256(data),
+        ethAmount: parseEther("0.3"),
+        maxTokenIn: parseEther("0.31"),
+        maxRelayerFee: 0n,
+        nonce: 0n,
+        deadline: BigInt(await time.latest()) + 3600n,
+      };
+      const signature = await user.signTypedData({
+        domain: {
+          name: "BETRERC20Payer",
+          version: "1",
+          chainId: await (await hre.viem.getPublicClient()).getChainId(),
+          verifyingContract: betrERC20Payer.address,
+        },
+        types: {
+          PaymentIntent: [
+            { name: "payer", type: "address" },
+            { name: "token", type: "address" },
+            { name: "destination", type: "address" },
+            { name: "dataHash", type: "bytes32" },
+            { name: "ethAmount", type: "uint256" },
+            { name: "maxTokenIn", type: "uint256" },
+            { name: "maxRelayerFee", type: "uint256" },
+            { name: "nonce", type: "uint256" },
+            { name: "deadline", type: "uint256" },
+          ],
+        },
+        primaryType: "PaymentIntent",
+        message: intent,
+      });
+      await betrERC20Payer.write.payWithIntent([intent, data, signature], {
+        account: otherAccount.account
+      });
+
+      expect(await betrERC20Payer.read.getRemainingAllowance([user.account.address])).to.equal(parseEther("0.2"));
+      expect(await betrERC20Payer.read.getRemainingAllowance([otherAccount.account.address])).to.equal(parseEther("0.5"));
+    });
+  });
+
+  describe("Pay with ERC20", function () {
+    it("Should pay with ERC20 tokens successfully", async function () {
+      const { betrERC20Payer, mockToken, mockPool, mockDestination, owner, user } = await loadFixture(deployBETRERC20PayerFixture);
+
+      // Setup: Set pool and whitelist destination
+      await betrERC20Payer.write.setERC20TokenPricePool([mockToken.address, mockPool.address], {
+        account: owner.account
+      });
+      await betrERC20Payer.write.setWhitelistedDestination([mockDestination.address, true], {
+        account: owner.account
+      });
+      await betrERC20Payer.write.setAllowedSelector([mockDestination.address, toFunctionSelector("testSuccess()"), true, 0n], {
+        account: owner.account
+      });
+
+      // Fund the contract with ETH
+      await owner.sendTransaction({
+        to: betrERC20Payer.address,
+        value: parseEther("1")
+      });
+
+      // Fund user with tokens
+      await mockToken.write.mint([user.account.address, parseEther("1000")], {
+        account: owner.account
+      });
+
+      // Approve tokens
+      await mockToken.write.approve([betrERC20Payer.address, parseEther("1000")], {
+        account: user.account
+      });
+
+      const amount = parseEther("0.1");
+      const expectedPrice = amount; // 1:1 ratio from mock pool
+
+      const data = encodeFunctionData({
+        abi: mockDestination.abi,
+        functionName: "testSuccess",
+        args: []
+      });
+
+      const result = await betrERC20Payer.write.payWithERC20([
+        mockToken.address,
+        mockDestination.address,
+        data,
+        amount,
+        expectedPrice
+      ], {
+        account: user.account
+      });
+
+      expect(result).to.not.be.undefined;
+    });
+
+    it("Should revert if token is zero address", async function () {
+      const { betrERC20Payer, mockDestination, user } = await loadFixture(deployBETRERC20PayerFixture);
+
+      const data = encodeFunctionData({
+        abi: mockDestination.abi,
+        functionName: "testSuccess",
+        args: []
+      });
+
+      await expect(betrERC20Payer.write.payWithERC20([
+        "0x0000000000000000000000000000000000000000",
+        mockDestination.address,
+        data,
+        parseEther("0.1"),
+        parseEther("1")
+      ], {
+        account: user.account
+      })).to.be.rejectedWith("InvalidInput");
+    });
+
+    it("Should revert if destination is zero address", async function () {
+      const { betrERC20Payer, mockToken, user } = await loadFixture(deployBETRERC20PayerFixture);
+
+      const data = encodeFunctionData({
+        abi: mockToken.abi,
+        functionName: "transfer",
+        args: [user.account.address, parseEther("1")]
+      });
+
+      await expect(betrERC20Payer.write.payWithERC20([
+        mockToken.address,
+        "0x0000000000000000000000000000000000000000",
+        data,
+        parseEther("0.1"),
+        parseEther("1")
+      ], {
+        account: user.account
+      })).to.be.rejectedWith("InvalidInput");
+    });
+
+    it("Should revert if data is empty", async function () {
+      const { betrERC20Payer, mockToken, mockDestination, user } = await loadFixture(deployBETRERC20PayerFixture);
+
+      await expect(betrERC20Payer.write.payWithERC20([
+        mockToken.address,
+        mockDestination.address,
+        "0x",
+        parseEther("0.1"),
+        parseEther("1")
+      ], {
+        account: user.account
+      })).to.be.rejectedWith("InvalidInput");
+    });
+
+    it("Should revert if amount is zero", async function () {
+      const { betrERC20Payer, mockToken, mockDestination, user } = await loadFixture(deployBETRERC20PayerFixture);
+
+      const data = encodeFunctionData({
+        abi: mockDestination.abi,
+        functionName: "testSuccess",
+        args: []
+      });
+
+      await expect(betrERC20Payer.write.payWithERC20([
+        mockToken.address,
+        mockDestination.address,
+        data,
+        0n,
+        parseEther("1")
+      ], {
+        account: user.account
+      })).to.be.rejectedWith("InvalidInput");
+    });
+
+    it("Should revert if destination is not whitelisted", async function () {
+      const { betrERC20Payer, mockToken, mockDestination, user } = await loadFixture(deployBETRERC20PayerFixture);
+
+      const data = encodeFunctionData({
+        abi: mockDestination.abi,
+        functionName: "testSuccess",
+        args: []
+      });
+
+      await expect(betrERC20Payer.write.payWithERC20([
+        mockToken.address,
+        mockDestination.address,
+        data,
+        parseEther("0.1"),
+        parseEther("1")
+      ], {
+        account: user.account
+      })).to.be.rejectedWith("NotWhitelistedDestination");
+    });
+
+    it("Should revert if contract doesn't have enough ETH", async function () {
+      const { betrERC20Payer, mockToken, mockPool, mockDestination, owner, user } = await loadFixture(deployBETRERC20PayerFixture);
+
+      // Setup: Set pool and whitelist destination
+      await betrERC20Payer.write.setERC20TokenPricePool([mockToken.address, mockPool.address], {
+        account: owner.account
+      });
+      await betrERC20Payer.write.setWhitelistedDestination([mockDestination.address, true], {
+        account: owner.account
+      });
+      await betrERC20Payer.write.setAllowedSelector([mockDestination.address, toFunctionSelector("testSuccess()"), true, 0n], {
+        account: owner.account
+      });
+
+      // Fund user with tokens
+      await mockToken.write.mint([user.account.address, parseEther("1000")], {
+        account: owner.account
+      });
+
+      // Approve tokens
+      await mockToken.write.approve([betrERC20Payer.address, parseEther("1000")], {
+        account: user.account
+      });
+
+      const data = encodeFunctionData({
+        abi: mockDestination.abi,
+        functionName: "testSuccess",
+        args: []
+      });
+
+      await expect(betrERC20Payer.write.payWithERC20([
+        mockToken.address,
+        mockDestination.address,
+        data,
+        parseEther("1"), // More than contract has
+        parseEther("1")
+      ], {
+        account: user.account
+      })).to.be.rejectedWith("NotEnoughValueInContract");
+    });
+
+    it("Should revert if no pool for token", async function () {
+      const { betrERC20Payer, mockToken, mockDestination, owner, user } = await loadFixture(deployBETRERC20PayerFixture);
+
+      // Only whitelist destination, don't set pool
+      await betrERC20Payer.write.setWhitelistedDestination([mockDestination.address, true], {
+        account: owner.account
+      });
+      await betrERC20Payer.write.setAllowedSelector([mockDestination.address, toFunctionSelector("testSuccess()"), true, 0n], {
+        account: owner.account
+      });
+
+      // Fund the contract with ETH
+      await owner.sendTransaction({
+        to: betrERC20Payer.address,
+        value: parseEther("1")
+      });
+
+      const data = encodeFunctionData({
+        abi: mockDestination.abi,
+        functionName: "testSuccess",
+        args: []
+      });
+
+      await expect(betrERC20Payer.write.payWithERC20([
+        mockToken.address,
+        mockDestination.address,
+        data,
+        parseEther("0.1"),
+        parseEther("1")
+      ], {
+        account: user.account
+      })).to.be.rejectedWith("NoPoolForToken");
+    });
+
+    it("Should revert if subcall reverts", async function () {
+      const { betrERC20Payer, mockToken, mockPool, mockDestination, owner, user } = await loadFixture(deployBETRERC20PayerFixture);
+
+      // Setup: Set pool and whitelist destination
+      await betrERC20Payer.write.setERC20TokenPricePool([mockToken.address, mockPool.address], {
+        account: owner.account
+      });
+      await betrERC20Payer.write.setWhitelistedDestination([mockDestination.address, true], {
+        account: owner.account
+      });
+      await betrERC20Payer.write.setAllowedSelector([mockDestination.address, toFunctionSelector("testSuccess()"), true, 0n], {
+        account: owner.account
+      });
+
+      // Fund the contract with ETH
+      await owner.sendTransaction({
+        to: betrERC20Payer.address,
+        value: parseEther("1")
+      });
+
+      // Fund user with tokens
+      await mockToken.write.mint([user.account.address, parseEther("1000")], {
+        account: owner.account
+      });
+
+      // Approve tokens
+      await mockToken.write.approve([betrERC20Payer.address, parseEther("1000")], {
+        account: user.account
+      });
+
+      const data = encodeFunctionData({
+        abi: mockDestination.abi,
+        functionName: "testRevert",
+        args: []
+      });
+      await betrERC20Payer.write.setAllowedSelector([mockDestination.address, toFunctionSelector("testRevert()"), true, 0n], {
+        account: owner.account
+      });
+
+      await expect(betrERC20Payer.write.payWithERC20([
+        mockToken.address,
+        mockDestination.address,
+        data,
+        parseEther("0.1"),
+        parseEther("0.1")
+      ], {
+        account: user.account
+      })).to.be.rejectedWith("SubcallFailed");
+    });
+
+    it("Should revert if the token transfer returns false", async function () {
+      const { betrERC20Payer, mockToken, mockDestination, user, data } = await loadFixture(deployPaymentFixture);
+
+      await mockToken.write.setShouldReturnFalse([true]);
+
+      await expect(betrERC20Payer.write.payWithERC20([
+        mockToken.address,
+        mockDestination.address,
+        data,
+        parseEther("0.1"),
+        parseEther("0.1")
+      ], {
+        account: user.account
+      })).to.be.rejectedWith("SafeERC20FailedOperation");
+      expect(await mockDestination.read.getCalls()).to.equal(0n);
+    });
+  });
+
+  describe("Pay with ERC20 Max In", function () {
+    it("Should quote the tokens to pay, fee included", async function () {
+      const { betrERC20Payer, mockToken, owner, user, publicClient } = await loadFixture(deployPaymentFixture);
+
+      await betrERC20Payer.write.setERC20TokenPaymentConfig([mockToken.address, 0, 50], {
+        account: owner.account
+      });
+      const { result: [tokenAmount, quoteId] } = await betrERC20Payer.simulate.quote([mockToken.address, parseEther("0.1")], {
+        account: user.account.address
+      });
+
+      expect(tokenAmount).to.equal(parseEther("0.1005"));
+      expect(tokenAmount).to.equal(await betrERC20Payer.read.getPrice([mockToken.address, parseEther("0.1")]));
+      expect(quoteId).to.equal(keccak256(encodeAbiParameters(
+        parseAbiParameters("address, address, uint256"),
+        [getAddress(user.account.address), getAddress(mockToken.address), parseEther("0.1")]
+      )));
+
+      expect(await betrERC20Payer.write.quote([mockToken.address, parseEther("0.1")], {
+        account: user.account
+      })).to.emit(betrERC20Payer, "QuoteIssued").withArgs(quoteId, user.account.address, mockToken.address, parseEther("0.1"), tokenAmount);
+
+      const blockNumber = await publicClient.getBlockNumber();
+      expect(await betrERC20Payer.read.quoteExpiry([quoteId])).to.equal(blockNumber + await betrERC20Payer.read.QUOTE_VALIDITY_BLOCKS());
+    });
+
+    it("Should revert when quoting invalid inputs", async function () {
+      const { betrERC20Payer, mockToken, mockWETH } = await loadFixture(deployPaymentFixture);
+
+      await expect(betrERC20Payer.write.quote(["0x0000000000000000000000000000000000000000", parseEther("0.1")])).to.be.rejectedWith("InvalidInput");
+      await expect(betrERC20Payer.write.quote([mockToken.address, 0n])).to.be.rejectedWith("InvalidInput");
+      await expect(betrERC20Payer.write.quote([mockWETH.address, parseEther("0.1")])).to.be.rejectedWith("NoPoolForToken");
+    });
+
+    it("Should pull only the tokens needed with a quoted maximum", async function () {
+      const { betrERC20Payer, mockToken, mockDestination, data, owner, user } = await loadFixture(deployPaymentFixture);
+
+      const ownerBalance = await mockToken.read.balanceOf([owner.account.address]);
+      const tokenAmount = await betrERC20Payer.read.getPrice([mockToken.address, parseEther("0.1")]);
+      await betrERC20Payer.write.quote([mockToken.address, parseEther("0.1")], {
+        account: user.account
+      });
+
+      expect(await betrERC20Payer.write.payWithERC20MaxIn([
+        mockToken.address,
+        mockDestination.address,
+        data,
+        parseEther("0.1"),
+        tokenAmount
+      ], {
+        account: user.account
+      })).to.emit(betrERC20Payer, "PaidWithERC20").withArgs(
+        user.account.address,
+        mockToken.address,
+        mockDestination.address,
+        data.slice(0, 10),
+        parseEther("0.1"),
+        tokenAmount,
+        0n,
+        tokenAmount
+      );
+
+      const [paid] = await betrERC20Payer.getEvents.PaidWithERC20();
+      expect(paid.args.expectedPrice).to.equal(0n);
+      expect(paid.args.maxTokenIn).to.equal(tokenAmount);
+
+      expect(await mockToken.read.balanceOf([user.account.address])).to.equal(parseEther("1000") - tokenAmount);
+      expect(await mockToken.read.balanceOf([owner.account.address])).to.equal(ownerBalance + tokenAmount);
+      expect(await betrERC20Payer.read.totalTokensCollected([mockToken.address])).to.equal(tokenAmount);
+    });
+
+    it("Should accept any price better than the maximum", async function () {
+      const { betrERC20Payer, mockToken, mockDestination, data, user } = await loadFixture(deployPaymentFixture);
+
+      // A maximum 10% above the price would fail the payWithERC20 slippage band
+      await expect(betrERC20Payer.write.payWithERC20([
+        mockToken.address,
+        mockDestination.address,
+        data,
+        parseEther("0.1"),
+        parseEther("0.11")
+      ], {
+        account: user.account
+      })).to.be.rejectedWith("SlippageError");
+
+      await betrERC20Payer.write.quote([mockToken.address, parseEther("0.1")], {
+        account: user.account
+      });
+      await betrERC20Payer.write.payWithERC20MaxIn([
+        mockToken.address,
+        mockDestination.address,
+        data,
+        parseEther("0.1"),
+        parseEther("0.11")
+      ], {
+        account: user.account
+      });
+
+      expect(await mockToken.read.balanceOf([user.account.address])).to.equal(parseEther("999.9"));
+    });
+
+    it("Should revert if the price moved above the quote", async function () {
+      const { betrERC20Payer, mockToken, mockDestination, data, owner, user } = await loadFixture(deployPaymentFixture);
+
+      const tokenAmount = await betrERC20Payer.read.getPrice([mockToken.address, parseEther("0.1")]);
+      await betrERC20Payer.write.quote([mockToken.address, parseEther("0.1")], {
+        account: user.account
+      });
+      await betrERC20Payer.write.setERC20TokenPaymentConfig([mockToken.address, 0, 50], {
+        account: owner.account
+      });
+
+      await expect(betrERC20Payer.write.payWithERC20MaxIn([
+        mockToken.address,
+        mockDestination.address,
+        data,
+        parseEther("0.1"),
+        tokenAmount
+      ], {
+        account: user.account
+      })).to.be.rejectedWith("MaxTokenInExceeded");
+    });
+
+    it("Should revert once the quote expires", async function () {
+      const { betrERC20Payer, mockToken, mockDestination, data, user } = await loadFixture(deployPaymentFixture);
+
+      const tokenAmount = await betrERC20Payer.read.getPrice([mockToken.address, parseEther("0.1")]);
+      await betrERC20Payer.write.quote([mockToken.address, parseEther("0.1")], {
+        account: user.account
+      });
+      await mine(await betrERC20Payer.read.QUOTE_VALIDITY_BLOCKS());
+
+      await expect(betrERC20Payer.write.payWithERC20MaxIn([
+        mockToken.address,
+        mockDestination.address,
+        data,
+        parseEther("0.1"),
+        tokenAmount
+      ], {
+        account: user.account
+      })).to.be.rejectedWith("QuoteExpired");
+
+      // The last block of the quote is still valid
+      await betrERC20Payer.write.quote([mockToken.address, parseEther("0.1")], {
+        account: user.account
+      });
+      await mine(await betrERC20Payer.read.QUOTE_VALIDITY_BLOCKS() - 1n);
+
+      await betrERC20Payer.write.payWithERC20MaxIn([
+        mockToken.address,
+        mockDestination.address,
+        data,
+        parseEther("0.1"),
+        tokenAmount
+      ], {
+        account: user.account
+      });
+      expect(await mockDestination.read.getCalls()).to.equal(1n);
+    });
+
+    it("Should only pay once against a quote issued to the payer for the amount", async function () {
+      const { betrERC20Payer, mockToken, mockDestination, data, user, otherAccount } = await loadFixture(deployPaymentFixture);
+
+      const pay = (amount: bigint, account: typeof user.account) => betrERC20Payer.write.payWithERC20MaxIn([
+        mockToken.address,
+        mockDestination.address,
+        data,
+        amount,
+        amount
+      ], {
+        account
+      });
+
+      await expect(pay(parseEther("0.1"), user.account)).to.be.rejectedWith("QuoteExpired");
+
+      await betrERC20Payer.write.quote([mockToken.address, parseEther("0.1")], {
+        account: user.account
+      });
+      await expect(pay(parseEther("0.2"), user.account)).to.be.rejectedWith("QuoteExpired");
+      await expect(pay(parseEther("0.1"), otherAccount.account)).to.be.rejectedWith("QuoteExpired");
+
+      await pay(parseEther("0.1"), user.account);
+      await expect(pay(parseEther("0.1"), user.account)).to.be.rejectedWith("QuoteExpired");
+      expect(await mockDestination.read.getCalls()).to.equal(1n);
+    });
+
+    it("Should revert with invalid inputs", async function () {
+      const { betrERC20Payer, mockToken, mockDestination, data, user } = await loadFixture(deployPaymentFixture);
+
+      await betrERC20Payer.write.quote([mockToken.address, parseEther("0.1")], {
+        account: user.account
+      });
+      await betrERC20Payer.write.quote([mockToken.address, parseEther("2")], {
+        account: user.account
+      });
+      await expect(betrERC20Payer.write.payWithERC20MaxIn([
+        mockToken.address,
+        mockDestination.address,
+        data,
+        parseEther("0.1"),
+        0n
+      ], {
+        account: user.account
+      })).to.be.rejectedWith("InvalidInput");
+      await expect(betrERC20Payer.write.payWithERC20MaxIn([
+        mockToken.address,
+        mockDestination.address,
+        "0x",
+        parseEther("0.1"),
+        parseEther("0.1")
+      ], {
+        account: user.account
+      })).to.be.rejectedWith("InvalidInput");
+      await expect(betrERC20Payer.write.payWithERC20MaxIn([
+        mockToken.address,
+        user.account.address,
+        data,
+        parseEther("0.1"),
+        parseEther("0.1")
+      ], {
+        account: user.account
+      })).to.be.rejectedWith("NotWhitelistedDestination");
+      await expect(betrERC20Payer.write.payWithERC20MaxIn([
+        mockToken.address,
+        mockDestination.address,
+        data,
+        parseEther("2"),
+        parseEther("2")
+      ], {
+        account: user.account
+      })).to.be.rejectedWith("NotEnoughValueInContract");
+    });
+  });
+
+  describe("Pay with ERC20 Permit", function () {
+    it("Should pay with ERC20 permit using a real signature", async function () {
+      const { betrERC20Payer, mockToken, mockPool, mockDestination, owner, user } = await loadFixture(deployBETRERC20PayerFixture);
+
+      // Setup: Set pool and whitelist destination
+      await betrERC20Payer.write.setERC20TokenPricePool([mockToken.address, mockPool.address], {
+        account: owner.account
+      });
+      await betrERC20Payer.write.setWhitelistedDestination([mockDestination.address, true], {
+        account: owner.account
+      });
+      await betrERC20Payer.write.setAllowedSelector([mockDestination.address, toFunctionSelector("testSuccess()"), true, 0n], {
+        account: owner.account
+      });
+
+      // Fund the contract with ETH
+      await owner.sendTransaction({
+        to: betrERC20Payer.address,
+        value: parseEther("1")
+      });
+
+      // Fund user with tokens
+      await mockToken.write.mint([user.account.address, parseEther("1000")], {
+        account: owner.account
+      });
+
+      const amount = parseEther("0.1");
+      const expectedPrice = amount; // 1:1 ratio from mock pool
+      const spendableAmount = parseEther("1000");
+      const deadline = BigInt(Math.floor(Date.now() / 1000) + 3600); // 1 hour from now
+
+      // Get the current nonce
+      const nonce = await mockToken.read.nonces([user.account.address]);
+      let chainId: number;
+      if (hre.network.config.chainId) {
+        chainId = hre.network.config.chainId;
+      } else {
+        chainId = await (await hre.viem.getPublicClient()).getChainId();
+      }
+      const domain = {
+        name: await mockToken.read.name(),
+        version: "1",
+        chainId,
+        verifyingContract: mockToken.address,
+      };
+      const types = {
+        Permit: [
+          { name: "owner", type: "address" },
+          { name: "spender", type: "address" },
+          { name: "value", type: "uint256" },
+          { name: "nonce", type: "uint256" },
+          { name: "deadline", type: "uint256" },
+        ],
+      };
+      const values = {
+        owner: user.account.address,
+        spender: betrERC20Payer.address,
+        value: spendableAmount,
+        nonce,
+        deadline,
+      };
+      // Sign the permit
+      const signature = await user.signTypedData({ domain, types, primaryType: "Permit", message: values });
+      const { v, r, s } = Signature.from(signature);
+
+      const data = encodeFunctionData({
+        abi: mockDestination.abi,
+        functionName: "testSuccess",
+        args: []
+      });
+
+      // Call payWithERC20Permit
+      const result = await betrERC20Payer.write.payWithERC20Permit([
+        mockToken.address,
+        mockDestination.address,
+        data,
+        amount,
+        expectedPrice,
+        spendableAmount,
+        deadline,
+        v,
+        r as `0x${string}`,
+        s as `0x${string}`
+      ], {
+        account: user.account
+      });
+
+      expect(result).to.not.be.undefined;
+      // Check that the allowance is set to 0 (spent)
+      const allowance = await mockToken.read.allowance([user.account.address, betrERC20Payer.address]);
+      expect(allowance).to.equal(spendableAmount - expectedPrice);
+      expect(await betrERC20Payer.read.totalTokensCollected([mockToken.address])).to.equal(expectedPrice);
+      expect(await betrERC20Payer.read.totalETHSpent([mockToken.address])).to.equal(amount);
+    });
+
+    it("Should revert if deadline is in the past", async function () {
+      const { betrERC20Payer, mockToken, mockDestination, user } = await loadFixture(deployBETRERC20PayerFixture);
+
+      const data = encodeFunctionData({
+        abi: mockDestination.abi,
+        functionName: "testSuccess",
+        args: []
+      });
+
+      const pastDeadline = BigInt(Math.floor(Date.now() / 1000) - 3600); // 1 hour ago
+
+      await expect(betrERC20Payer.write.payWithERC20Permit([
+        mockToken.address,
+        mockDestination.address,
+        data,
+        parseEther("0.1"),
+        parseEther("1"),
+        parseEther("1000"),
+        pastDeadline,
+        27,
+        "0x1234567890123456789012345678901234567890123456789012345678901234",
+        "0x1234567890123456789012345678901234567890123456789012345678901234"
+      ], {
+        account: user.account
+      })).to.be.rejectedWith("InvalidInput");
+    });
+  });
+
+  describe("Pay with ERC20 Permit2", function () {
+    async function deployPermit2Fixture() {
+      // A one-time approval of Permit2 replaces the per-spender approvals
+      const fixture = await deployPaymentFixture({ spender: "permit2" });
+      const { betrERC20Payer, publicClient } = fixture;
+
+      // Permit2 lives at the same address on every chain
+      const permit2Address = await betrERC20Payer.read.PERMIT2();
+      const mockPermit2 = await hre.viem.deployContract("MockPermit2");
+      await setCode(permit2Address, (await publicClient.getCode({ address: mockPermit2.address }))!);
+      const permit2 = await hre.viem.getContractAt("MockPermit2", permit2Address);
+
+      return { ...fixture, permit2 };
+    }
+
+    async function signPermit2(
+      permit2: { address: `0x${string}` },
+      signer: Awaited<ReturnType<typeof hre.viem.getWalletClients>>[number],
+      spender: `0x${string}`,
+      permit: { permitted: { token: `0x${string}`; amount: bigint }; nonce: bigint; deadline: bigint },
+      witness: { destination: `0x${string}`; dataHash: `0x${string}`; ethAmount: bigint }
+    ) {
+      const chainId = await (await hre.viem.getPublicClient()).getChainId();
+      return signer.signTypedData({
+        domain: {
+          name: "Permit2",
+          chainId,
+          verifyingContract: permit2.address,
+        },
+        types: {
+          PermitWitnessTransferFrom: [
+            { name: "permitted", type: "TokenPermissions" },
+            { name: "spender", type: "address" },
+            { name: "nonce", type: "uint256" },
+            { name: "deadline", type: "uint256" },
+            { name: "witness", type: "PaymentWitness" },
+          ],
+          TokenPermissions: [
+            { name: "token", type: "address" },
+            { name: "amount", type: "uint256" },
+          ],
+          PaymentWitness: [
+            { name: "destination", type: "address" },
+            { name: "dataHash", type: "bytes32" },
+            { name: "ethAmount", type: "uint256" },
+          ],
+        },
+        primaryType: "PermitWitnessTransferFrom",
+        message: { ...permit, spender, witness },
+      });
+    }
+
+    it("Should pay with a Permit2 signature transfer", async function () {
+      const { betrERC20Payer, permit2, mockToken, mockDestination, data, owner, otherAccount, user } = await loadFixture(deployPermit2Fixture);
+
+      await betrERC20Payer.write.setERC20TokenPaymentConfig([mockToken.address, 0, 50], {
+        account: owner.account
+      });
+      await betrERC20Payer.write.setFeeRecipient([otherAccount.account.address], {
+        account: owner.account
+      });
+      const ownerBalance = await mockToken.read.balanceOf([owner.account.address]);
+
+      const amount = parseEther("0.1");
+      const permit = {
+        permitted: { token: mockToken.address, amount: parseEther("0.2") },
+        nonce: 0n,
+        deadline: BigInt(await time.latest()) + 3600n,
+      };
+      const signature = await signPermit2(permit2, user, betrERC20Payer.address, permit, {
+        destination: mockDestination.address,
+        dataHash: keccak256(data),
+        ethAmount: amount,
+      });
+
+      expect(await betrERC20Payer.write.payWithERC20Permit2([
+        mockDestination.address,
+        data,
+        amount,
+        parseEther("0.1005"),
+        permit,
+        signature
+      ], {
+        account: user.account
+      })).to.emit(betrERC20Payer, "PaidWithERC20");
+
+      // Only the required tokens are pulled, not the permitted amount
+      expect(await mockToken.read.balanceOf([user.account.address])).to.equal(parseEther("1000") - parseEther("0.1005"));
+      expect(await mockToken.read.balanceOf([owner.account.address])).to.equal(ownerBalance + parseEther("0.1"));
+      expect(await mockToken.read.balanceOf([otherAccount.account.address])).to.equal(parseEther("0.0005"));
+      expect(await mockToken.read.balanceOf([betrERC20Payer.address])).to.equal(0n);
+      expect(await betrERC20Payer.read.totalTokensCollected([mockToken.address])).to.equal(parseEther("0.1005"));
+      expect(await mockDestination.read.getCalls()).to.equal(1n);
+    });
+
+    it("Should revert if the witness does not match the payment", async function () {
+      const { betrERC20Payer, permit2, mockToken, mockDestination, data, user } = await loadFixture(deployPermit2Fixture);
+
+      const permit = {
+        permitted: { token: mockToken.address, amount: parseEther("0.2") },
+        nonce: 0n,
+        deadline: BigInt(await time.latest()) + 3600n,
+      };
+      const signature = await signPermit2(permit2, user, betrERC20Payer.address, permit, {
+        destination: mockDestination.address,
+        dataHash: keccak256(data),
+        ethAmount: parseEther("0.1"),
+      });
+
+      await expect(betrERC20Payer.write.payWithERC20Permit2([
+        mockDestination.address,
+        data,
+        parseEther("0.2"),
+        parseEther("0.2"),
+        permit,
+        signature
+      ], {
+        account: user.account
+      })).to.be.rejectedWith("InvalidSigner");
+    });
+
+    it("Should not replay a Permit2 signature", async function () {
+      const { betrERC20Payer, permit2, mockToken, mockDestination, data, user } = await loadFixture(deployPermit2Fixture);
+
+      const permit = {
+        permitted: { token: mockToken.address, amount: parseEther("0.2") },
+        nonce: 7n,
+        deadline: BigInt(await time.latest()) + 3600n,
+      };
+      const signature = await signPermit2(permit2, user, betrERC20Payer.address, permit, {
+        destination: mockDestination.address,
+        dataHash: keccak256(data),
+        ethAmount: parseEther("0.1"),
+      });
+      const args = [mockDestination.address, data, parseEther("0.1"), parseEther("0.1"), permit, signature] as const;
+
+      await betrERC20Payer.write.payWithERC20Permit2([...args], {
+        account: user.account
+      });
+      await expect(betrERC20Payer.write.payWithERC20Permit2([...args], {
+        account: user.account
+      })).to.be.rejectedWith("InvalidNonce");
+    });
+
+    it("Should revert if the required tokens exceed the permitted amount", async function () {
+      const { betrERC20Payer, permit2, mockToken, mockDestination, data, user } = await loadFixture(deployPermit2Fixture);
+
+      const permit = {
+        permitted: { token: mockToken.address, amount: parseEther("0.05") },
+        nonce: 0n,
+        deadline: BigInt(await time.latest()) + 3600n,
+      };
+      const signature = await signPermit2(permit2, user, betrERC20Payer.address, permit, {
+        destination: mockDestination.address,
+        dataHash: keccak256(data),
+        ethAmount: parseEther("0.1"),
+      });
+
+      await expect(betrERC20Payer.write.payWithERC20Permit2([
+        mockDestination.address,
+        data,
+        parseEther("0.1"),
+        parseEther("0.1"),
+        permit,
+        signature
+      ], {
+        account: user.account
+      })).to.be.rejectedWith("InvalidAmount");
+    });
+
+    it("Should revert if the signature is empty", async function () {
+      const { betrERC20Payer, mockToken, mockDestination, data, user } = await loadFixture(deployPermit2Fixture);
+
+      await expect(betrERC20Payer.write.payWithERC20Permit2([
+        mockDestination.address,
+        data,
+        parseEther("0.1"),
+        parseEther("0.1"),
+        { permitted: { token: mockToken.address, amount: parseEther("0.2") }, nonce: 0n, deadline: 0n },
+        "0x"
+      ], {
+        account: user.account
+      })).to.be.rejectedWith("InvalidInput");
+    });
+  });
+
+  describe("Pay with Authorization", function () {
+    async function deployAuthorizationFixture() {
+      // Payments are authorized on the EIP-3009 token instead of the mock token
+      const fixture = await deployPaymentFixture({ payers: [] });
+      const { betrERC20Payer, mockWETH, owner, user } = fixture;
+
+      const mockUSDC = await hre.viem.deployContract("MockERC3009", ["USD Coin", "USDC", 18]);
+      const mockUSDCPool = await hre.viem.deployContract("MockUniswapV3Pool", [
+        mockUSDC.address,
+        mockWETH.address,
+        79228162514264337593543950336n // 2^96 for 1:1 price
+      ]);
+
+      await betrERC20Payer.write.setERC20TokenPricePool([mockUSDC.address, mockUSDCPool.address], {
+        account: owner.account
+      });
+      await mockUSDC.write.mint([user.account.address, parseEther("1000")], {
+        account: owner.account
+      });
+
+      return { ...fixture, mockUSDC };
+    }
+
+    async function signAuthorization(
+      token: { address: `0x${string}`; read: { name: () => Promise<string> } },
+      signer: Awaited<ReturnType<typeof hre.viem.getWalletClients>>[number],
+      to: `0x${string}`,
+      value: bigint,
+      nonce: `0x${string}`
+    ) {
+      const chainId = await (await hre.viem.getPublicClient()).getChainId();
+      const authorization = {
+        value,
+        validAfter: 0n,
+        validBefore: BigInt(await time.latest()) + 3600n,
+        nonce,
+      };
+      const signature = await signer.signTypedData({
+        domain: {
+          name: await token.read.name(),
+          version: "1",
+          chainId,
+          verifyingContract: token.address,
+        },
+        types: {
+          ReceiveWithAuthorization: [
+            { name: "from", type: "address" },
+            { name: "to", type: "address" },
+            { name: "value", type: "uint256" },
+            { name: "validAfter", type: "uint256" },
+            { name: "validBefore", type: "uint256" },
+            { name: "nonce", type: "bytes32" },
+          ],
+        },
+        primaryType: "ReceiveWithAuthorization",
+        message: { from: signer.account.address, to, ...authorization },
+      });
+      const { v, r, s } = Signature.from(signature);
+
+      return { ...authorization, v, r: r as `0x${string}`, s: s as `0x${string}` };
+    }
+
+    it("Should pay with an EIP-3009 authorization and refund the excess", async function () {
+      const { betrERC20Payer, mockUSDC, mockDestination, data, owner, user } = await loadFixture(deployAuthorizationFixture);
+
+      const ownerBalance = await mockUSDC.read.balanceOf([owner.account.address]);
+      const nonce = keccak256(toHex("payment-1"));
+      const authorization = await signAuthorization(mockUSDC, user, betrERC20Payer.address, parseEther("0.11"), nonce);
+
+      expect(await betrERC20Payer.write.payWithAuthorization([
+        mockUSDC.address,
+        mockDestination.address,
+        data,
+        parseEther("0.1"),
+        parseEther("0.1"),
+        authorization
+      ], {
+        account: user.account
+      })).to.emit(betrERC20Payer, "PaidWithERC20");
+
+      expect(await mockUSDC.read.balanceOf([user.account.address])).to.equal(parseEther("1000") - parseEther("0.1"));
+      expect(await mockUSDC.read.balanceOf([owner.account.address])).to.equal(ownerBalance + parseEther("0.1"));
+      expect(await mockUSDC.read.balanceOf([betrERC20Payer.address])).to.equal(0n);
+      expect(await mockUSDC.read.authorizationState([user.account.address, nonce])).to.equal(true);
+      expect(await mockDestination.read.getCalls()).to.equal(1n);
+    });
+
+    it("Should revert if the authorized amount does not cover the required tokens", async function () {
+      const { betrERC20Payer, mockUSDC, mockDestination, data, user } = await loadFixture(deployAuthorizationFixture);
+
+      const authorization = await signAuthorization(mockUSDC, user, betrERC20Payer.address, parseEther("0.09"), keccak256(toHex("payment-1")));
+
+      await expect(betrERC20Payer.write.payWithAuthorization([
+        mockUSDC.address,
+        mockDestination.address,
+        data,
+        parseEther("0.1"),
+        parseEther("0.1"),
+        authorization
+      ], {
+        account: user.account
+      })).to.be.rejectedWith("InsufficientAuthorizedAmount");
+    });
+
+    it("Should not replay an authorization", async function () {
+      const { betrERC20Payer, mockUSDC, mockDestination, data, user } = await loadFixture(deployAuthorizationFixture);
+
+      const authorization = await signAuthorization(mockUSDC, user, betrERC20Payer.address, parseEther("0.1"), keccak256(toHex("payment-1")));
+      const args = [mockUSDC.address, mockDestination.address, data, parseEther("0.1"), parseEther("0.1"), authorization] as const;
+
+      await betrERC20Payer.write.payWithAuthorization([...args], {
+        account: user.account
+      });
+      await expect(betrERC20Payer.write.payWithAuthorization([...args], {
+        account: user.account
+      })).to.be.rejectedWith("AuthorizationUsed");
+    });
+
+    it("Should not accept an authorization submitted by someone else", async function () {
+      const { betrERC20Payer, mockUSDC, mockDestination, data, otherAccount, user } = await loadFixture(deployAuthorizationFixture);
+
+      const authorization = await signAuthorization(mockUSDC, user, betrERC20Payer.address, parseEther("0.1"), keccak256(toHex("payment-1")));
+
+      await expect(betrERC20Payer.write.payWithAuthorization([
+        mockUSDC.address,
+        mockDestination.address,
+        data,
+        parseEther("0.1"),
+        parseEther("0.1"),
+        authorization
+      ], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("InvalidSignature");
+    });
+  });
+
+  describe("Pay with Intent", function () {
+    async function createIntent(
+      betrERC20Payer: { address: `0x${string}` },
+      signer: Awaited<ReturnType<typeof hre.viem.getWalletClients>>[number],
+      overrides: Partial<{ token: `0x${string}`; destination: `0x${string}`; dataHash: `0x${string}`; ethAmount: bigint; maxTokenIn: bigint; maxRelayerFee: bigint; nonce: bigint; deadline: bigint }> & { token: `0x${string}`; destination: `0x${string}`; dataHash: `0x${string}` }
+    ) {
+      const intent = {
+        payer: signer.account.address,
+        ethAmount: parseEther("0.1"),
+        maxTokenIn: parseEther("0.11"),
+        maxRelayerFee: parseEther("0.01"),
+        nonce: 0n,
+        deadline: BigInt(await time.latest()) + 3600n,
+        ...overrides,
+      };
+      const chainId = await (await hre.viem.getPublicClient()).getChainId();
+      const signature = await signer.signTypedData({
+        domain: {
+          name: "BETRERC20Payer",
+          version: "1",
+          chainId,
+          verifyingContract: betrERC20Payer.address,
+        },
+        types: {
+          PaymentIntent: [
+            { name: "payer", type: "address" },
+            { name: "token", type: "address" },
+            { name: "destination", type: "address" },
+            { name: "dataHash", type: "bytes32" },
+            { name: "ethAmount", type: "uint256" },
+            { name: "maxTokenIn", type: "uint256" },
+            { name: "maxRelayerFee", type: "uint256" },
+            { name: "nonce", type: "uint256" },
+            { name: "deadline", type: "uint256" },
+          ],
+        },
+        primaryType: "PaymentIntent",
+        message: intent,
+      });
+
+      return { intent, signature };
+    }
+
+    it("Should hash the payment intent as EIP-712 typed data", async function () {
+      const { betrERC20Payer, mockToken, mockDestination, data, user } = await loadFixture(deployPaymentFixture);
+
+      const { intent } = await createIntent(betrERC20Payer, user, {
+        token: mockToken.address,
+        destination: mockDestination.address,
+        dataHash: keccak256(data),
+      });
+      const chainId = await (await hre.viem.getPublicClient()).getChainId();
+
+      expect(await betrERC20Payer.read.hashPaymentIntent([intent])).to.equal(hashTypedData({
+        domain: {
+          name: "BETRERC20Payer",
+          version: "1",
+          chainId,
+          verifyingContract: betrERC20Payer.address,
+        },
+        types: {
+          PaymentIntent: [
+            { name: "payer", type: "address" },
+            { name: "token", type: "address" },
+            { name: "destination", type: "address" },
+            { name: "dataHash", type: "bytes32" },
+            { name: "ethAmount", type: "uint256" },
+            { name: "maxTokenIn", type: "uint256" },
+            { name: "maxRelayerFee", type: "uint256" },
+            { name: "nonce", type: "uint256" },
+            { name: "deadline", type: "uint256" },
+          ],
+        },
+        primaryType: "PaymentIntent",
+        message: intent,
+      }));
+    });
+
+    it("Should pay with an intent submitted by a relayer", async function () {
+      const { betrERC20Payer, mockToken, mockDestination, data, owner, otherAccount, user } = await loadFixture(deployPaymentFixture);
+
+      const ownerBalance = await mockToken.read.balanceOf([owner.account.address]);
+      const { intent, signature } = await createIntent(betrERC20Payer, user, {
+        token: mockToken.address,
+        destination: mockDestination.address,
+        dataHash: keccak256(data),
+      });
+
+      expect(await betrERC20Payer.write.payWithIntent([intent, data, signature], {
+        account: otherAccount.account
+      })).to.emit(betrERC20Payer, "PaidWithERC20").withArgs(
+        user.account.address,
+        mockToken.address,
+        mockDestination.address,
+        data.slice(0, 10),
+        parseEther("0.1"),
+        parseEther("0.1"),
+        0n,
+        parseEther("0.11")
+      );
+
+      const [compensated] = await betrERC20Payer.getEvents.RelayerCompensated();
+      const relayerFee = compensated.args.amount!;
+      expect(compensated.args.payer).to.equal(getAddress(user.account.address));
+      expect(compensated.args.relayer).to.equal(getAddress(otherAccount.account.address));
+      expect(relayerFee > 0n).to.be.true;
+      expect(relayerFee <= parseEther("0.01")).to.be.true;
+
+      expect(await mockToken.read.balanceOf([otherAccount.account.address])).to.equal(relayerFee);
+      expect(await mockToken.read.balanceOf([owner.account.address])).to.equal(ownerBalance + parseEther("0.1"));
+      expect(await mockToken.read.balanceOf([user.account.address])).to.equal(parseEther("1000") - parseEther("0.1") - relayerFee);
+      expect(await betrERC20Payer.read.totalTokensCollected([mockToken.address])).to.equal(parseEther("0.1"));
+      expect(await betrERC20Payer.read.usedNonces([user.account.address, 0n])).to.be.true;
+      expect(await mockDestination.read.getCalls()).to.equal(1n);
+    });
+
+    it("Should cap the relayer compensation by the maximum relayer fee", async function () {
+      const { betrERC20Payer, mockToken, mockDestination, data, otherAccount, user } = await loadFixture(deployPaymentFixture);
+
+      const { intent, signature } = await createIntent(betrERC20Payer, user, {
+        token: mockToken.address,
+        destination: mockDestination.address,
+        dataHash: keccak256(data),
+        maxRelayerFee: 1000n,
+      });
+      await betrERC20Payer.write.payWithIntent([intent, data, signature], {
+        account: otherAccount.account
+      });
+
+      expect(await mockToken.read.balanceOf([otherAccount.account.address])).to.equal(1000n);
+    });
+
+    it("Should cap the relayer compensation by the maximum amount of tokens", async function () {
+      const { betrERC20Payer, mockToken, mockDestination, data, otherAccount, user } = await loadFixture(deployPaymentFixture);
+
+      const { intent, signature } = await createIntent(betrERC20Payer, user, {
+        token: mockToken.address,
+        destination: mockDestination.address,
+        dataHash: keccak256(data),
+        maxTokenIn: parseEther("0.1") + 10n,
+      });
+      await betrERC20Payer.write.payWithIntent([intent, data, signature], {
+        account: otherAccount.account
+      });
+
+      expect(await mockToken.read.balanceOf([otherAccount.account.address])).to.equal(10n);
+      expect(await mockToken.read.balanceOf([user.account.address])).to.equal(parseEther("1000") - parseEther("0.1") - 10n);
+    });
+
+    it("Should not compensate the relayer without a maximum relayer fee", async function () {
+      const { betrERC20Payer, mockToken, mockDestination, data, otherAccount, user } = await loadFixture(deployPaymentFixture);
+
+      const { intent, signature } = await createIntent(betrERC20Payer, user, {
+        token: mockToken.address,
+        destination: mockDestination.address,
+        dataHash: keccak256(data),
+        maxRelayerFee: 0n,
+      });
+      await betrERC20Payer.write.payWithIntent([intent, data, signature], {
+        account: otherAccount.account
+      });
+
+      expect(await mockToken.read.balanceOf([otherAccount.account.address])).to.equal(0n);
+      expect(await betrERC20Payer.getEvents.RelayerCompensated()).to.have.lengthOf(0);
+    });
+
+    it("Should charge the fee to the payer of the intent", async function () {
+      const { betrERC20Payer, mockToken, mockDestination, data, owner, otherAccount, user } = await loadFixture(deployPaymentFixture);
+
+      await betrERC20Payer.write.setERC20TokenPaymentConfig([mockToken.address, 0, 50], {
+        account: owner.account
+      });
+      const { intent, signature } = await createIntent(betrERC20Payer, user, {
+        token: mockToken.address,
+        destination: mockDestination.address,
+        dataHash: keccak256(data),
+      });
+      await betrERC20Payer.write.payWithIntent([intent, data, signature], {
+        account: otherAccount.account
+      });
+
+      const [feeCharged] = await betrERC20Payer.getEvents.FeeCharged();
+      expect(feeCharged.args.payer).to.equal(getAddress(user.account.address));
+      expect(feeCharged.args.amount).to.equal(parseEther("0.0005"));
+      expect(await betrERC20Payer.read.totalTokensCollected([mockToken.address])).to.equal(parseEther("0.1005"));
+    });
+
+    it("Should revert if the required tokens exceed the maximum", async function () {
+      const { betrERC20Payer, mockToken, mockDestination, data, otherAccount, user } = await loadFixture(deployPaymentFixture);
+
+      const { intent, signature } = await createIntent(betrERC20Payer, user, {
+        token: mockToken.address,
+        destination: mockDestination.address,
+        dataHash: keccak256(data),
+        maxTokenIn: parseEther("0.09"),
+      });
+      await expect(betrERC20Payer.write.payWithIntent([intent, data, signature], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("MaxTokenInExceeded");
+    });
+
+    it("Should revert if the intent is not signed by the payer", async function () {
+      const { betrERC20Payer, mockToken, mockDestination, data, otherAccount, user } = await loadFixture(deployPaymentFixture);
+
+      const { intent, signature } = await createIntent(betrERC20Payer, otherAccount, {
+        token: mockToken.address,
+        destination: mockDestination.address,
+        dataHash: keccak256(data),
+      });
+      await expect(betrERC20Payer.write.payWithIntent([{ ...intent, payer: user.account.address }, data, signature], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("InvalidSignature");
+      await expect(betrERC20Payer.write.payWithIntent([{ ...intent, ethAmount: parseEther("0.05") }, data, signature], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("InvalidSignature");
+    });
+
+    it("Should revert if the data does not match the intent", async function () {
+      const { betrERC20Payer, mockToken, mockDestination, data, otherAccount, user } = await loadFixture(deployPaymentFixture);
+
+      const { intent, signature } = await createIntent(betrERC20Payer, user, {
+        token: mockToken.address,
+        destination: mockDestination.address,
+        dataHash: keccak256(data),
+      });
+      const otherData = encodeFunctionData({
+        abi: mockDestination.abi,
+        functionName: "testRevert",
+        args: []
+      });
+      await expect(betrERC20Payer.write.payWithIntent([intent, otherData, signature], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("InvalidInput");
+    });
+
+    it("Should revert if the intent is expired", async function () {
+      const { betrERC20Payer, mockToken, mockDestination, data, otherAccount, user } = await loadFixture(deployPaymentFixture);
+
+      const { intent, signature } = await createIntent(betrERC20Payer, user, {
+        token: mockToken.address,
+        destination: mockDestination.address,
+        dataHash: keccak256(data),
+        deadline: BigInt(await time.latest()) - 1n,
+      });
+      await expect(betrERC20Payer.write.payWithIntent([intent, data, signature], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("PaymentIntentExpired");
+    });
+
+    it("Should revert if the nonce is already used", async function () {
+      const { betrERC20Payer, mockToken, mockDestination, data, otherAccount, user } = await loadFixture(deployPaymentFixture);
+
+      const { intent, signature } = await createIntent(betrERC20Payer, user, {
+        token: mockToken.address,
+        destination: mockDestination.address,
+        dataHash: keccak256(data),
+      });
+      await betrERC20Payer.write.payWithIntent([intent, data, signature], {
+        account: otherAccount.account
+      });
+      await expect(betrERC20Payer.write.payWithIntent([intent, data, signature], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("NonceAlreadyUsed");
+
+      // Nonces are unordered, so another nonce can still be used
+      const { intent: nextIntent, signature: nextSignature } = await createIntent(betrERC20Payer, user, {
+        token: mockToken.address,
+        destination: mockDestination.address,
+        dataHash: keccak256(data),
+        nonce: 42n,
+      });
+      await betrERC20Payer.write.payWithIntent([nextIntent, data, nextSignature], {
+        account: otherAccount.account
+      });
+      expect(await mockDestination.read.getCalls()).to.equal(2n);
+    });
+
+    it("Should cancel a payment intent", async function () {
+      const { betrERC20Payer, mockToken, mockDestination, data, otherAccount, user } = await loadFixture(deployPaymentFixture);
+
+      const { intent, signature } = await createIntent(betrERC20Payer, user, {
+        token: mockToken.address,
+        destination: mockDestination.address,
+        dataHash: keccak256(data),
+      });
+      expect(await betrERC20Payer.write.cancelPaymentIntent([0n], {
+        account: user.account
+      })).to.emit(betrERC20Payer, "PaymentIntentCancelled").withArgs(user.account.address, 0n);
+      expect(await betrERC20Payer.read.usedNonces([user.account.address, 0n])).to.be.true;
+
+      await expect(betrERC20Payer.write.payWithIntent([intent, data, signature], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("NonceAlreadyUsed");
+      await expect(betrERC20Payer.write.cancelPaymentIntent([0n], {
+        account: user.account
+      })).to.be.rejectedWith("NonceAlreadyUsed");
+    });
+
+    it("Should revert with invalid inputs", async function () {
+      const { betrERC20Payer, mockToken, mockDestination, data, otherAccount, user } = await loadFixture(deployPaymentFixture);
+
+      const { intent, signature } = await createIntent(betrERC20Payer, user, {
+        token: mockToken.address,
+        destination: mockDestination.address,
+        dataHash: keccak256(data),
+      });
+      await expect(betrERC20Payer.write.payWithIntent([{ ...intent, maxTokenIn: 0n }, data, signature], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("InvalidInput");
+      await expect(betrERC20Payer.write.payWithIntent([{ ...intent, ethAmount: 0n }, data, signature], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("InvalidInput");
+      await expect(betrERC20Payer.write.payWithIntent([intent, "0x", signature], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("InvalidInput");
+    });
+  });
+
+  describe("Replenishment", function () {
+    async function deployReplenishmentFixture() {
+      const [owner, otherAccount, user] = await hre.viem.getWalletClients();
+
+      const mockWETH = await hre.viem.deployContract("MockWETH9");
+      const mockToken = await hre.viem.deployContract("MockERC20", ["Test Token", "TEST", 18]);
+      const mockPool = await hre.viem.deployContract("MockUniswapV3Pool", [
+        mockToken.address,
+        mockWETH.address,
+        79228162514264337593543950336n // 2^96 for 1:1 price
+      ]);
+      const mockSwapRouter = await hre.viem.deployContract("MockSwapRouter");
+      const betrERC20Payer = await hre.viem.deployContract("BETRERC20Payer", [owner.account.address, mockWETH.address]);
+      const mockDestination = await hre.viem.deployContract("Mock");
+      const publicClient = await hre.viem.getPublicClient();
+
+      await betrERC20Payer.write.setERC20TokenPricePool([mockToken.address, mockPool.address], {
+        account: owner.account
+      });
+      await betrERC20Payer.write.setWhitelistedDestination([mockDestination.address, true], {
+        account: owner.account
+      });
+      await betrERC20Payer.write.setAllowedSelector([mockDestination.address, toFunctionSelector("testSuccess()"), true, 0n], {
+        account: owner.account
+      });
+      await betrERC20Payer.write.setSwapRouter([mockSwapRouter.address], {
+        account: owner.account
+      });
+      await betrERC20Payer.write.setWatermarks([parseEther("0.5"), parseEther("1")], {
+        account: owner.account
+      });
+      await betrERC20Payer.write.setRetainCollectedTokens([true], {
+        account: owner.account
+      });
+      await owner.sendTransaction({
+        to: betrERC20Payer.address,
+        value: parseEther("1")
+      });
+
+      // Fund the swap router with WETH to pay out swaps
+      await mockWETH.write.deposit({
+        account: owner.account,
+        value: parseEther("10")
+      });
+      await mockWETH.write.transfer([mockSwapRouter.address, parseEther("10")], {
+        account: owner.account
+      });
+
+      await mockToken.write.mint([user.account.address, parseEther("1000")], {
+        account: owner.account
+      });
+      await mockToken.write.approve([betrERC20Payer.address, parseEther("1000")], {
+        account: user.account
+      });
+
+      const data = encodeFunctionData({
+        abi: mockDestination.abi,
+        functionName: "testSuccess",
+        args: []
+      });
+
+      return {
+        betrERC20Payer,
+        mockWETH,
+        mockToken,
+        mockPool,
+        mockSwapRouter,
+        mockDestination,
+        owner,
+        otherAccount,
+        user,
+        publicClient,
+        data,
+      };
+    }
+
+    async function deployDrainedFloatFixture() {
+      const fixture = await deployReplenishmentFixture();
+      const { betrERC20Payer, mockToken, mockDestination, data, user } = fixture;
+
+      await betrERC20Payer.write.payWithERC20([
+        mockToken.address,
+        mockDestination.address,
+        data,
+        parseEther("0.6"),
+        parseEther("0.6")
+      ], {
+        account: user.account
+      });
+
+      return fixture;
+    }
+
+    it("Should let the owner withdraw the retained tokens", async function () {
+      const { betrERC20Payer, mockToken, owner, otherAccount } = await loadFixture(deployDrainedFloatFixture);
+
+      const initialBalance = await mockToken.read.balanceOf([owner.account.address]);
+
+      expect(await betrERC20Payer.write.recoverERC20([mockToken.address, parseEther("0.6")], {
+        account: owner.account
+      })).to.emit(betrERC20Payer, "ERC20Recovered").withArgs(mockToken.address, parseEther("0.6"));
+
+      expect(await mockToken.read.balanceOf([owner.account.address])).to.equal(initialBalance + parseEther("0.6"));
+      expect(await mockToken.read.balanceOf([betrERC20Payer.address])).to.equal(0n);
+
+      await expect(betrERC20Payer.write.recoverERC20([mockToken.address, 1n], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("NotOwner");
+      await expect(betrERC20Payer.write.recoverERC20([mockToken.address, 0n], {
+        account: owner.account
+      })).to.be.rejectedWith("InvalidInput");
+    });
+
+    it("Should set the replenishment configuration", async function () {
+      const { betrERC20Payer, mockSwapRouter, otherAccount } = await loadFixture(deployReplenishmentFixture);
+
+      expect(await betrERC20Payer.read.retainCollectedTokens()).to.be.true;
+      expect(await betrERC20Payer.read.swapRouter()).to.equal(getAddress(mockSwapRouter.address));
+      expect(await betrERC20Payer.read.lowWatermark()).to.equal(parseEther("0.5"));
+      expect(await betrERC20Payer.read.highWatermark()).to.equal(parseEther("1"));
+      expect(await betrERC20Payer.read.keepers([otherAccount.account.address])).to.be.false;
+    });
+
+    it("Should emit events when setting the replenishment configuration", async function () {
+      const { betrERC20Payer, mockSwapRouter, owner, otherAccount } = await loadFixture(deployReplenishmentFixture);
+
+      expect(await betrERC20Payer.write.setRetainCollectedTokens([false], {
+        account: owner.account
+      })).to.emit(betrERC20Payer, "RetainCollectedTokensSet").withArgs(false);
+      expect(await betrERC20Payer.write.setSwapRouter([mockSwapRouter.address], {
+        account: owner.account
+      })).to.emit(betrERC20Payer, "SwapRouterSet").withArgs(getAddress(mockSwapRouter.address));
+      expect(await betrERC20Payer.write.setWatermarks([parseEther("1"), parseEther("2")], {
+        account: owner.account
+      })).to.emit(betrERC20Payer, "WatermarksSet").withArgs(parseEther("1"), parseEther("2"));
+      expect(await betrERC20Payer.write.setKeeper([otherAccount.account.address, true], {
+        account: owner.account
+      })).to.emit(betrERC20Payer, "KeeperSet").withArgs(getAddress(otherAccount.account.address), true);
+      expect(await betrERC20Payer.read.keepers([otherAccount.account.address])).to.be.true;
+    });
+
+    it("Should revert when setting an invalid replenishment configuration", async function () {
+      const { betrERC20Payer, owner } = await loadFixture(deployReplenishmentFixture);
+
+      await expect(betrERC20Payer.write.setSwapRouter(["0x0000000000000000000000000000000000000000"], {
+        account: owner.account
+      })).to.be.rejectedWith("InvalidInput");
+      await expect(betrERC20Payer.write.setWatermarks([parseEther("2"), parseEther("1")], {
+        account: owner.account
+      })).to.be.rejectedWith("InvalidInput");
+      await expect(betrERC20Payer.write.setKeeper(["0x0000000000000000000000000000000000000000", true], {
+        account: owner.account
       })).to.be.rejectedWith("InvalidInput");
     });
 
-    it("Should revert if data is empty", async function () {
-      const { betrERC20Payer, mockToken, mockDestination, user } = await loadFixture(deployBETRERC20PayerFixture);
+    it("Should revert if non-owner sets the replenishment configuration", async function () {
+      const { betrERC20Payer, mockSwapRouter, otherAccount } = await loadFixture(deployReplenishmentFixture);
 
-      await expect(betrERC20Payer.write.payWithERC20([
-        mockToken.address,
-        mockDestination.address,
-        "0x",
-        parseEther("0.1"),
-        parseEther("1")
-      ], {
-        account: user.account
-      })).to.be.rejectedWith("InvalidInput");
+      await expect(betrERC20Payer.write.setRetainCollectedTokens([false], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("NotOwner");
+      await expect(betrERC20Payer.write.setSwapRouter([mockSwapRouter.address], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("NotOwner");
+      await expect(betrERC20Payer.write.setWatermarks([0n, 0n], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("NotOwner");
+      await expect(betrERC20Payer.write.setKeeper([otherAccount.account.address, true], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("NotOwner");
     });
 
-    it("Should revert if amount is zero", async function () {
-      const { betrERC20Payer, mockToken, mockDestination, user } = await loadFixture(deployBETRERC20PayerFixture);
+    it("Should retain the collected tokens and still send the fee", async function () {
+      const { betrERC20Payer, mockToken, mockDestination, data, owner, otherAccount, user } = await loadFixture(deployReplenishmentFixture);
 
-      const data = encodeFunctionData({
-        abi: mockDestination.abi,
-        functionName: "testSuccess",
-        args: []
+      await betrERC20Payer.write.setERC20TokenPaymentConfig([mockToken.address, 0, 50], {
+        account: owner.account
       });
-
-      await expect(betrERC20Payer.write.payWithERC20([
+      await betrERC20Payer.write.setFeeRecipient([otherAccount.account.address], {
+        account: owner.account
+      });
+      const ownerBalance = await mockToken.read.balanceOf([owner.account.address]);
+      await betrERC20Payer.write.payWithERC20([
         mockToken.address,
         mockDestination.address,
         data,
-        0n,
-        parseEther("1")
+        parseEther("0.1"),
+        parseEther("0.1005")
       ], {
         account: user.account
-      })).to.be.rejectedWith("InvalidInput");
+      });
+
+      expect(await mockToken.read.balanceOf([betrERC20Payer.address])).to.equal(parseEther("0.1"));
+      expect(await mockToken.read.balanceOf([otherAccount.account.address])).to.equal(parseEther("0.0005"));
+      expect(await mockToken.read.balanceOf([owner.account.address])).to.equal(ownerBalance);
     });
 
-    it("Should revert if destination is not whitelisted", async function () {
-      const { betrERC20Payer, mockToken, mockDestination, user } = await loadFixture(deployBETRERC20PayerFixture);
+    it("Should send the collected tokens to the owner when not retaining them", async function () {
+      const { betrERC20Payer, mockToken, mockDestination, data, owner, user } = await loadFixture(deployReplenishmentFixture);
 
-      const data = encodeFunctionData({
-        abi: mockDestination.abi,
-        functionName: "testSuccess",
-        args: []
+      await betrERC20Payer.write.setRetainCollectedTokens([false], {
+        account: owner.account
       });
-
-      await expect(betrERC20Payer.write.payWithERC20([
+      const ownerBalance = await mockToken.read.balanceOf([owner.account.address]);
+      await betrERC20Payer.write.payWithERC20([
         mockToken.address,
         mockDestination.address,
         data,
         parseEther("0.1"),
-        parseEther("1")
+        parseEther("0.1")
       ], {
         account: user.account
-      })).to.be.rejectedWith("NotWhitelistedDestination");
+      });
+
+      expect(await mockToken.read.balanceOf([betrERC20Payer.address])).to.equal(0n);
+      expect(await mockToken.read.balanceOf([owner.account.address])).to.equal(ownerBalance + parseEther("0.1"));
     });
 
-    it("Should revert if contract doesn't have enough ETH", async function () {
-      const { betrERC20Payer, mockToken, mockPool, mockDestination, owner, user } = await loadFixture(deployBETRERC20PayerFixture);
+    it("Should replenish the float up to the high watermark", async function () {
+      const { betrERC20Payer, mockToken, mockWETH, mockSwapRouter, mockPool, owner, publicClient } = await loadFixture(deployDrainedFloatFixture);
 
-      // Setup: Set pool and whitelist destination
-      await betrERC20Payer.write.setERC20TokenPricePool([mockToken.address, mockPool.address], {
-        account: owner.account
-      });
-      await betrERC20Payer.write.setWhitelistedDestination([mockDestination.address, true], {
-        account: owner.account
-      });
+      expect(await publicClient.getBalance({ address: betrERC20Payer.address })).to.equal(parseEther("0.4"));
 
-      // Fund user with tokens
-      await mockToken.write.mint([user.account.address, parseEther("1000")], {
+      await mockSwapRouter.write.setRate([parseEther("0.99")]);
+      expect(await betrERC20Payer.write.replenish([mockToken.address, parseEther("0.594")], {
         account: owner.account
-      });
+      })).to.emit(betrERC20Payer, "Replenished").withArgs(
+        getAddress(mockToken.address),
+        getAddress(owner.account.address),
+        parseEther("0.6"),
+        parseEther("0.594")
+      );
 
-      // Approve tokens
-      await mockToken.write.approve([betrERC20Payer.address, parseEther("1000")], {
-        account: user.account
-      });
+      expect(await publicClient.getBalance({ address: betrERC20Payer.address })).to.equal(parseEther("0.994"));
+      expect(await mockToken.read.balanceOf([betrERC20Payer.address])).to.equal(0n);
+      expect(await mockWETH.read.balanceOf([betrERC20Payer.address])).to.equal(0n);
 
-      const data = encodeFunctionData({
-        abi: mockDestination.abi,
-        functionName: "testSuccess",
-        args: []
-      });
+      const fee = toHex(await mockPool.read.fee(), { size: 3 });
+      expect(await mockSwapRouter.read.lastPath()).to.equal(
+        `${mockToken.address.toLowerCase()}${fee.slice(2)}${mockWETH.address.slice(2).toLowerCase()}`
+      );
+    });
 
-      await expect(betrERC20Payer.write.payWithERC20([
+    it("Should only swap the tokens needed to reach the high watermark", async function () {
+      const { betrERC20Payer, mockToken, mockDestination, data, owner, user, publicClient } = await loadFixture(deployReplenishmentFixture);
+
+      await betrERC20Payer.write.payWithERC20([
         mockToken.address,
         mockDestination.address,
         data,
-        parseEther("1"), // More than contract has
-        parseEther("1")
+        parseEther("0.6"),
+        parseEther("0.6")
       ], {
         account: user.account
-      })).to.be.rejectedWith("NotEnoughValueInContract");
-    });
-
-    it("Should revert if no pool for token", async function () {
-      const { betrERC20Payer, mockToken, mockDestination, owner, user } = await loadFixture(deployBETRERC20PayerFixture);
-
-      // Only whitelist destination, don't set pool
-      await betrERC20Payer.write.setWhitelistedDestination([mockDestination.address, true], {
+      });
+      await mockToken.write.mint([betrERC20Payer.address, parseEther("1")], {
         account: owner.account
       });
 
-      // Fund the contract with ETH
-      await owner.sendTransaction({
-        to: betrERC20Payer.address,
-        value: parseEther("1")
+      await betrERC20Payer.write.replenish([mockToken.address, 0n], {
+        account: owner.account
       });
 
-      const data = encodeFunctionData({
-        abi: mockDestination.abi,
-        functionName: "testSuccess",
-        args: []
-      });
+      expect(await publicClient.getBalance({ address: betrERC20Payer.address })).to.equal(parseEther("1"));
+      expect(await mockToken.read.balanceOf([betrERC20Payer.address])).to.equal(parseEther("1"));
+    });
 
-      await expect(betrERC20Payer.write.payWithERC20([
+    it("Should cap the swap at the collected tokens", async function () {
+      const { betrERC20Payer, mockToken, mockDestination, data, owner, user, publicClient } = await loadFixture(deployReplenishmentFixture);
+
+      await betrERC20Payer.write.setRetainCollectedTokens([false], {
+        account: owner.account
+      });
+      await betrERC20Payer.write.payWithERC20([
         mockToken.address,
         mockDestination.address,
         data,
-        parseEther("0.1"),
-        parseEther("1")
+        parseEther("0.6"),
+        parseEther("0.6")
       ], {
         account: user.account
-      })).to.be.rejectedWith("NoPoolForToken");
-    });
-
-    it("Should revert if subcall reverts", async function () {
-      const { betrERC20Payer, mockToken, mockPool, mockDestination, owner, user } = await loadFixture(deployBETRERC20PayerFixture);
-
-      // Setup: Set pool and whitelist destination
-      await betrERC20Payer.write.setERC20TokenPricePool([mockToken.address, mockPool.address], {
-        account: owner.account
       });
-      await betrERC20Payer.write.setWhitelistedDestination([mockDestination.address, true], {
+      await mockToken.write.mint([betrERC20Payer.address, parseEther("0.2")], {
         account: owner.account
       });
 
-      // Fund the contract with ETH
-      await owner.sendTransaction({
-        to: betrERC20Payer.address,
-        value: parseEther("1")
-      });
-
-      // Fund user with tokens
-      await mockToken.write.mint([user.account.address, parseEther("1000")], {
+      await betrERC20Payer.write.replenish([mockToken.address, 0n], {
         account: owner.account
       });
 
-      // Approve tokens
-      await mockToken.write.approve([betrERC20Payer.address, parseEther("1000")], {
-        account: user.account
-      });
+      expect(await publicClient.getBalance({ address: betrERC20Payer.address })).to.equal(parseEther("0.6"));
+      expect(await mockToken.read.balanceOf([betrERC20Payer.address])).to.equal(0n);
+    });
 
-      const data = encodeFunctionData({
-        abi: mockDestination.abi,
-        functionName: "testRevert",
-        args: []
+    it("Should allow keepers to replenish", async function () {
+      const { betrERC20Payer, mockToken, owner, otherAccount, publicClient } = await loadFixture(deployDrainedFloatFixture);
+
+      await betrERC20Payer.write.setKeeper([otherAccount.account.address, true], {
+        account: owner.account
+      });
+      await betrERC20Payer.write.replenish([mockToken.address, parseEther("0.6")], {
+        account: otherAccount.account
       });
 
-      await expect(betrERC20Payer.write.payWithERC20([
-        mockToken.address,
-        mockDestination.address,
-        data,
-        parseEther("0.1"),
-        parseEther("0.1")
-      ], {
-        account: user.account
-      })).to.be.rejectedWith("SubcallFailed");
+      expect(await publicClient.getBalance({ address: betrERC20Payer.address })).to.equal(parseEther("1"));
     });
-  });
 
-  describe("Pay with ERC20 Permit", function () {
-    it("Should pay with ERC20 permit using a real signature", async function () {
-      const { betrERC20Payer, mockToken, mockPool, mockDestination, owner, user } = await loadFixture(deployBETRERC20PayerFixture);
+    it("Should revert if the caller is not a keeper", async function () {
+      const { betrERC20Payer, mockToken, owner, otherAccount } = await loadFixture(deployDrainedFloatFixture);
 
-      // Setup: Set pool and whitelist destination
-      await betrERC20Payer.write.setERC20TokenPricePool([mockToken.address, mockPool.address], {
+      await expect(betrERC20Payer.write.replenish([mockToken.address, 0n], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("NotKeeper");
+
+      await betrERC20Payer.write.setKeeper([otherAccount.account.address, true], {
         account: owner.account
       });
-      await betrERC20Payer.write.setWhitelistedDestination([mockDestination.address, true], {
+      await betrERC20Payer.write.setKeeper([otherAccount.account.address, false], {
         account: owner.account
       });
+      await expect(betrERC20Payer.write.replenish([mockToken.address, 0n], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("NotKeeper");
+    });
 
-      // Fund the contract with ETH
-      await owner.sendTransaction({
-        to: betrERC20Payer.address,
-        value: parseEther("1")
-      });
+    it("Should revert if the float is not below the low watermark", async function () {
+      const { betrERC20Payer, mockToken, owner } = await loadFixture(deployReplenishmentFixture);
 
-      // Fund user with tokens
-      await mockToken.write.mint([user.account.address, parseEther("1000")], {
+      await mockToken.write.mint([betrERC20Payer.address, parseEther("1")], {
         account: owner.account
       });
+      await expect(betrERC20Payer.write.replenish([mockToken.address, 0n], {
+        account: owner.account
+      })).to.be.rejectedWith("FloatAboveLowWatermark");
+    });
 
-      const amount = parseEther("0.1");
-      const expectedPrice = amount; // 1:1 ratio from mock pool
-      const spendableAmount = parseEther("1000");
-      const deadline = BigInt(Math.floor(Date.now() / 1000) + 3600); // 1 hour from now
-
-      // Get the current nonce
-      const nonce = await mockToken.read.nonces([user.account.address]);
-      let chainId: number;
-      if (hre.network.config.chainId) {
-        chainId = hre.network.config.chainId;
-      } else {
-        chainId = await (await hre.viem.getPublicClient()).getChainId();
-      }
-      const domain = {
-        name: await mockToken.read.name(),
-        version: "1",
-        chainId,
-        verifyingContract: mockToken.address,
-      };
-      const types = {
-        Permit: [
-          { name: "owner", type: "address" },
-          { name: "spender", type: "address" },
-          { name: "value", type: "uint256" },
-          { name: "nonce", type: "uint256" },
-          { name: "deadline", type: "uint256" },
-        ],
-      };
-      const values = {
-        owner: user.account.address,
-        spender: betrERC20Payer.address,
-        value: spendableAmount,
-        nonce,
-        deadline,
-      };
-      // Sign the permit
-      const signature = await user.signTypedData({ domain, types, primaryType: "Permit", message: values });
-      const { v, r, s } = Signature.from(signature);
+    it("Should revert if there are no collected tokens", async function () {
+      const { betrERC20Payer, mockToken, mockDestination, data, owner, user } = await loadFixture(deployReplenishmentFixture);
 
-      const data = encodeFunctionData({
-        abi: mockDestination.abi,
-        functionName: "testSuccess",
-        args: []
+      await betrERC20Payer.write.setRetainCollectedTokens([false], {
+        account: owner.account
       });
-
-      // Call payWithERC20Permit
-      const result = await betrERC20Payer.write.payWithERC20Permit([
+      await betrERC20Payer.write.payWithERC20([
         mockToken.address,
         mockDestination.address,
         data,
-        amount,
-        expectedPrice,
-        spendableAmount,
-        deadline,
-        v,
-        r as `0x${string}`,
-        s as `0x${string}`
+        parseEther("0.6"),
+        parseEther("0.6")
       ], {
         account: user.account
       });
 
-      expect(result).to.not.be.undefined;
-      // Check that the allowance is set to 0 (spent)
-      const allowance = await mockToken.read.allowance([user.account.address, betrERC20Payer.address]);
-      expect(allowance).to.equal(spendableAmount - expectedPrice);
+      await expect(betrERC20Payer.write.replenish([mockToken.address, 0n], {
+        account: owner.account
+      })).to.be.rejectedWith("NothingToReplenish");
     });
 
-    it("Should revert if deadline is in the past", async function () {
-      const { betrERC20Payer, mockToken, mockDestination, user } = await loadFixture(deployBETRERC20PayerFixture);
+    it("Should revert if the swap returns less than the minimum ETH", async function () {
+      const { betrERC20Payer, mockToken, mockSwapRouter, owner } = await loadFixture(deployDrainedFloatFixture);
 
-      const data = encodeFunctionData({
-        abi: mockDestination.abi,
-        functionName: "testSuccess",
-        args: []
-      });
+      await mockSwapRouter.write.setRate([parseEther("0.9")]);
+      await expect(betrERC20Payer.write.replenish([mockToken.address, parseEther("0.6")], {
+        account: owner.account
+      })).to.be.rejectedWith("TooLittleReceived");
+    });
 
-      const pastDeadline = BigInt(Math.floor(Date.now() / 1000) - 3600); // 1 hour ago
+    it("Should revert if the token has no price route", async function () {
+      const { betrERC20Payer, owner } = await loadFixture(deployDrainedFloatFixture);
 
-      await expect(betrERC20Payer.write.payWithERC20Permit([
-        mockToken.address,
-        mockDestination.address,
-        data,
-        parseEther("0.1"),
-        parseEther("1"),
-        parseEther("1000"),
-        pastDeadline,
-        27,
-        "0x1234567890123456789012345678901234567890123456789012345678901234",
-        "0x1234567890123456789012345678901234567890123456789012345678901234"
-      ], {
-        account: user.account
-      })).to.be.rejectedWith("InvalidInput");
+      const otherToken = await hre.viem.deployContract("MockERC20", ["Other Token", "OTHER", 18]);
+      await expect(betrERC20Payer.write.replenish([otherToken.address, 0n], {
+        account: owner.account
+      })).to.be.rejectedWith("NoPoolForToken");
     });
   });
 
@@ -1130,11 +3572,9 @@ describe("BETRERC20Payer", function () {
       const pool = await hre.viem.deployContract("MockUniswapV3Pool", [mockToken18.address, mockWETH.address, sqrtPriceX96]);
       await betrERC20Payer.write.setERC20TokenPricePool([mockToken18.address, pool.address], { account: owner.account });
       const amount = parseEther("1");
-      const priceX96 = (sqrtPriceX96 * sqrtPriceX96 * BigInt(10 ** 18)) >> 192n;
-      const price = priceX96;
-      const expectedPrice = Number(amount) * Number(10 ** 18) / Number(price);
+      const expectedPrice = (((amount << 96n) / sqrtPriceX96) << 96n) / sqrtPriceX96;
       const contractPrice = await betrERC20Payer.read.getPrice([mockToken18.address, amount]);
-      expect(contractPrice).to.be.closeTo(BigInt(Math.round(expectedPrice)), 10000000000000000n);
+      expect(contractPrice).to.equal(expectedPrice);
     });
   });
 }); 
\ No newline at end of file
@@ -0,0 +1,335 @@
+import {
+  loadFixture,
+  time,
+} from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { getAddress, parseEther, parseUnits } from "viem";
+
+describe("BETRPriceOracles", function () {
+  // Deploys a pool quoting _amountOut smallest units of _tokenOut for _amountIn smallest units of _tokenIn
+  async function deployPoolAtPrice(tokenIn: `0x${string}`, tokenOut: `0x${string}`, amountOut: bigint, amountIn: bigint) {
+    const [numerator, denominator] = BigInt(tokenIn) < BigInt(tokenOut) ? [amountOut, amountIn] : [amountIn, amountOut];
+    return hre.viem.deployContract("MockUniswapV3Pool", [tokenIn, tokenOut, sqrt((numerator << 192n) / denominator)]);
+  }
+
+  function sqrt(value: bigint) {
+    let x = value;
+    let y = (x + 1n) / 2n;
+    while (y < x) {
+      x = y;
+      y = (x + value / x) / 2n;
+    }
+    return x;
+  }
+
+  // We define a fixture to reuse the same setup in every test.
+  // We use loadFixture to run this setup once, snapshot that state,
+  // and reset Hardhat Network to that snapshot in every test.
+  describe("BETRUniswapV3Oracle", function () {
+    async function deployBETRUniswapV3OracleFixture() {
+      const mockWETH = await hre.viem.deployContract("MockERC20", ["Wrapped Ether", "WETH", 18]);
+      const mockUSDC = await hre.viem.deployContract("MockERC20", ["USD Coin", "USDC", 6]);
+      const mockToken = await hre.viem.deployContract("MockERC20", ["Mock Token", "MTK", 18]);
+
+      // MTK trades at 2 USDC and ETH trades at 4000 USDC, so 1 ETH is worth 2000 MTK
+      const tokenPool = await deployPoolAtPrice(mockToken.address, mockUSDC.address, 2n * 10n ** 6n, 10n ** 18n);
+      const wethPool = await deployPoolAtPrice(mockUSDC.address, mockWETH.address, 10n ** 18n, 4000n * 10n ** 6n);
+
+      const betrUniswapV3Oracle = await hre.viem.deployContract("BETRUniswapV3Oracle", [
+        mockWETH.address,
+        mockToken.address,
+        [tokenPool.address, wethPool.address],
+        0
+      ]);
+
+      return {
+        mockWETH,
+        mockUSDC,
+        mockToken,
+        tokenPool,
+        wethPool,
+        betrUniswapV3Oracle,
+      };
+    }
+
+    describe("Deployment", function () {
+      it("Should set the route", async function () {
+        const { mockWETH, mockUSDC, mockToken, tokenPool, wethPool, betrUniswapV3Oracle } = await loadFixture(deployBETRUniswapV3OracleFixture);
+
+        expect(await betrUniswapV3Oracle.read.WETH()).to.equal(getAddress(mockWETH.address));
+        expect(await betrUniswapV3Oracle.read.token()).to.equal(getAddress(mockToken.address));
+        expect(await betrUniswapV3Oracle.read.twapWindow()).to.equal(0);
+        expect(await betrUniswapV3Oracle.read.getRoute()).to.deep.equal([
+          [getAddress(tokenPool.address), getAddress(wethPool.address)],
+          [getAddress(mockToken.address), getAddress(mockUSDC.address), getAddress(mockWETH.address)]
+        ]);
+      });
+
+      it("Should revert if the route is invalid", async function () {
+        const { mockWETH, mockToken, tokenPool, wethPool } = await loadFixture(deployBETRUniswapV3OracleFixture);
+        const zeroAddress = "0x0000000000000000000000000000000000000000";
+
+        await expect(hre.viem.deployContract("BETRUniswapV3Oracle", [zeroAddress, mockToken.address, [tokenPool.address, wethPool.address], 0])).to.be.rejectedWith("InvalidInput");
+        await expect(hre.viem.deployContract("BETRUniswapV3Oracle", [mockWETH.address, zeroAddress, [tokenPool.address, wethPool.address], 0])).to.be.rejectedWith("InvalidInput");
+        await expect(hre.viem.deployContract("BETRUniswapV3Oracle", [mockWETH.address, mockToken.address, [], 0])).to.be.rejectedWith("InvalidInput");
+        await expect(hre.viem.deployContract("BETRUniswapV3Oracle", [mockWETH.address, mockToken.address, [tokenPool.address, wethPool.address, wethPool.address, wethPool.address], 0])).to.be.rejectedWith("InvalidInput");
+        await expect(hre.viem.deployContract("BETRUniswapV3Oracle", [mockWETH.address, mockToken.address, [wethPool.address], 0])).to.be.rejectedWith("InvalidPool");
+        await expect(hre.viem.deployContract("BETRUniswapV3Oracle", [mockWETH.address, mockToken.address, [tokenPool.address], 0])).to.be.rejectedWith("InvalidPool");
+      });
+    });
+
+    describe("Pricing", function () {
+      it("Should price through the route at the spot prices", async function () {
+        const { mockToken, betrUniswapV3Oracle } = await loadFixture(deployBETRUniswapV3OracleFixture);
+
+        const price = await betrUniswapV3Oracle.read.getPrice([mockToken.address, parseEther("1")]);
+        expect(price).to.be.closeTo(parseEther("2000"), parseEther("2000") / 1000000n);
+      });
+
+      it("Should price through the route at the TWAP prices", async function () {
+        const { mockWETH, mockToken } = await loadFixture(deployBETRUniswapV3OracleFixture);
+
+        const pool = await hre.viem.deployContract("MockUniswapV3Pool", [mockToken.address, mockWETH.address, 79228162514264337593543950336n]);
+        const twapOracle = await hre.viem.deployContract("BETRUniswapV3Oracle", [mockWETH.address, mockToken.address, [pool.address], 1800]);
+
+        expect(await twapOracle.read.getPrice([mockToken.address, parseEther("1")])).to.equal(parseEther("1"));
+
+        await pool.write.setObservationTick([-100]);
+        expect(await twapOracle.read.getPrice([mockToken.address, parseEther("1")])).to.not.equal(parseEther("1"));
+      });
+
+      it("Should revert for another token or a zero amount", async function () {
+        const { mockToken, mockUSDC, betrUniswapV3Oracle } = await loadFixture(deployBETRUniswapV3OracleFixture);
+
+        await expect(betrUniswapV3Oracle.read.getPrice([mockUSDC.address, parseEther("1")])).to.be.rejectedWith("InvalidInput");
+        await expect(betrUniswapV3Oracle.read.getPrice([mockToken.address, 0n])).to.be.rejectedWith("InvalidInput");
+      });
+    });
+  });
+
+  describe("BETRChainlinkOracle", function () {
+    async function deployBETRChainlinkOracleFixture() {
+      const mockUSDC = await hre.viem.deployContract("MockERC20", ["USD Coin", "USDC", 6]);
+      const mockToken = await hre.viem.deployContract("MockERC20", ["Mock Token", "MTK", 18]);
+
+      // USDC/USD at 1.00, ETH/USD at 4000.00 and MTK/ETH at 0.0005
+      const usdcFeed = await hre.viem.deployContract("MockAggregatorV3", [8, parseUnits("1", 8)]);
+      const ethFeed = await hre.viem.deployContract("MockAggregatorV3", [8, parseUnits("4000", 8)]);
+      const tokenFeed = await hre.viem.deployContract("MockAggregatorV3", [18, parseEther("0.0005")]);
+      const sequencerUptimeFeed = await hre.viem.deployContract("MockAggregatorV3", [0, 0n]);
+
+      const usdOracle = await hre.viem.deployContract("BETRChainlinkOracle", [
+        mockUSDC.address,
+        usdcFeed.address,
+        ethFeed.address,
+        "0x0000000000000000000000000000000000000000",
+        3600n,
+        0n
+      ]);
+      const ethOracle = await hre.viem.deployContract("BETRChainlinkOracle", [
+        mockToken.address,
+        tokenFeed.address,
+        "0x0000000000000000000000000000000000000000",
+        "0x0000000000000000000000000000000000000000",
+        3600n,
+        0n
+      ]);
+      const sequencerOracle = await hre.viem.deployContract("BETRChainlinkOracle", [
+        mockUSDC.address,
+        usdcFeed.address,
+        ethFeed.address,
+        sequencerUptimeFeed.address,
+        86400n,
+        3600n
+      ]);
+
+      return {
+        mockUSDC,
+        mockToken,
+        usdcFeed,
+        ethFeed,
+        tokenFeed,
+        sequencerUptimeFeed,
+        usdOracle,
+        ethOracle,
+        sequencerOracle,
+      };
+    }
+
+    describe("Deployment", function () {
+      it("Should set the token and the feeds", async function () {
+        const { mockUSDC, usdcFeed, ethFeed, sequencerUptimeFeed, sequencerOracle } = await loadFixture(deployBETRChainlinkOracleFixture);
+
+        expect(await sequencerOracle.read.token()).to.equal(getAddress(mockUSDC.address));
+        expect(await sequencerOracle.read.tokenFeed()).to.equal(getAddress(usdcFeed.address));
+        expect(await sequencerOracle.read.ethFeed()).to.equal(getAddress(ethFeed.address));
+        expect(await sequencerOracle.read.sequencerUptimeFeed()).to.equal(getAddress(sequencerUptimeFeed.address));
+        expect(await sequencerOracle.read.maxStaleness()).to.equal(86400n);
+        expect(await sequencerOracle.read.sequencerGracePeriod()).to.equal(3600n);
+      });
+
+      it("Should revert if the token, the token feed or the maximum staleness is zero", async function () {
+        const { mockUSDC, usdcFeed } = await loadFixture(deployBETRChainlinkOracleFixture);
+        const zeroAddress = "0x0000000000000000000000000000000000000000";
+
+        await expect(hre.viem.deployContract("BETRChainlinkOracle", [zeroAddress, usdcFeed.address, zeroAddress, zeroAddress, 3600n, 0n])).to.be.rejectedWith("InvalidInput");
+        await expect(hre.viem.deployContract("BETRChainlinkOracle", [mockUSDC.address, zeroAddress, zeroAddress, zeroAddress, 3600n, 0n])).to.be.rejectedWith("InvalidInput");
+        await expect(hre.viem.deployContract("BETRChainlinkOracle", [mockUSDC.address, usdcFeed.address, zeroAddress, zeroAddress, 0n, 0n])).to.be.rejectedWith("InvalidInput");
+      });
+    });
+
+    describe("Sequencer Uptime", function () {
+      it("Should revert until the grace period is over", async function () {
+        const { mockUSDC, sequencerOracle } = await loadFixture(deployBETRChainlinkOracleFixture);
+
+        await expect(sequencerOracle.read.getPrice([mockUSDC.address, parseEther("1")])).to.be.rejectedWith("SequencerGracePeriodNotOver");
+
+        await time.increase(3601);
+        expect(await sequencerOracle.read.getPrice([mockUSDC.address, parseEther("1")])).to.equal(parseUnits("4000", 6));
+      });
+
+      it("Should revert while the sequencer is down", async function () {
+        const { mockUSDC, sequencerUptimeFeed, sequencerOracle } = await loadFixture(deployBETRChainlinkOracleFixture);
+
+        await time.increase(3601);
+        const startedAt = BigInt(await time.latest());
+        await sequencerUptimeFeed.write.setRoundData([1n, startedAt, startedAt]);
+        await expect(sequencerOracle.read.getPrice([mockUSDC.address, parseEther("1")])).to.be.rejectedWith("SequencerDown");
+
+        // Coming back up restarts the grace period
+        await sequencerUptimeFeed.write.setAnswer([0n]);
+        await expect(sequencerOracle.read.getPrice([mockUSDC.address, parseEther("1")])).to.be.rejectedWith("SequencerGracePeriodNotOver");
+      });
+    });
+
+    describe("Pricing", function () {
+      it("Should price a token quoted in USD against the ETH/USD feed", async function () {
+        const { mockUSDC, usdOracle } = await loadFixture(deployBETRChainlinkOracleFixture);
+
+        expect(await usdOracle.read.getPrice([mockUSDC.address, parseEther("1")])).to.equal(parseUnits("4000", 6));
+        expect(await usdOracle.read.getPrice([mockUSDC.address, parseEther("0.001")])).to.equal(parseUnits("4", 6));
+      });
+
+      it("Should price a token quoted in ETH", async function () {
+        const { mockToken, ethOracle } = await loadFixture(deployBETRChainlinkOracleFixture);
+
+        expect(await ethOracle.read.getPrice([mockToken.address, parseEther("1")])).to.equal(parseEther("2000"));
+      });
+
+      it("Should follow the feed answers", async function () {
+        const { mockUSDC, usdcFeed, ethFeed, usdOracle } = await loadFixture(deployBETRChainlinkOracleFixture);
+
+        await ethFeed.write.setAnswer([parseUnits("3000", 8)]);
+        await usdcFeed.write.setAnswer([parseUnits("0.5", 8)]);
+
+        expect(await usdOracle.read.getPrice([mockUSDC.address, parseEther("1")])).to.equal(parseUnits("6000", 6));
+      });
+
+      it("Should revert for another token or a zero amount", async function () {
+        const { mockUSDC, mockToken, usdOracle } = await loadFixture(deployBETRChainlinkOracleFixture);
+
+        await expect(usdOracle.read.getPrice([mockToken.address, parseEther("1")])).to.be.rejectedWith("InvalidInput");
+        await expect(usdOracle.read.getPrice([mockUSDC.address, 0n])).to.be.rejectedWith("InvalidInput");
+      });
+
+      it("Should revert if a feed answer is stale", async function () {
+        const { mockUSDC, usdcFeed, ethFeed, usdOracle } = await loadFixture(deployBETRChainlinkOracleFixture);
+
+        await time.increase(3601);
+        await ethFeed.write.setAnswer([parseUnits("4000", 8)]);
+        await expect(usdOracle.read.getPrice([mockUSDC.address, parseEther("1")])).to.be.rejectedWith("StaleFeedAnswer");
+
+        await usdcFeed.write.setAnswer([parseUnits("1", 8)]);
+        expect(await usdOracle.read.getPrice([mockUSDC.address, parseEther("1")])).to.equal(parseUnits("4000", 6));
+
+        await usdcFeed.write.setRoundData([parseUnits("1", 8), 0n, 0n]);
+        await expect(usdOracle.read.getPrice([mockUSDC.address, parseEther("1")])).to.be.rejectedWith("StaleFeedAnswer");
+      });
+
+      it("Should revert if a feed answer is not positive", async function () {
+        const { mockUSDC, usdcFeed, ethFeed, usdOracle } = await loadFixture(deployBETRChainlinkOracleFixture);
+
+        await usdcFeed.write.setAnswer([0n]);
+        await expect(usdOracle.read.getPrice([mockUSDC.address, parseEther("1")])).to.be.rejectedWith("InvalidFeedAnswer");
+
+        await usdcFeed.write.setAnswer([parseUnits("1", 8)]);
+        await ethFeed.write.setAnswer([-1n]);
+        await expect(usdOracle.read.getPrice([mockUSDC.address, parseEther("1")])).to.be.rejectedWith("InvalidFeedAnswer");
+      });
+    });
+  });
+
+  describe("BETRMinPriceOracle", function () {
+    async function deployBETRMinPriceOracleFixture() {
+      const zeroAddress = "0x0000000000000000000000000000000000000000";
+      const mockWETH = await hre.viem.deployContract("MockERC20", ["Wrapped Ether", "WETH", 18]);
+      const mockUSDC = await hre.viem.deployContract("MockERC20", ["USD Coin", "USDC", 6]);
+
+      // The feed and the pool both price ETH at 4000 USDC
+      const usdcFeed = await hre.viem.deployContract("MockAggregatorV3", [8, parseUnits("1", 8)]);
+      const ethFeed = await hre.viem.deployContract("MockAggregatorV3", [8, parseUnits("4000", 8)]);
+      const sqrtPriceX96 = BigInt(mockUSDC.address) < BigInt(mockWETH.address) ? 1252707241875239655932069007848031n : 5010828967500958623728276n;
+      const pool = await hre.viem.deployContract("MockUniswapV3Pool", [mockUSDC.address, mockWETH.address, sqrtPriceX96]);
+
+      const chainlinkOracle = await hre.viem.deployContract("BETRChainlinkOracle", [mockUSDC.address, usdcFeed.address, ethFeed.address, zeroAddress, 3600n, 0n]);
+      const uniswapV3Oracle = await hre.viem.deployContract("BETRUniswapV3Oracle", [mockWETH.address, mockUSDC.address, [pool.address], 0]);
+      const betrMinPriceOracle = await hre.viem.deployContract("BETRMinPriceOracle", [chainlinkOracle.address, uniswapV3Oracle.address]);
+
+      return {
+        mockWETH,
+        mockUSDC,
+        usdcFeed,
+        ethFeed,
+        chainlinkOracle,
+        uniswapV3Oracle,
+        betrMinPriceOracle,
+      };
+    }
+
+    describe("Deployment", function () {
+      it("Should set the oracles", async function () {
+        const { chainlinkOracle, uniswapV3Oracle, betrMinPriceOracle } = await loadFixture(deployBETRMinPriceOracleFixture);
+
+        expect(await betrMinPriceOracle.read.oracleA()).to.equal(getAddress(chainlinkOracle.address));
+        expect(await betrMinPriceOracle.read.oracleB()).to.equal(getAddress(uniswapV3Oracle.address));
+      });
+
+      it("Should revert if an oracle is the zero address or both oracles are the same", async function () {
+        const { chainlinkOracle } = await loadFixture(deployBETRMinPriceOracleFixture);
+        const zeroAddress = "0x0000000000000000000000000000000000000000";
+
+        await expect(hre.viem.deployContract("BETRMinPriceOracle", [zeroAddress, chainlinkOracle.address])).to.be.rejectedWith("InvalidInput");
+        await expect(hre.viem.deployContract("BETRMinPriceOracle", [chainlinkOracle.address, zeroAddress])).to.be.rejectedWith("InvalidInput");
+        await expect(hre.viem.deployContract("BETRMinPriceOracle", [chainlinkOracle.address, chainlinkOracle.address])).to.be.rejectedWith("InvalidInput");
+      });
+    });
+
+    describe("Pricing", function () {
+      it("Should revert if either oracle reverts", async function () {
+        const { mockUSDC, mockWETH, betrMinPriceOracle } = await loadFixture(deployBETRMinPriceOracleFixture);
+
+        await expect(betrMinPriceOracle.read.getPrice([mockWETH.address, parseEther("1")])).to.be.rejectedWith("InvalidInput");
+
+        await time.increase(3601);
+        await expect(betrMinPriceOracle.read.getPrice([mockUSDC.address, parseEther("1")])).to.be.rejectedWith("StaleFeedAnswer");
+      });
+
+      it("Should price the token at the minimum price of the two oracles", async function () {
+        const { mockUSDC, usdcFeed, chainlinkOracle, uniswapV3Oracle, betrMinPriceOracle } = await loadFixture(deployBETRMinPriceOracleFixture);
+
+        const poolPrice = await uniswapV3Oracle.read.getPrice([mockUSDC.address, parseEther("1")]);
+        expect(poolPrice).to.be.closeTo(parseUnits("4000", 6), parseUnits("0.01", 6));
+
+        // A depegged feed values USDC lower, so more USDC is charged
+        await usdcFeed.write.setAnswer([parseUnits("0.8", 8)]);
+        expect(await chainlinkOracle.read.getPrice([mockUSDC.address, parseEther("1")])).to.equal(parseUnits("5000", 6));
+        expect(await betrMinPriceOracle.read.getPrice([mockUSDC.address, parseEther("1")])).to.equal(parseUnits("5000", 6));
+
+        // A feed valuing USDC higher than the pool falls back to the pool price
+        await usdcFeed.write.setAnswer([parseUnits("1.25", 8)]);
+        expect(await betrMinPriceOracle.read.getPrice([mockUSDC.address, parseEther("1")])).to.equal(poolPrice);
+      });
+    });
+  });
+});
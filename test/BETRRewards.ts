@@ -1,9 +1,11 @@
 import {
   loadFixture,
+  time,
 } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
 import { expect } from "chai";
 import hre from "hardhat";
 import { getAddress, parseEther } from "viem";
+import { Signature } from "ethers";
 
 describe("BETRRewards", function () {
   // We define a fixture to reuse the same setup in every test.
@@ -241,18 +243,18 @@ describe("BETRRewards", function () {
       const rewardAmount = parseEther("300");
       expect(await betrRewards.write.addReward([rewardAmount], {
         account: rewarder.account
-      })).to.emit(betrRewards, "RewardAdded").withArgs(rewardAmount);
+      })).to.emit(betrRewards, "RewardAdded").withArgs(mockRewardToken.address, rewardAmount);
 
       // Check claimable rewards
-      const claimable1 = await betrRewards.read.claimable([staker1.account.address]);
-      const claimable2 = await betrRewards.read.claimable([staker2.account.address]);
+      const claimable1 = await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address]);
+      const claimable2 = await betrRewards.read.claimable([mockRewardToken.address, staker2.account.address]);
 
       expect(claimable1).to.equal(parseEther("100")); // 100/300 * 300 = 100
       expect(claimable2).to.equal(parseEther("200")); // 200/300 * 300 = 200
 
       // Check total rewards tracking
-      expect(await betrRewards.read.totalRewardsClaimable()).to.equal(rewardAmount);
-      expect(await betrRewards.read.totalRewardsClaimed()).to.equal(0n);
+      expect(await betrRewards.read.totalRewardsClaimable([mockRewardToken.address])).to.equal(rewardAmount);
+      expect(await betrRewards.read.totalRewardsClaimed([mockRewardToken.address])).to.equal(0n);
     });
 
     it("Should revert if rewarding is paused", async function () {
@@ -310,7 +312,7 @@ describe("BETRRewards", function () {
       })).to.be.rejectedWith("InvalidInput");
     });
 
-    it("Should revert if no staked amount", async function () {
+    it("Should queue the reward if no staked amount", async function () {
       const { betrRewards, betrStaking, mockRewardToken, rewarder, owner } = await loadFixture(deployBETRRewardsFixture);
 
       // Add rewarder to staking contract
@@ -326,72 +328,1342 @@ describe("BETRRewards", function () {
         account: rewarder.account
       });
 
-      // Try to add reward when no one has staked
-      await expect(betrRewards.write.addReward([parseEther("100")], {
+      // Add reward when no one has staked
+      expect(await betrRewards.write.addReward([parseEther("100")], {
+        account: rewarder.account
+      })).to.emit(betrRewards, "RewardQueued").withArgs(mockRewardToken.address, parseEther("100"));
+
+      expect(await betrRewards.read.queuedRewards([mockRewardToken.address])).to.equal(parseEther("100"));
+      expect(await betrRewards.read.totalRewardsClaimable([mockRewardToken.address])).to.equal(parseEther("100"));
+    });
+
+    it("Should handle multiple reward distributions", async function () {
+      const { betrRewards, betrStaking, mockStakingToken, mockRewardToken, staker1, staker2, rewarder, owner } = await loadFixture(deployBETRRewardsFixture);
+
+      // Add rewarder to staking contract
+      await betrStaking.write.addRewarder([betrRewards.address], {
+        account: owner.account
+      });
+
+      // Fund stakers with staking tokens
+      await mockStakingToken.write.mint([staker1.account.address, parseEther("1000")], {
+        account: owner.account
+      });
+      await mockStakingToken.write.mint([staker2.account.address, parseEther("1000")], {
+        account: owner.account
+      });
+
+      // Fund rewarder with reward tokens
+      await mockRewardToken.write.mint([rewarder.account.address, parseEther("1000")], {
+        account: owner.account
+      });
+
+      // Approve tokens
+      await mockStakingToken.write.approve([betrStaking.address, parseEther("1000")], {
+        account: staker1.account
+      });
+      await mockStakingToken.write.approve([betrStaking.address, parseEther("1000")], {
+        account: staker2.account
+      });
+      await mockRewardToken.write.approve([betrRewards.address, parseEther("1000")], {
+        account: rewarder.account
+      });
+
+      // Stake tokens
+      const stake1 = parseEther("100");
+      const stake2 = parseEther("200");
+      await betrStaking.write.stake([stake1], {
+        account: staker1.account
+      });
+      await betrStaking.write.stake([stake2], {
+        account: staker2.account
+      });
+
+      // First reward distribution
+      const reward1 = parseEther("300");
+      await betrRewards.write.addReward([reward1], {
+        account: rewarder.account
+      });
+
+      // Second reward distribution
+      const reward2 = parseEther("150");
+      await betrRewards.write.addReward([reward2], {
+        account: rewarder.account
+      });
+
+      // Check claimable rewards (should be cumulative)
+      const claimable1 = await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address]);
+      const claimable2 = await betrRewards.read.claimable([mockRewardToken.address, staker2.account.address]);
+
+      expect(claimable1).to.equal(parseEther("150")); // (100/300 * 300) + (100/300 * 150) = 100 + 50 = 150
+      expect(claimable2).to.equal(parseEther("300")); // (200/300 * 300) + (200/300 * 150) = 200 + 100 = 300
+    });
+
+    it("Should weight rewards by the effective stake of lock positions", async function () {
+      const { betrRewards, betrStaking, mockStakingToken, mockRewardToken, staker1, staker2, rewarder, owner } = await loadFixture(deployBETRRewardsFixture);
+
+      const thirtyDays = 30n * 24n * 60n * 60n;
+
+      // Add rewarder to staking contract and allow a 2x lock
+      await betrStaking.write.addRewarder([betrRewards.address], {
+        account: owner.account
+      });
+      await betrStaking.write.setLockMultiplier([thirtyDays, 20000n], {
+        account: owner.account
+      });
+
+      // Fund stakers and rewarder
+      await mockStakingToken.write.mint([staker1.account.address, parseEther("1000")], {
+        account: owner.account
+      });
+      await mockStakingToken.write.mint([staker2.account.address, parseEther("1000")], {
+        account: owner.account
+      });
+      await mockRewardToken.write.mint([rewarder.account.address, parseEther("1000")], {
+        account: owner.account
+      });
+
+      // Approve tokens
+      await mockStakingToken.write.approve([betrStaking.address, parseEther("1000")], {
+        account: staker1.account
+      });
+      await mockStakingToken.write.approve([betrStaking.address, parseEther("1000")], {
+        account: staker2.account
+      });
+      await mockRewardToken.write.approve([betrRewards.address, parseEther("1000")], {
+        account: rewarder.account
+      });
+
+      // Staker1 locks, staker2 stakes the same amount without lock
+      await betrStaking.write.stakeLocked([parseEther("100"), thirtyDays], {
+        account: staker1.account
+      });
+      await betrStaking.write.stake([parseEther("100")], {
+        account: staker2.account
+      });
+
+      await betrRewards.write.addReward([parseEther("300")], {
+        account: rewarder.account
+      });
+
+      expect(await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address])).to.equal(parseEther("200"));
+      expect(await betrRewards.read.claimable([mockRewardToken.address, staker2.account.address])).to.equal(parseEther("100"));
+
+      // Rewards accrued while locked are kept after the boost is removed
+      await time.increase(thirtyDays);
+      await betrStaking.write.unlock([staker1.account.address, 0n], {
+        account: staker2.account
+      });
+
+      await betrRewards.write.addReward([parseEther("200")], {
+        account: rewarder.account
+      });
+
+      expect(await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address])).to.equal(parseEther("300"));
+      expect(await betrRewards.read.claimable([mockRewardToken.address, staker2.account.address])).to.equal(parseEther("200"));
+    });
+
+    it("Should count stakes made before the rewarder was added", async function () {
+      const { betrRewards, betrStaking, mockStakingToken, mockRewardToken, staker1, staker2, rewarder, owner } = await loadFixture(deployBETRRewardsFixture);
+
+      for (const staker of [staker1, staker2]) {
+        await mockStakingToken.write.mint([staker.account.address, parseEther("100")], { account: owner.account });
+        await mockStakingToken.write.approve([betrStaking.address, parseEther("100")], { account: staker.account });
+      }
+      await mockRewardToken.write.mint([rewarder.account.address, parseEther("200")], { account: owner.account });
+      await mockRewardToken.write.approve([betrRewards.address, parseEther("200")], { account: rewarder.account });
+
+      await betrStaking.write.stake([parseEther("100")], { account: staker1.account });
+      await betrStaking.write.addRewarder([betrRewards.address], { account: owner.account });
+      await betrStaking.write.stake([parseEther("100")], { account: staker2.account });
+
+      expect(await betrRewards.read.notifiedStakedAmount([staker1.account.address])).to.equal(parseEther("100"));
+      expect(await betrRewards.read.totalNotifiedStakedAmount()).to.equal(parseEther("200"));
+
+      await betrRewards.write.addReward([parseEther("100")], { account: rewarder.account });
+
+      expect(await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address])).to.equal(parseEther("50"));
+      expect(await betrRewards.read.claimable([mockRewardToken.address, staker2.account.address])).to.equal(parseEther("50"));
+
+      // The first notification of an earlier staker starts from the stake it had before
+      await betrStaking.write.unstake([parseEther("100")], { account: staker1.account });
+      await betrRewards.write.addReward([parseEther("100")], { account: rewarder.account });
+
+      await betrRewards.write.claim({ account: staker1.account });
+      await betrRewards.write.claim({ account: staker2.account });
+      expect(await mockRewardToken.read.balanceOf([staker1.account.address])).to.equal(parseEther("50"));
+      expect(await mockRewardToken.read.balanceOf([staker2.account.address])).to.equal(parseEther("150"));
+    });
+
+    it("Should distribute instead of queuing when only earlier stakes exist", async function () {
+      const { betrRewards, betrStaking, mockStakingToken, mockRewardToken, staker1, rewarder, owner } = await loadFixture(deployBETRRewardsFixture);
+
+      await mockStakingToken.write.mint([staker1.account.address, parseEther("100")], { account: owner.account });
+      await mockStakingToken.write.approve([betrStaking.address, parseEther("100")], { account: staker1.account });
+      await mockRewardToken.write.mint([rewarder.account.address, parseEther("100")], { account: owner.account });
+      await mockRewardToken.write.approve([betrRewards.address, parseEther("100")], { account: rewarder.account });
+
+      await betrStaking.write.stake([parseEther("100")], { account: staker1.account });
+      await betrStaking.write.addRewarder([betrRewards.address], { account: owner.account });
+
+      expect(await betrRewards.write.addReward([parseEther("100")], {
+        account: rewarder.account
+      })).to.emit(betrRewards, "RewardAdded").withArgs(mockRewardToken.address, parseEther("100"));
+
+      expect(await betrRewards.read.queuedRewards([mockRewardToken.address])).to.equal(0n);
+      expect(await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address])).to.equal(parseEther("100"));
+    });
+
+    it("Should not count stakes made after the rewarder was removed", async function () {
+      const { betrRewards, betrStaking, mockStakingToken, mockRewardToken, staker1, staker2, rewarder, owner } = await loadFixture(deployBETRRewardsFixture);
+
+      for (const staker of [staker1, staker2]) {
+        await mockStakingToken.write.mint([staker.account.address, parseEther("100")], { account: owner.account });
+        await mockStakingToken.write.approve([betrStaking.address, parseEther("100")], { account: staker.account });
+      }
+      await mockRewardToken.write.mint([rewarder.account.address, parseEther("100")], { account: owner.account });
+      await mockRewardToken.write.approve([betrRewards.address, parseEther("100")], { account: rewarder.account });
+
+      await betrStaking.write.addRewarder([betrRewards.address], { account: owner.account });
+      await betrStaking.write.stake([parseEther("100")], { account: staker1.account });
+      await betrRewards.write.addReward([parseEther("100")], { account: rewarder.account });
+      await betrStaking.write.removeRewarder([betrRewards.address], { account: owner.account });
+
+      await betrStaking.write.stake([parseEther("100")], { account: staker2.account });
+
+      expect(await betrRewards.read.notifiedStakedAmount([staker2.account.address])).to.equal(0n);
+      await expect(betrRewards.write.claim({ account: staker2.account })).to.be.rejectedWith("NoClaimableReward");
+      expect(await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address])).to.equal(parseEther("100"));
+    });
+  });
+
+  describe("Streaming Rewards", function () {
+    async function deployStreamingFixture() {
+      const fixture = await deployBETRRewardsFixture();
+      const { betrRewards, betrStaking, mockStakingToken, mockRewardToken, staker1, staker2, owner } = fixture;
+
+      await betrStaking.write.addRewarder([betrRewards.address], {
+        account: owner.account
+      });
+
+      for (const staker of [staker1, staker2]) {
+        await mockStakingToken.write.mint([staker.account.address, parseEther("1000")], {
+          account: owner.account
+        });
+        await mockStakingToken.write.approve([betrStaking.address, parseEther("1000")], {
+          account: staker.account
+        });
+      }
+
+      await mockRewardToken.write.mint([owner.account.address, parseEther("10000")], {
+        account: owner.account
+      });
+      await mockRewardToken.write.approve([betrRewards.address, parseEther("10000")], {
+        account: owner.account
+      });
+
+      return fixture;
+    }
+
+    it("Should stream rewards over the period", async function () {
+      const { betrRewards, betrStaking, staker1, staker2, owner, mockRewardToken } = await loadFixture(deployStreamingFixture);
+
+      await betrStaking.write.stake([parseEther("100")], { account: staker1.account });
+      await betrStaking.write.stake([parseEther("100")], { account: staker2.account });
+
+      expect(await betrRewards.write.notifyRewardAmount([parseEther("1000"), 1000n], {
+        account: owner.account
+      })).to.emit(betrRewards, "RewardPeriodNotified");
+      const start = BigInt(await time.latest());
+
+      expect(await betrRewards.read.rewardRate([mockRewardToken.address])).to.equal(parseEther("1"));
+      expect(await betrRewards.read.periodFinish([mockRewardToken.address])).to.equal(start + 1000n);
+      expect(await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address])).to.equal(0n);
+
+      await time.increaseTo(start + 500n);
+
+      expect(await betrRewards.read.lastTimeRewardApplicable([mockRewardToken.address])).to.equal(start + 500n);
+      expect(await betrRewards.read.rewardPerToken([mockRewardToken.address])).to.equal(parseEther("2.5"));
+      expect(await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address])).to.equal(parseEther("250"));
+      expect(await betrRewards.read.claimable([mockRewardToken.address, staker2.account.address])).to.equal(parseEther("250"));
+    });
+
+    it("Should stop streaming at the end of the period", async function () {
+      const { betrRewards, betrStaking, mockRewardToken, staker1, owner } = await loadFixture(deployStreamingFixture);
+
+      await betrStaking.write.stake([parseEther("100")], { account: staker1.account });
+      await betrRewards.write.notifyRewardAmount([parseEther("1000"), 1000n], {
+        account: owner.account
+      });
+      const start = BigInt(await time.latest());
+
+      await time.increaseTo(start + 5000n);
+
+      expect(await betrRewards.read.lastTimeRewardApplicable([mockRewardToken.address])).to.equal(start + 1000n);
+      expect(await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address])).to.equal(parseEther("1000"));
+
+      await betrRewards.write.claim({ account: staker1.account });
+      expect(await mockRewardToken.read.balanceOf([staker1.account.address])).to.equal(parseEther("1000"));
+      expect(await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address])).to.equal(0n);
+    });
+
+    it("Should only reward stakers for the time they are staked", async function () {
+      const { betrRewards, betrStaking, staker1, staker2, owner, mockRewardToken } = await loadFixture(deployStreamingFixture);
+
+      await betrStaking.write.stake([parseEther("100")], { account: staker1.account });
+      await betrRewards.write.notifyRewardAmount([parseEther("1000"), 1000n], {
+        account: owner.account
+      });
+      const start = BigInt(await time.latest());
+
+      await time.setNextBlockTimestamp(start + 500n);
+      await betrStaking.write.stake([parseEther("100")], { account: staker2.account });
+
+      expect(await betrRewards.read.claimable([mockRewardToken.address, staker2.account.address])).to.equal(0n);
+
+      await time.increaseTo(start + 1000n);
+
+      expect(await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address])).to.equal(parseEther("750"));
+      expect(await betrRewards.read.claimable([mockRewardToken.address, staker2.account.address])).to.equal(parseEther("250"));
+    });
+
+    it("Should keep earned rewards when unstaking mid-period", async function () {
+      const { betrRewards, betrStaking, staker1, staker2, owner, mockRewardToken } = await loadFixture(deployStreamingFixture);
+
+      await betrStaking.write.stake([parseEther("100")], { account: staker1.account });
+      await betrStaking.write.stake([parseEther("100")], { account: staker2.account });
+      await betrRewards.write.notifyRewardAmount([parseEther("1000"), 1000n], {
+        account: owner.account
+      });
+      const start = BigInt(await time.latest());
+
+      await time.setNextBlockTimestamp(start + 500n);
+      await betrStaking.write.unstake([parseEther("100")], { account: staker2.account });
+
+      await time.increaseTo(start + 1000n);
+
+      expect(await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address])).to.equal(parseEther("750"));
+      expect(await betrRewards.read.claimable([mockRewardToken.address, staker2.account.address])).to.equal(parseEther("250"));
+    });
+
+    it("Should roll over the remaining rewards when a new period is added mid-stream", async function () {
+      const { betrRewards, betrStaking, staker1, owner, mockRewardToken } = await loadFixture(deployStreamingFixture);
+
+      await betrStaking.write.stake([parseEther("100")], { account: staker1.account });
+      await betrRewards.write.notifyRewardAmount([parseEther("1000"), 1000n], {
+        account: owner.account
+      });
+      const start = BigInt(await time.latest());
+
+      await time.setNextBlockTimestamp(start + 500n);
+      await betrRewards.write.notifyRewardAmount([parseEther("500"), 1000n], {
+        account: owner.account
+      });
+
+      expect(await betrRewards.read.rewardRate([mockRewardToken.address])).to.equal(parseEther("1"));
+      expect(await betrRewards.read.periodFinish([mockRewardToken.address])).to.equal(start + 1500n);
+      expect(await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address])).to.equal(parseEther("500"));
+
+      await time.increaseTo(start + 1500n);
+
+      expect(await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address])).to.equal(parseEther("1500"));
+      expect(await betrRewards.read.totalRewardsClaimable([mockRewardToken.address])).to.equal(parseEther("1500"));
+    });
+
+    it("Should combine streamed and instant rewards", async function () {
+      const { betrRewards, betrStaking, mockRewardToken, staker1, owner } = await loadFixture(deployStreamingFixture);
+
+      await betrStaking.write.stake([parseEther("100")], { account: staker1.account });
+      await betrRewards.write.notifyRewardAmount([parseEther("1000"), 1000n], {
+        account: owner.account
+      });
+      const start = BigInt(await time.latest());
+
+      await time.setNextBlockTimestamp(start + 500n);
+      await betrRewards.write.addReward([parseEther("100")], {
+        account: owner.account
+      });
+
+      expect(await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address])).to.equal(parseEther("600"));
+
+      await time.increaseTo(start + 1000n);
+
+      expect(await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address])).to.equal(parseEther("1100"));
+      expect(await mockRewardToken.read.balanceOf([betrRewards.address])).to.equal(parseEther("1100"));
+    });
+
+    it("Should revert notifyRewardAmount with invalid parameters", async function () {
+      const { betrRewards, owner, otherAccount } = await loadFixture(deployStreamingFixture);
+
+      await expect(betrRewards.write.notifyRewardAmount([parseEther("1000"), 1000n], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("NotOwner");
+      await expect(betrRewards.write.notifyRewardAmount([0n, 1000n], {
+        account: owner.account
+      })).to.be.rejectedWith("InvalidInput");
+      await expect(betrRewards.write.notifyRewardAmount([parseEther("1000"), 0n], {
+        account: owner.account
+      })).to.be.rejectedWith("InvalidInput");
+      await expect(betrRewards.write.notifyRewardAmount([999n, 1000n], {
+        account: owner.account
+      })).to.be.rejectedWith("InvalidInput");
+
+      await betrRewards.write.setRewardingPaused([true], {
+        account: owner.account
+      });
+      await expect(betrRewards.write.notifyRewardAmount([parseEther("1000"), 1000n], {
+        account: owner.account
+      })).to.be.rejectedWith("RewardingPaused");
+    });
+
+    it("Should revert notifyRewardAmount if not a rewarder", async function () {
+      const { betrRewards, betrStaking, owner } = await loadFixture(deployStreamingFixture);
+
+      await betrStaking.write.removeRewarder([betrRewards.address], {
+        account: owner.account
+      });
+
+      await expect(betrRewards.write.notifyRewardAmount([parseEther("1000"), 1000n], {
+        account: owner.account
+      })).to.be.rejectedWith("StakingContractNotRewarder");
+    });
+  });
+
+  describe("Multi-Token Rewards", function () {
+    async function deployMultiTokenFixture() {
+      const fixture = await deployBETRRewardsFixture();
+      const { betrRewards, betrStaking, mockStakingToken, mockRewardToken, staker1, staker2, rewarder, owner } = fixture;
+
+      const mockSecondRewardToken = await hre.viem.deployContract("MockERC20", ["Second Reward Token", "RWD2", 18]);
+
+      await betrStaking.write.addRewarder([betrRewards.address], {
+        account: owner.account
+      });
+
+      for (const staker of [staker1, staker2]) {
+        await mockStakingToken.write.mint([staker.account.address, parseEther("1000")], {
+          account: owner.account
+        });
+        await mockStakingToken.write.approve([betrStaking.address, parseEther("1000")], {
+          account: staker.account
+        });
+      }
+
+      for (const token of [mockRewardToken, mockSecondRewardToken]) {
+        await token.write.mint([rewarder.account.address, parseEther("1000")], {
+          account: owner.account
+        });
+        await token.write.approve([betrRewards.address, parseEther("1000")], {
+          account: rewarder.account
+        });
+      }
+
+      return { ...fixture, mockSecondRewardToken };
+    }
+
+    it("Should register the primary reward token on deployment", async function () {
+      const { betrRewards, mockRewardToken } = await loadFixture(deployMultiTokenFixture);
+
+      expect(await betrRewards.read.getRewardTokens()).to.deep.equal([getAddress(mockRewardToken.address)]);
+      expect(await betrRewards.read.isRewardToken([mockRewardToken.address])).to.be.true;
+    });
+
+    it("Should add a reward token", async function () {
+      const { betrRewards, mockRewardToken, mockSecondRewardToken, owner } = await loadFixture(deployMultiTokenFixture);
+
+      expect(await betrRewards.write.addRewardToken([mockSecondRewardToken.address], {
+        account: owner.account
+      })).to.emit(betrRewards, "RewardTokenAdded").withArgs(mockSecondRewardToken.address);
+
+      expect(await betrRewards.read.getRewardTokens()).to.deep.equal([
+        getAddress(mockRewardToken.address),
+        getAddress(mockSecondRewardToken.address)
+      ]);
+      expect(await betrRewards.read.isRewardToken([mockSecondRewardToken.address])).to.be.true;
+    });
+
+    it("Should not add an invalid reward token", async function () {
+      const { betrRewards, mockRewardToken, mockSecondRewardToken, owner, otherAccount } = await loadFixture(deployMultiTokenFixture);
+
+      await expect(betrRewards.write.addRewardToken([mockSecondRewardToken.address], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("NotOwner");
+      await expect(betrRewards.write.addRewardToken(["0x0000000000000000000000000000000000000000"], {
+        account: owner.account
+      })).to.be.rejectedWith("InvalidInput");
+      await expect(betrRewards.write.addRewardToken([mockRewardToken.address], {
+        account: owner.account
+      })).to.be.rejectedWith("InvalidInput");
+    });
+
+    it("Should not add more than the maximum number of reward tokens", async function () {
+      const { betrRewards, owner } = await loadFixture(deployMultiTokenFixture);
+
+      const maxRewardTokens = await betrRewards.read.MAX_REWARD_TOKENS();
+      for (let i = 1n; i < maxRewardTokens; i++) {
+        const token = await hre.viem.deployContract("MockERC20", ["Extra Reward Token", "XRWD", 18]);
+        await betrRewards.write.addRewardToken([token.address], {
+          account: owner.account
+        });
+      }
+
+      const token = await hre.viem.deployContract("MockERC20", ["Extra Reward Token", "XRWD", 18]);
+      await expect(betrRewards.write.addRewardToken([token.address], {
+        account: owner.account
+      })).to.be.rejectedWith("TooManyRewardTokens");
+    });
+
+    it("Should not add a reward of an unregistered token", async function () {
+      const { betrRewards, betrStaking, mockSecondRewardToken, staker1, rewarder } = await loadFixture(deployMultiTokenFixture);
+
+      await betrStaking.write.stake([parseEther("100")], { account: staker1.account });
+
+      await expect(betrRewards.write.addReward([mockSecondRewardToken.address, parseEther("100")], {
+        account: rewarder.account
+      })).to.be.rejectedWith("NotRewardToken");
+    });
+
+    it("Should track rewards separately per token", async function () {
+      const { betrRewards, betrStaking, mockRewardToken, mockSecondRewardToken, staker1, staker2, rewarder, owner } = await loadFixture(deployMultiTokenFixture);
+
+      await betrRewards.write.addRewardToken([mockSecondRewardToken.address], {
+        account: owner.account
+      });
+
+      await betrStaking.write.stake([parseEther("100")], { account: staker1.account });
+      await betrRewards.write.addReward([mockRewardToken.address, parseEther("100")], {
+        account: rewarder.account
+      });
+
+      await betrStaking.write.stake([parseEther("100")], { account: staker2.account });
+      await betrRewards.write.addReward([mockSecondRewardToken.address, parseEther("50")], {
+        account: rewarder.account
+      });
+
+      expect(await betrRewards.read.claimable([staker1.account.address])).to.deep.equal([
+        [getAddress(mockRewardToken.address), getAddress(mockSecondRewardToken.address)],
+        [parseEther("100"), parseEther("25")]
+      ]);
+      expect(await betrRewards.read.claimable([staker2.account.address])).to.deep.equal([
+        [getAddress(mockRewardToken.address), getAddress(mockSecondRewardToken.address)],
+        [0n, parseEther("25")]
+      ]);
+      expect(await betrRewards.read.totalRewardsClaimable([mockRewardToken.address])).to.equal(parseEther("100"));
+      expect(await betrRewards.read.totalRewardsClaimable([mockSecondRewardToken.address])).to.equal(parseEther("50"));
+    });
+
+    it("Should claim a single reward token", async function () {
+      const { betrRewards, betrStaking, mockRewardToken, mockSecondRewardToken, staker1, staker2, rewarder, owner } = await loadFixture(deployMultiTokenFixture);
+
+      await betrRewards.write.addRewardToken([mockSecondRewardToken.address], {
+        account: owner.account
+      });
+
+      await betrStaking.write.stake([parseEther("100")], { account: staker1.account });
+      await betrRewards.write.addReward([mockRewardToken.address, parseEther("100")], {
+        account: rewarder.account
+      });
+      await betrRewards.write.addReward([mockSecondRewardToken.address, parseEther("50")], {
+        account: rewarder.account
+      });
+
+      await betrRewards.write.claim([mockSecondRewardToken.address], { account: staker1.account });
+
+      expect(await mockSecondRewardToken.read.balanceOf([staker1.account.address])).to.equal(parseEther("50"));
+      expect(await mockRewardToken.read.balanceOf([staker1.account.address])).to.equal(0n);
+      expect(await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address])).to.equal(parseEther("100"));
+
+      await expect(betrRewards.write.claim([mockSecondRewardToken.address], {
+        account: staker1.account
+      })).to.be.rejectedWith("NoClaimableReward");
+      await expect(betrRewards.write.claim([mockSecondRewardToken.address], {
+        account: staker2.account
+      })).to.be.rejectedWith("NoClaimableReward");
+      await expect(betrRewards.write.claim([betrStaking.address], {
+        account: staker1.account
+      })).to.be.rejectedWith("NotRewardToken");
+    });
+
+    it("Should claim every reward token at once", async function () {
+      const { betrRewards, betrStaking, mockRewardToken, mockSecondRewardToken, staker1, staker2, rewarder, owner } = await loadFixture(deployMultiTokenFixture);
+
+      await betrRewards.write.addRewardToken([mockSecondRewardToken.address], {
+        account: owner.account
+      });
+
+      await betrStaking.write.stake([parseEther("100")], { account: staker1.account });
+      await betrRewards.write.addReward([mockRewardToken.address, parseEther("100")], {
+        account: rewarder.account
+      });
+      await betrRewards.write.addReward([mockSecondRewardToken.address, parseEther("50")], {
+        account: rewarder.account
+      });
+
+      await betrRewards.write.claimAll({ account: staker1.account });
+
+      expect(await mockRewardToken.read.balanceOf([staker1.account.address])).to.equal(parseEther("100"));
+      expect(await mockSecondRewardToken.read.balanceOf([staker1.account.address])).to.equal(parseEther("50"));
+      expect(await betrRewards.read.totalRewardsClaimed([mockSecondRewardToken.address])).to.equal(parseEther("50"));
+
+      await expect(betrRewards.write.claimAll({
+        account: staker1.account
+      })).to.be.rejectedWith("NoClaimableReward");
+      await expect(betrRewards.write.claimAll({
+        account: staker2.account
+      })).to.be.rejectedWith("NoClaimableReward");
+
+      await betrRewards.write.setRewardingPaused([true], {
+        account: owner.account
+      });
+      await expect(betrRewards.write.claimAll({
+        account: staker1.account
+      })).to.be.rejectedWith("RewardingPaused");
+    });
+
+    it("Should keep per-token rewards across stake changes", async function () {
+      const { betrRewards, betrStaking, mockRewardToken, mockSecondRewardToken, staker1, staker2, rewarder, owner } = await loadFixture(deployMultiTokenFixture);
+
+      await betrRewards.write.addRewardToken([mockSecondRewardToken.address], {
+        account: owner.account
+      });
+
+      await betrStaking.write.stake([parseEther("100")], { account: staker1.account });
+      await betrStaking.write.stake([parseEther("100")], { account: staker2.account });
+      await betrRewards.write.addReward([mockRewardToken.address, parseEther("100")], {
+        account: rewarder.account
+      });
+
+      await betrStaking.write.unstake([parseEther("100")], { account: staker2.account });
+      await betrRewards.write.addReward([mockSecondRewardToken.address, parseEther("100")], {
+        account: rewarder.account
+      });
+
+      await betrRewards.write.batchClaim([[staker1.account.address, staker2.account.address]], {
+        account: owner.account
+      });
+
+      expect(await mockRewardToken.read.balanceOf([staker1.account.address])).to.equal(parseEther("50"));
+      expect(await mockSecondRewardToken.read.balanceOf([staker1.account.address])).to.equal(parseEther("100"));
+      expect(await mockRewardToken.read.balanceOf([staker2.account.address])).to.equal(parseEther("50"));
+      expect(await mockSecondRewardToken.read.balanceOf([staker2.account.address])).to.equal(0n);
+    });
+
+    it("Should stream rewards of a secondary token", async function () {
+      const { betrRewards, betrStaking, mockSecondRewardToken, staker1, rewarder, owner } = await loadFixture(deployMultiTokenFixture);
+
+      await betrRewards.write.addRewardToken([mockSecondRewardToken.address], {
+        account: owner.account
+      });
+      await mockSecondRewardToken.write.transfer([owner.account.address, parseEther("1000")], {
+        account: rewarder.account
+      });
+      await mockSecondRewardToken.write.approve([betrRewards.address, parseEther("1000")], {
+        account: owner.account
+      });
+
+      await betrStaking.write.stake([parseEther("100")], { account: staker1.account });
+      await betrRewards.write.notifyRewardAmount([mockSecondRewardToken.address, parseEther("1000"), 1000n], {
+        account: owner.account
+      });
+      const start = BigInt(await time.latest());
+
+      await time.increaseTo(start + 250n);
+
+      expect(await betrRewards.read.claimable([mockSecondRewardToken.address, staker1.account.address])).to.equal(parseEther("250"));
+      expect(await betrRewards.read.rewardRate([mockSecondRewardToken.address])).to.equal(parseEther("1"));
+    });
+    it("Should process stake changes with the maximum number of reward tokens within the rewarder gas limit", async function () {
+      const { betrRewards, betrStaking, mockRewardToken, staker1, staker2, rewarder, owner } = await loadFixture(deployMultiTokenFixture);
+
+      const tokens = [mockRewardToken];
+      while (tokens.length < Number(await betrRewards.read.MAX_REWARD_TOKENS())) {
+        const token = await hre.viem.deployContract("MockERC20", [`Reward Token ${tokens.length}`, `RWD${tokens.length}`, 18]);
+        await betrRewards.write.addRewardToken([token.address], {
+          account: owner.account
+        });
+        tokens.push(token);
+      }
+      // Quarantine on the first failure so an out-of-gas notification is caught
+      await betrStaking.write.setMaxRewarderFailures([1n], {
+        account: owner.account
+      });
+
+      // Queue and stream every reward token while nothing is staked
+      for (const token of tokens) {
+        await token.write.mint([rewarder.account.address, parseEther("2000")], {
+          account: owner.account
+        });
+        await token.write.approve([betrRewards.address, parseEther("2000")], {
+          account: rewarder.account
+        });
+        await betrRewards.write.addReward([token.address, parseEther("100")], {
+          account: rewarder.account
+        });
+        await token.write.transfer([owner.account.address, parseEther("1000")], {
+          account: rewarder.account
+        });
+        await token.write.approve([betrRewards.address, parseEther("1000")], {
+          account: owner.account
+        });
+        await betrRewards.write.notifyRewardAmount([token.address, parseEther("1000"), 86400n], {
+          account: owner.account
+        });
+      }
+
+      // An uneven stake also records rounding dust for every token
+      for (const staker of [staker1, staker2]) {
+        await time.increase(3600);
+        await betrStaking.write.stake([parseEther("100") + 7n], {
+          account: staker.account
+        });
+      }
+
+      expect(await betrStaking.read.isRewarderQuarantined([betrRewards.address])).to.be.false;
+      expect(await betrStaking.read.rewarderFailureCount([betrRewards.address])).to.equal(0n);
+      expect(await betrRewards.read.notifiedStakedAmount([staker2.account.address])).to.equal(parseEther("100") + 7n);
+    });
+  });
+
+  describe("Claim To and By Signature", function () {
+    async function deployClaimToFixture() {
+      const fixture = await deployBETRRewardsFixture();
+      const { betrRewards, betrStaking, mockStakingToken, mockRewardToken, staker1, rewarder, owner } = fixture;
+
+      await betrStaking.write.addRewarder([betrRewards.address], {
+        account: owner.account
+      });
+      await mockStakingToken.write.mint([staker1.account.address, parseEther("1000")], {
+        account: owner.account
+      });
+      await mockStakingToken.write.approve([betrStaking.address, parseEther("1000")], {
+        account: staker1.account
+      });
+      await mockRewardToken.write.mint([rewarder.account.address, parseEther("1000")], {
+        account: owner.account
+      });
+      await mockRewardToken.write.approve([betrRewards.address, parseEther("1000")], {
+        account: rewarder.account
+      });
+
+      await betrStaking.write.stake([parseEther("100")], { account: staker1.account });
+      await betrRewards.write.addReward([parseEther("100")], { account: rewarder.account });
+
+      return fixture;
+    }
+
+    async function signClaim(
+      betrRewards: { address: `0x${string}`, read: { nonces: (args: [`0x${string}`]) => Promise<bigint> } },
+      signer: Awaited<ReturnType<typeof hre.viem.getWalletClients>>[number],
+      recipient: `0x${string}`,
+      deadline: bigint
+    ) {
+      const publicClient = await hre.viem.getPublicClient();
+      const signature = await signer.signTypedData({
+        domain: {
+          name: "BETRRewards",
+          version: "1",
+          chainId: await publicClient.getChainId(),
+          verifyingContract: betrRewards.address,
+        },
+        types: {
+          Claim: [
+            { name: "user", type: "address" },
+            { name: "recipient", type: "address" },
+            { name: "nonce", type: "uint256" },
+            { name: "deadline", type: "uint256" },
+          ],
+        },
+        primaryType: "Claim",
+        message: {
+          user: signer.account.address,
+          recipient,
+          nonce: await betrRewards.read.nonces([signer.account.address]),
+          deadline,
+        },
+      });
+      const { v, r, s } = Signature.from(signature);
+      return { v, r: r as `0x${string}`, s: s as `0x${string}` };
+    }
+
+    it("Should claim rewards to a recipient", async function () {
+      const { betrRewards, mockRewardToken, staker1, user } = await loadFixture(deployClaimToFixture);
+
+      expect(await betrRewards.write.claimTo([user.account.address], {
+        account: staker1.account
+      })).to.emit(betrRewards, "RewardClaimed").withArgs(staker1.account.address, mockRewardToken.address, user.account.address, parseEther("100"));
+
+      expect(await mockRewardToken.read.balanceOf([user.account.address])).to.equal(parseEther("100"));
+      expect(await mockRewardToken.read.balanceOf([staker1.account.address])).to.equal(0n);
+      expect(await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address])).to.equal(0n);
+    });
+
+    it("Should not claim rewards to an invalid recipient", async function () {
+      const { betrRewards, staker1, user, owner } = await loadFixture(deployClaimToFixture);
+
+      await expect(betrRewards.write.claimTo(["0x0000000000000000000000000000000000000000"], {
+        account: staker1.account
+      })).to.be.rejectedWith("InvalidInput");
+      await expect(betrRewards.write.claimTo([staker1.account.address], {
+        account: user.account
+      })).to.be.rejectedWith("NoClaimableReward");
+
+      await betrRewards.write.setRewardingPaused([true], { account: owner.account });
+      await expect(betrRewards.write.claimTo([user.account.address], {
+        account: staker1.account
+      })).to.be.rejectedWith("RewardingPaused");
+    });
+
+    it("Should claim rewards by signature through a relayer", async function () {
+      const { betrRewards, mockRewardToken, staker1, user, otherAccount } = await loadFixture(deployClaimToFixture);
+
+      const deadline = BigInt(await time.latest()) + 3600n;
+      const { v, r, s } = await signClaim(betrRewards, staker1, user.account.address, deadline);
+
+      await betrRewards.write.claimBySig([staker1.account.address, user.account.address, deadline, v, r, s], {
+        account: otherAccount.account
+      });
+
+      expect(await mockRewardToken.read.balanceOf([user.account.address])).to.equal(parseEther("100"));
+      expect(await betrRewards.read.nonces([staker1.account.address])).to.equal(1n);
+    });
+
+    it("Should not replay a claim signature", async function () {
+      const { betrRewards, staker1, user, rewarder, otherAccount } = await loadFixture(deployClaimToFixture);
+
+      const deadline = BigInt(await time.latest()) + 3600n;
+      const { v, r, s } = await signClaim(betrRewards, staker1, user.account.address, deadline);
+      await betrRewards.write.claimBySig([staker1.account.address, user.account.address, deadline, v, r, s], {
+        account: otherAccount.account
+      });
+
+      await betrRewards.write.addReward([parseEther("100")], { account: rewarder.account });
+
+      await expect(betrRewards.write.claimBySig([staker1.account.address, user.account.address, deadline, v, r, s], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("InvalidSigner");
+    });
+
+    it("Should not claim by signature with another recipient or signer", async function () {
+      const { betrRewards, staker1, user, otherAccount } = await loadFixture(deployClaimToFixture);
+
+      const deadline = BigInt(await time.latest()) + 3600n;
+      const { v, r, s } = await signClaim(betrRewards, staker1, user.account.address, deadline);
+      await expect(betrRewards.write.claimBySig([staker1.account.address, otherAccount.account.address, deadline, v, r, s], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("InvalidSigner");
+
+      const otherSig = await signClaim(betrRewards, user, user.account.address, deadline);
+      await expect(betrRewards.write.claimBySig([staker1.account.address, user.account.address, deadline, otherSig.v, otherSig.r, otherSig.s], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("InvalidSigner");
+    });
+
+    it("Should not claim by signature after the deadline", async function () {
+      const { betrRewards, staker1, user, otherAccount } = await loadFixture(deployClaimToFixture);
+
+      const deadline = BigInt(await time.latest()) - 1n;
+      const { v, r, s } = await signClaim(betrRewards, staker1, user.account.address, deadline);
+
+      await expect(betrRewards.write.claimBySig([staker1.account.address, user.account.address, deadline, v, r, s], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("SignatureExpired");
+    });
+  });
+
+  describe("Compounding", function () {
+    async function deployCompoundingFixture() {
+      const fixture = await deployBETRRewardsFixture();
+      const { betrStaking, mockStakingToken, staker1, staker2, rewarder, owner } = fixture;
+
+      // Reward in the staking token, as in production
+      const betrRewards = await hre.viem.deployContract("BETRRewards", [owner.account.address, betrStaking.address, mockStakingToken.address]);
+      await betrStaking.write.addRewarder([betrRewards.address], {
+        account: owner.account
+      });
+
+      for (const account of [staker1, staker2, rewarder]) {
+        await mockStakingToken.write.mint([account.account.address, parseEther("1000")], {
+          account: owner.account
+        });
+      }
+      for (const staker of [staker1, staker2]) {
+        await mockStakingToken.write.approve([betrStaking.address, parseEther("1000")], {
+          account: staker.account
+        });
+      }
+      await mockStakingToken.write.approve([betrRewards.address, parseEther("1000")], {
         account: rewarder.account
-      })).to.be.rejectedWith("NoStakedAmount");
+      });
+
+      return { ...fixture, betrRewards };
+    }
+
+    it("Should compound the pending reward into the stake", async function () {
+      const { betrRewards, betrStaking, mockStakingToken, staker1, staker2, rewarder } = await loadFixture(deployCompoundingFixture);
+
+      await betrStaking.write.stake([parseEther("100")], { account: staker1.account });
+      await betrStaking.write.stake([parseEther("100")], { account: staker2.account });
+      await betrRewards.write.addReward([parseEther("100")], { account: rewarder.account });
+
+      expect(await betrRewards.write.compound({
+        account: staker1.account
+      })).to.emit(betrRewards, "RewardCompounded").withArgs(staker1.account.address, parseEther("50"));
+
+      expect(await betrStaking.read.stakedAmount([staker1.account.address])).to.equal(parseEther("150"));
+      expect(await betrRewards.read.claimable([mockStakingToken.address, staker1.account.address])).to.equal(0n);
+      expect(await betrRewards.read.claimable([mockStakingToken.address, staker2.account.address])).to.equal(parseEther("50"));
+      expect(await betrRewards.read.totalRewardsClaimed([mockStakingToken.address])).to.equal(parseEther("50"));
+      expect(await mockStakingToken.read.balanceOf([betrRewards.address])).to.equal(parseEther("50"));
+
+      // The compounded stake earns rewards from now on
+      await betrRewards.write.addReward([parseEther("250")], { account: rewarder.account });
+
+      expect(await betrRewards.read.claimable([mockStakingToken.address, staker1.account.address])).to.equal(parseEther("150"));
+      expect(await betrRewards.read.claimable([mockStakingToken.address, staker2.account.address])).to.equal(parseEther("150"));
     });
 
-    it("Should handle multiple reward distributions", async function () {
-      const { betrRewards, betrStaking, mockStakingToken, mockRewardToken, staker1, staker2, rewarder, owner } = await loadFixture(deployBETRRewardsFixture);
+    it("Should compound streamed rewards", async function () {
+      const { betrRewards, betrStaking, mockStakingToken, staker1, rewarder, owner } = await loadFixture(deployCompoundingFixture);
+
+      await mockStakingToken.write.transfer([owner.account.address, parseEther("1000")], {
+        account: rewarder.account
+      });
+      await mockStakingToken.write.approve([betrRewards.address, parseEther("1000")], {
+        account: owner.account
+      });
+
+      await betrStaking.write.stake([parseEther("100")], { account: staker1.account });
+      await betrRewards.write.notifyRewardAmount([parseEther("1000"), 1000n], { account: owner.account });
+      const start = BigInt(await time.latest());
+
+      await time.setNextBlockTimestamp(start + 100n);
+      await betrRewards.write.compound({ account: staker1.account });
+
+      expect(await betrStaking.read.stakedAmount([staker1.account.address])).to.equal(parseEther("200"));
+      expect(await betrRewards.read.claimable([mockStakingToken.address, staker1.account.address])).to.equal(0n);
+
+      await time.increaseTo(start + 1000n);
+
+      expect(await betrRewards.read.claimable([mockStakingToken.address, staker1.account.address])).to.equal(parseEther("900"));
+    });
+
+    it("Should not compound without a pending reward", async function () {
+      const { betrRewards, betrStaking, staker1, owner } = await loadFixture(deployCompoundingFixture);
+
+      await betrStaking.write.stake([parseEther("100")], { account: staker1.account });
+
+      await expect(betrRewards.write.compound({
+        account: staker1.account
+      })).to.be.rejectedWith("NoClaimableReward");
+
+      await betrRewards.write.setRewardingPaused([true], { account: owner.account });
+      await expect(betrRewards.write.compound({
+        account: staker1.account
+      })).to.be.rejectedWith("RewardingPaused");
+    });
+
+    it("Should not compound when the staking token is not a reward token", async function () {
+      const { betrRewards, betrStaking, mockStakingToken, mockRewardToken, staker1, owner } = await loadFixture(deployBETRRewardsFixture);
+
+      await betrStaking.write.addRewarder([betrRewards.address], { account: owner.account });
+
+      await expect(betrRewards.write.compound({
+        account: staker1.account
+      })).to.be.rejectedWith("NotRewardToken");
+
+      expect(await betrRewards.read.rewardToken()).to.equal(getAddress(mockRewardToken.address));
+      expect(await betrRewards.read.isRewardToken([mockStakingToken.address])).to.be.false;
+    });
+
+    it("Should batch compound and skip users without a pending reward", async function () {
+      const { betrRewards, betrStaking, staker1, staker2, rewarder, owner, otherAccount } = await loadFixture(deployCompoundingFixture);
+
+      await betrStaking.write.stake([parseEther("100")], { account: staker1.account });
+      await betrStaking.write.stake([parseEther("300")], { account: staker2.account });
+      await betrRewards.write.addReward([parseEther("200")], { account: rewarder.account });
+
+      const users = [staker1.account.address, staker2.account.address, otherAccount.account.address];
+      await expect(betrRewards.write.batchCompound([users], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("NotOwner");
+
+      await betrRewards.write.batchCompound([users], { account: owner.account });
+
+      expect(await betrStaking.read.stakedAmount([staker1.account.address])).to.equal(parseEther("150"));
+      expect(await betrStaking.read.stakedAmount([staker2.account.address])).to.equal(parseEther("450"));
+      expect(await betrStaking.read.stakedAmount([otherAccount.account.address])).to.equal(0n);
+      expect(await betrStaking.read.totalStakedAmount()).to.equal(parseEther("600"));
+    });
+  });
+
+  describe("Unallocated Rewards", function () {
+    async function deployUnallocatedFixture() {
+      const fixture = await deployBETRRewardsFixture();
+      const { betrRewards, betrStaking, mockStakingToken, mockRewardToken, staker1, staker2, owner } = fixture;
 
-      // Add rewarder to staking contract
       await betrStaking.write.addRewarder([betrRewards.address], {
         account: owner.account
       });
 
-      // Fund stakers with staking tokens
-      await mockStakingToken.write.mint([staker1.account.address, parseEther("1000")], {
+      for (const staker of [staker1, staker2]) {
+        await mockStakingToken.write.mint([staker.account.address, parseEther("1000")], {
+          account: owner.account
+        });
+        await mockStakingToken.write.approve([betrStaking.address, parseEther("1000")], {
+          account: staker.account
+        });
+      }
+
+      await mockRewardToken.write.mint([owner.account.address, parseEther("10000")], {
         account: owner.account
       });
-      await mockStakingToken.write.mint([staker2.account.address, parseEther("1000")], {
+      await mockRewardToken.write.approve([betrRewards.address, parseEther("10000")], {
         account: owner.account
       });
 
-      // Fund rewarder with reward tokens
-      await mockRewardToken.write.mint([rewarder.account.address, parseEther("1000")], {
+      return fixture;
+    }
+
+    it("Should carry the precision remainder into the next distribution", async function () {
+      const { betrRewards, betrStaking, mockRewardToken, staker1, staker2, owner } = await loadFixture(deployUnallocatedFixture);
+
+      await betrStaking.write.stake([parseEther("1")], { account: staker1.account });
+      await betrStaking.write.stake([parseEther("2")], { account: staker2.account });
+
+      await betrRewards.write.addReward([1n], { account: owner.account });
+
+      expect(await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address])).to.equal(0n);
+      expect(await betrRewards.read.claimable([mockRewardToken.address, staker2.account.address])).to.equal(0n);
+      expect(await betrRewards.read.rewardRemainder([mockRewardToken.address])).to.equal(parseEther("1"));
+      expect(await betrRewards.read.unallocatedRewards([mockRewardToken.address])).to.equal(0n);
+
+      await betrRewards.write.addReward([2n], { account: owner.account });
+
+      expect(await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address])).to.equal(1n);
+      expect(await betrRewards.read.claimable([mockRewardToken.address, staker2.account.address])).to.equal(2n);
+      expect(await betrRewards.read.rewardRemainder([mockRewardToken.address])).to.equal(0n);
+    });
+
+    it("Should carry the reward rate remainder of a period", async function () {
+      const { betrRewards, betrStaking, mockRewardToken, staker1, owner } = await loadFixture(deployUnallocatedFixture);
+
+      await betrStaking.write.stake([parseEther("1")], { account: staker1.account });
+      await betrRewards.write.notifyRewardAmount([1000n, 3n], { account: owner.account });
+
+      expect(await betrRewards.read.rewardRate([mockRewardToken.address])).to.equal(333n);
+
+      await time.increase(10);
+
+      expect(await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address])).to.equal(1000n);
+    });
+
+    it("Should release rewards streamed while nothing was staked", async function () {
+      const { betrRewards, betrStaking, mockRewardToken, staker1, owner, otherAccount } = await loadFixture(deployUnallocatedFixture);
+
+      await betrRewards.write.notifyRewardAmount([parseEther("1000"), 1000n], { account: owner.account });
+      const start = BigInt(await time.latest());
+
+      await time.setNextBlockTimestamp(start + 400n);
+      await betrStaking.write.stake([parseEther("100")], { account: staker1.account });
+
+      await time.increaseTo(start + 1000n);
+
+      expect(await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address])).to.equal(parseEther("600"));
+      expect(await betrRewards.read.unallocatedRewards([mockRewardToken.address])).to.equal(parseEther("400"));
+
+      expect(await betrRewards.write.sweepUnallocated([mockRewardToken.address, otherAccount.account.address], {
+        account: owner.account
+      })).to.emit(betrRewards, "UnallocatedRewardsSwept").withArgs(mockRewardToken.address, otherAccount.account.address, parseEther("400"));
+
+      expect(await mockRewardToken.read.balanceOf([otherAccount.account.address])).to.equal(parseEther("400"));
+      expect(await betrRewards.read.unallocatedRewards([mockRewardToken.address])).to.equal(0n);
+      expect(await betrRewards.read.totalRewardsClaimable([mockRewardToken.address])).to.equal(parseEther("600"));
+
+      await betrRewards.write.claim({ account: staker1.account });
+      expect(await mockRewardToken.read.balanceOf([staker1.account.address])).to.equal(parseEther("600"));
+    });
+
+    it("Should sweep tokens sent directly to the contract but not owed rewards", async function () {
+      const { betrRewards, betrStaking, mockRewardToken, staker1, owner, otherAccount } = await loadFixture(deployUnallocatedFixture);
+
+      await betrStaking.write.stake([parseEther("100")], { account: staker1.account });
+      await betrRewards.write.addReward([parseEther("100")], { account: owner.account });
+
+      await expect(betrRewards.write.sweepUnallocated([mockRewardToken.address, otherAccount.account.address], {
+        account: owner.account
+      })).to.be.rejectedWith("NoUnallocatedRewards");
+
+      await mockRewardToken.write.transfer([betrRewards.address, parseEther("5")], { account: owner.account });
+      await betrRewards.write.sweepUnallocated([mockRewardToken.address, otherAccount.account.address], {
         account: owner.account
       });
 
-      // Approve tokens
-      await mockStakingToken.write.approve([betrStaking.address, parseEther("1000")], {
-        account: staker1.account
+      expect(await mockRewardToken.read.balanceOf([otherAccount.account.address])).to.equal(parseEther("5"));
+      expect(await mockRewardToken.read.balanceOf([betrRewards.address])).to.equal(parseEther("100"));
+      expect(await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address])).to.equal(parseEther("100"));
+    });
+
+    it("Should not sweep the remaining rewards of a running period", async function () {
+      const { betrRewards, betrStaking, mockRewardToken, staker1, owner, otherAccount } = await loadFixture(deployUnallocatedFixture);
+
+      await betrStaking.write.stake([parseEther("100")], { account: staker1.account });
+      await betrRewards.write.notifyRewardAmount([parseEther("1000"), 1000n], { account: owner.account });
+
+      await time.increase(500);
+
+      await expect(betrRewards.write.sweepUnallocated([mockRewardToken.address, otherAccount.account.address], {
+        account: owner.account
+      })).to.be.rejectedWith("NoUnallocatedRewards");
+    });
+
+    it("Should release the rounding dust of stake changes", async function () {
+      const { betrRewards, betrStaking, mockRewardToken, staker1, staker2, owner, otherAccount } = await loadFixture(deployUnallocatedFixture);
+
+      await betrStaking.write.stake([1n], { account: staker1.account });
+      await betrStaking.write.stake([3n], { account: staker2.account });
+
+      await betrRewards.write.addReward([2n], { account: owner.account });
+
+      expect(await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address])).to.equal(0n);
+      expect(await betrRewards.read.claimable([mockRewardToken.address, staker2.account.address])).to.equal(1n);
+      expect(await betrRewards.read.unallocatedRewards([mockRewardToken.address])).to.equal(0n);
+
+      await betrStaking.write.unstake([1n], { account: staker1.account });
+      expect(await betrRewards.read.roundingDust([mockRewardToken.address])).to.equal(parseEther("0.5"));
+      expect(await betrRewards.read.unallocatedRewards([mockRewardToken.address])).to.equal(0n);
+
+      await betrStaking.write.unstake([3n], { account: staker2.account });
+      expect(await betrRewards.read.roundingDust([mockRewardToken.address])).to.equal(0n);
+      expect(await betrRewards.read.totalRewardsClaimable([mockRewardToken.address])).to.equal(1n);
+      expect(await betrRewards.read.unallocatedRewards([mockRewardToken.address])).to.equal(1n);
+
+      await betrRewards.write.sweepUnallocated([mockRewardToken.address, otherAccount.account.address], {
+        account: owner.account
       });
-      await mockStakingToken.write.approve([betrStaking.address, parseEther("1000")], {
-        account: staker2.account
+      await betrRewards.write.claim({ account: staker2.account });
+
+      expect(await mockRewardToken.read.balanceOf([otherAccount.account.address])).to.equal(1n);
+      expect(await mockRewardToken.read.balanceOf([betrRewards.address])).to.equal(0n);
+      expect(await betrRewards.read.totalRewardsClaimable([mockRewardToken.address])).to.equal(0n);
+    });
+
+    it("Should release the queued rewards and the rest of the period once removed as a rewarder", async function () {
+      const { betrRewards, betrStaking, mockRewardToken, staker1, owner, otherAccount } = await loadFixture(deployUnallocatedFixture);
+
+      await betrRewards.write.setQueuedRewardsDuration([1000n], { account: owner.account });
+      await betrRewards.write.addReward([parseEther("100")], { account: owner.account });
+      await betrRewards.write.notifyRewardAmount([parseEther("1000"), 1000n], { account: owner.account });
+      const start = BigInt(await time.latest());
+
+      await time.setNextBlockTimestamp(start + 400n);
+      await betrStaking.write.stake([parseEther("100")], { account: staker1.account });
+      await time.setNextBlockTimestamp(start + 500n);
+      await betrStaking.write.unstake([parseEther("100")], { account: staker1.account });
+
+      await betrRewards.write.addReward([parseEther("50")], { account: owner.account });
+      await betrStaking.write.removeRewarder([betrRewards.address], { account: owner.account });
+
+      // The queued reward and the rest of the period can no longer reach any staker
+      await time.setNextBlockTimestamp(start + 600n);
+      expect(await betrRewards.write.sweepUnallocated([mockRewardToken.address, otherAccount.account.address], {
+        account: owner.account
+      })).to.emit(betrRewards, "UnallocatedRewardsSwept").withArgs(mockRewardToken.address, otherAccount.account.address, parseEther("1080"));
+
+      expect(await mockRewardToken.read.balanceOf([otherAccount.account.address])).to.equal(parseEther("1080"));
+      expect(await betrRewards.read.queuedRewards([mockRewardToken.address])).to.equal(0n);
+      expect(await betrRewards.read.periodFinish([mockRewardToken.address])).to.equal(start + 600n);
+      expect(await betrRewards.read.totalRewardsClaimable([mockRewardToken.address])).to.equal(parseEther("70"));
+
+      await time.increase(1000);
+      expect(await betrRewards.read.unallocatedRewards([mockRewardToken.address])).to.equal(0n);
+
+      await betrRewards.write.claim({ account: staker1.account });
+      expect(await mockRewardToken.read.balanceOf([staker1.account.address])).to.equal(parseEther("70"));
+    });
+
+    it("Should not sweep with invalid parameters", async function () {
+      const { betrRewards, mockRewardToken, owner, otherAccount } = await loadFixture(deployUnallocatedFixture);
+
+      await mockRewardToken.write.transfer([betrRewards.address, parseEther("5")], { account: owner.account });
+
+      await expect(betrRewards.write.sweepUnallocated([mockRewardToken.address, otherAccount.account.address], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("NotOwner");
+      await expect(betrRewards.write.sweepUnallocated([mockRewardToken.address, "0x0000000000000000000000000000000000000000"], {
+        account: owner.account
+      })).to.be.rejectedWith("InvalidInput");
+    });
+  });
+
+  describe("Reward Queue", function () {
+    async function deployQueueFixture() {
+      const fixture = await deployBETRRewardsFixture();
+      const { betrRewards, betrStaking, mockStakingToken, mockRewardToken, staker1, staker2, rewarder, owner } = fixture;
+
+      await betrStaking.write.addRewarder([betrRewards.address], {
+        account: owner.account
+      });
+
+      for (const staker of [staker1, staker2]) {
+        await mockStakingToken.write.mint([staker.account.address, parseEther("1000")], {
+          account: owner.account
+        });
+        await mockStakingToken.write.approve([betrStaking.address, parseEther("1000")], {
+          account: staker.account
+        });
+      }
+
+      await mockRewardToken.write.mint([rewarder.account.address, parseEther("1000")], {
+        account: owner.account
       });
       await mockRewardToken.write.approve([betrRewards.address, parseEther("1000")], {
         account: rewarder.account
       });
+      await betrRewards.write.setQueuedRewardsDuration([1000n], {
+        account: owner.account
+      });
 
-      // Stake tokens
-      const stake1 = parseEther("100");
-      const stake2 = parseEther("200");
-      await betrStaking.write.stake([stake1], {
+      return fixture;
+    }
+
+    it("Should stream queued rewards to the first stakers", async function () {
+      const { betrRewards, betrStaking, mockRewardToken, staker1, staker2, rewarder } = await loadFixture(deployQueueFixture);
+
+      await betrRewards.write.addReward([parseEther("100")], { account: rewarder.account });
+      expect(await betrRewards.read.queuedRewards([mockRewardToken.address])).to.equal(parseEther("100"));
+
+      expect(await betrStaking.write.stake([parseEther("50")], {
         account: staker1.account
-      });
-      await betrStaking.write.stake([stake2], {
-        account: staker2.account
-      });
+      })).to.emit(betrRewards, "QueuedRewardsReleased").withArgs(mockRewardToken.address, parseEther("100"));
+      const start = BigInt(await time.latest());
 
-      // First reward distribution
-      const reward1 = parseEther("300");
-      await betrRewards.write.addReward([reward1], {
-        account: rewarder.account
-      });
+      expect(await betrRewards.read.queuedRewards([mockRewardToken.address])).to.equal(0n);
+      expect(await betrRewards.read.rewardRate([mockRewardToken.address])).to.equal(parseEther("0.1"));
+      expect(await betrRewards.read.periodFinish([mockRewardToken.address])).to.equal(start + 1000n);
 
-      // Second reward distribution
-      const reward2 = parseEther("150");
-      await betrRewards.write.addReward([reward2], {
-        account: rewarder.account
-      });
+      await time.setNextBlockTimestamp(start + 500n);
+      await betrStaking.write.stake([parseEther("50")], { account: staker2.account });
 
-      // Check claimable rewards (should be cumulative)
-      const claimable1 = await betrRewards.read.claimable([staker1.account.address]);
-      const claimable2 = await betrRewards.read.claimable([staker2.account.address]);
+      await time.increaseTo(start + 1000n);
 
-      expect(claimable1).to.equal(parseEther("150")); // (100/300 * 300) + (100/300 * 150) = 100 + 50 = 150
-      expect(claimable2).to.equal(parseEther("300")); // (200/300 * 300) + (200/300 * 150) = 200 + 100 = 300
+      expect(await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address])).to.equal(parseEther("75"));
+      expect(await betrRewards.read.claimable([mockRewardToken.address, staker2.account.address])).to.equal(parseEther("25"));
+
+      await betrRewards.write.claim({ account: staker1.account });
+      expect(await mockRewardToken.read.balanceOf([staker1.account.address])).to.equal(parseEther("75"));
+    });
+
+    it("Should not release the queued rewards to a minimal first stake", async function () {
+      const { betrRewards, betrStaking, mockRewardToken, staker1, staker2, rewarder } = await loadFixture(deployQueueFixture);
+
+      await betrRewards.write.addReward([parseEther("100")], { account: rewarder.account });
+
+      await betrStaking.write.stake([1n], { account: staker1.account });
+      await betrStaking.write.stake([parseEther("100")], { account: staker2.account });
+
+      await time.increase(1000);
+
+      expect(await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address])).to.be.lessThan(parseEther("0.2"));
+      expect(await betrRewards.read.claimable([mockRewardToken.address, staker2.account.address])).to.be.greaterThan(parseEther("99.8"));
+    });
+
+    it("Should accumulate queued rewards", async function () {
+      const { betrRewards, betrStaking, mockRewardToken, staker1, rewarder } = await loadFixture(deployQueueFixture);
+
+      await betrRewards.write.addReward([parseEther("100")], { account: rewarder.account });
+      await betrRewards.write.addReward([parseEther("50")], { account: rewarder.account });
+      expect(await betrRewards.read.queuedRewards([mockRewardToken.address])).to.equal(parseEther("150"));
+
+      await betrStaking.write.stake([parseEther("100")], { account: staker1.account });
+      await time.increase(1000);
+
+      expect(await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address])).to.equal(parseEther("150"));
+    });
+
+    it("Should queue rewards after everyone unstaked", async function () {
+      const { betrRewards, betrStaking, mockRewardToken, staker1, staker2, rewarder, owner } = await loadFixture(deployQueueFixture);
+
+      await betrStaking.write.stake([parseEther("100")], { account: staker1.account });
+      await betrRewards.write.addReward([parseEther("100")], { account: rewarder.account });
+
+      await betrStaking.write.batchUnstake([[staker1.account.address], [parseEther("100")]], { account: owner.account });
+      await betrRewards.write.addReward([parseEther("200")], { account: rewarder.account });
+
+      expect(await betrRewards.read.queuedRewards([mockRewardToken.address])).to.equal(parseEther("200"));
+      expect(await betrRewards.read.unallocatedRewards([mockRewardToken.address])).to.equal(0n);
+
+      await betrStaking.write.stake([parseEther("100")], { account: staker2.account });
+      await time.increase(1000);
+
+      expect(await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address])).to.equal(parseEther("100"));
+      expect(await betrRewards.read.claimable([mockRewardToken.address, staker2.account.address])).to.equal(parseEther("200"));
+    });
+
+    it("Should keep rewards queued when a period is notified with nothing staked", async function () {
+      const { betrRewards, betrStaking, mockRewardToken, staker1, rewarder, owner } = await loadFixture(deployQueueFixture);
+
+      await betrRewards.write.addReward([parseEther("100")], { account: rewarder.account });
+
+      await mockRewardToken.write.mint([owner.account.address, parseEther("1000")], { account: owner.account });
+      await mockRewardToken.write.approve([betrRewards.address, parseEther("1000")], { account: owner.account });
+      await betrRewards.write.notifyRewardAmount([parseEther("1000"), 1000n], { account: owner.account });
+      const start = BigInt(await time.latest());
+
+      expect(await betrRewards.read.queuedRewards([mockRewardToken.address])).to.equal(parseEther("100"));
+
+      await time.setNextBlockTimestamp(start + 500n);
+      await betrStaking.write.stake([parseEther("100")], { account: staker1.account });
+
+      // The queued rewards are streamed together with the rest of the period
+      expect(await betrRewards.read.periodFinish([mockRewardToken.address])).to.equal(start + 1500n);
+
+      await time.increaseTo(start + 1500n);
+
+      expect(await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address])).to.equal(parseEther("600"));
+    });
+
+    it("Should stream queued rewards over the rest of a longer running period", async function () {
+      const { betrRewards, betrStaking, mockRewardToken, staker1, rewarder, owner } = await loadFixture(deployQueueFixture);
+
+      await betrRewards.write.addReward([parseEther("100")], { account: rewarder.account });
+
+      await mockRewardToken.write.mint([owner.account.address, parseEther("3000")], { account: owner.account });
+      await mockRewardToken.write.approve([betrRewards.address, parseEther("3000")], { account: owner.account });
+      await betrRewards.write.notifyRewardAmount([parseEther("3000"), 3000n], { account: owner.account });
+      const start = BigInt(await time.latest());
+
+      await time.setNextBlockTimestamp(start + 500n);
+      await betrStaking.write.stake([parseEther("100")], { account: staker1.account });
+
+      expect(await betrRewards.read.periodFinish([mockRewardToken.address])).to.equal(start + 3000n);
+      expect(await betrRewards.read.rewardRate([mockRewardToken.address])).to.equal(parseEther("1.04"));
+
+      await time.increaseTo(start + 3000n);
+
+      expect(await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address])).to.equal(parseEther("2600"));
+    });
+
+    it("Should set the queued rewards duration", async function () {
+      const { betrRewards, owner } = await loadFixture(deployBETRRewardsFixture);
+
+      expect(await betrRewards.read.queuedRewardsDuration()).to.equal(await betrRewards.read.DEFAULT_QUEUED_REWARDS_DURATION());
+
+      expect(await betrRewards.write.setQueuedRewardsDuration([3600n], {
+        account: owner.account
+      })).to.emit(betrRewards, "QueuedRewardsDurationSet").withArgs(3600n);
+
+      expect(await betrRewards.read.queuedRewardsDuration()).to.equal(3600n);
+    });
+
+    it("Should not set an invalid queued rewards duration", async function () {
+      const { betrRewards, owner, otherAccount } = await loadFixture(deployBETRRewardsFixture);
+
+      await expect(betrRewards.write.setQueuedRewardsDuration([3600n], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("NotOwner");
+      await expect(betrRewards.write.setQueuedRewardsDuration([0n], {
+        account: owner.account
+      })).to.be.rejectedWith("InvalidInput");
     });
   });
 
@@ -440,19 +1712,19 @@ describe("BETRRewards", function () {
       // Claim reward
       expect(await betrRewards.write.claim({
         account: staker1.account
-      })).to.emit(betrRewards, "RewardClaimed").withArgs(staker1.account.address, rewardAmount);
+      })).to.emit(betrRewards, "RewardClaimed").withArgs(staker1.account.address, mockRewardToken.address, staker1.account.address, rewardAmount);
 
       // Check final balance
       const finalBalance = await mockRewardToken.read.balanceOf([staker1.account.address]);
       expect(finalBalance - initialBalance).to.equal(rewardAmount);
 
       // Check that reward is no longer claimable
-      const claimable = await betrRewards.read.claimable([staker1.account.address]);
+      const claimable = await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address]);
       expect(claimable).to.equal(0n);
 
       // Check total rewards tracking
-      expect(await betrRewards.read.totalRewardsClaimed()).to.equal(rewardAmount);
-      expect(await betrRewards.read.totalRewardsClaimable()).to.equal(0n);
+      expect(await betrRewards.read.totalRewardsClaimed([mockRewardToken.address])).to.equal(rewardAmount);
+      expect(await betrRewards.read.totalRewardsClaimable([mockRewardToken.address])).to.equal(0n);
     });
 
     it("Should batch claim rewards for multiple users", async function () {
@@ -520,8 +1792,8 @@ describe("BETRRewards", function () {
       expect(finalBalance2 - initialBalance2).to.equal(parseEther("200")); // 200/300 * 300
 
       // Check that no rewards are claimable
-      const claimable1 = await betrRewards.read.claimable([staker1.account.address]);
-      const claimable2 = await betrRewards.read.claimable([staker2.account.address]);
+      const claimable1 = await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address]);
+      const claimable2 = await betrRewards.read.claimable([mockRewardToken.address, staker2.account.address]);
       expect(claimable1).to.equal(0n);
       expect(claimable2).to.equal(0n);
     });
@@ -597,7 +1869,7 @@ describe("BETRRewards", function () {
       });
 
       // Check that reward was claimed
-      const claimable = await betrRewards.read.claimable([staker1.account.address]);
+      const claimable = await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address]);
       expect(claimable).to.equal(0n);
     });
 
@@ -653,7 +1925,7 @@ describe("BETRRewards", function () {
       });
 
       // Check initial claimable
-      let claimable = await betrRewards.read.claimable([staker1.account.address]);
+      let claimable = await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address]);
       expect(claimable).to.equal(initialReward);
 
       // Add more reward
@@ -669,7 +1941,7 @@ describe("BETRRewards", function () {
       });
 
       // Check claimable after unstake
-      claimable = await betrRewards.read.claimable([staker1.account.address]);
+      claimable = await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address]);
       expect(claimable).to.equal(parseEther("150")); // Should keep the same claimable amount
     });
 
@@ -682,6 +1954,63 @@ describe("BETRRewards", function () {
       })).to.be.rejectedWith("NotStakingContract");
     });
 
+    it("Should keep claims consistent while the rewarder is quarantined", async function () {
+      const { betrRewards, betrStaking, mockStakingToken, mockRewardToken, staker1, staker2, rewarder, owner } = await loadFixture(deployBETRRewardsFixture);
+
+      await betrStaking.write.addRewarder([betrRewards.address], {
+        account: owner.account
+      });
+      for (const staker of [staker1, staker2]) {
+        await mockStakingToken.write.mint([staker.account.address, parseEther("100")], {
+          account: owner.account
+        });
+        await mockStakingToken.write.approve([betrStaking.address, parseEther("100")], {
+          account: staker.account
+        });
+        await betrStaking.write.stake([parseEther("100")], {
+          account: staker.account
+        });
+      }
+      await mockRewardToken.write.mint([rewarder.account.address, parseEther("100")], {
+        account: owner.account
+      });
+      await mockRewardToken.write.approve([betrRewards.address, parseEther("100")], {
+        account: rewarder.account
+      });
+
+      // The unstake is not notified to the quarantined rewarder
+      await betrStaking.write.setRewarderQuarantined([betrRewards.address, true], {
+        account: owner.account
+      });
+      await betrStaking.write.unstake([parseEther("100")], {
+        account: staker1.account
+      });
+      expect(await betrRewards.read.notifiedStakedAmount([staker1.account.address])).to.equal(parseEther("100"));
+      expect(await betrRewards.read.totalNotifiedStakedAmount()).to.equal(parseEther("200"));
+
+      await betrRewards.write.addReward([parseEther("100")], {
+        account: rewarder.account
+      });
+      await betrRewards.write.claim({
+        account: staker1.account
+      });
+      await betrRewards.write.claim({
+        account: staker2.account
+      });
+
+      expect(await mockRewardToken.read.balanceOf([staker1.account.address])).to.equal(parseEther("50"));
+      expect(await mockRewardToken.read.balanceOf([staker2.account.address])).to.equal(parseEther("50"));
+      expect(await betrRewards.read.totalRewardsClaimable([mockRewardToken.address])).to.equal(0n);
+
+      // Once resynced, the unstaked user stops earning
+      await betrStaking.write.setRewarderQuarantined([betrRewards.address, false], {
+        account: owner.account
+      });
+      await betrStaking.write.resyncRewarder([betrRewards.address, [staker1.account.address]]);
+      expect(await betrRewards.read.totalNotifiedStakedAmount()).to.equal(parseEther("100"));
+      expect(await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address])).to.equal(0n);
+    });
+
     it("Should allow onStakeChanged when caller is staking contract", async function () {
       const { betrRewards, betrStaking, mockStakingToken, staker1, owner } = await loadFixture(deployBETRRewardsFixture);
 
@@ -710,15 +2039,15 @@ describe("BETRRewards", function () {
 
   describe("Claimable Function", function () {
     it("Should return zero for user with no stake", async function () {
-      const { betrRewards, staker1 } = await loadFixture(deployBETRRewardsFixture);
+      const { betrRewards, staker1, mockRewardToken } = await loadFixture(deployBETRRewardsFixture);
 
       // Check claimable for user who never staked
-      const claimable = await betrRewards.read.claimable([staker1.account.address]);
+      const claimable = await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address]);
       expect(claimable).to.equal(0n);
     });
 
     it("Should return zero for user who staked but no rewards added", async function () {
-      const { betrRewards, betrStaking, mockStakingToken, staker1, owner } = await loadFixture(deployBETRRewardsFixture);
+      const { betrRewards, betrStaking, mockStakingToken, staker1, owner, mockRewardToken } = await loadFixture(deployBETRRewardsFixture);
 
       // Fund staker with staking tokens
       await mockStakingToken.write.mint([staker1.account.address, parseEther("1000")], {
@@ -737,7 +2066,7 @@ describe("BETRRewards", function () {
       });
 
       // Check claimable for user who staked but no rewards were added
-      const claimable = await betrRewards.read.claimable([staker1.account.address]);
+      const claimable = await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address]);
       expect(claimable).to.equal(0n);
     });
 
@@ -780,7 +2109,7 @@ describe("BETRRewards", function () {
       });
 
       // Check claimable amount
-      const claimable = await betrRewards.read.claimable([staker1.account.address]);
+      const claimable = await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address]);
       expect(claimable).to.equal(rewardAmount); // 100% of rewards since only one staker
     });
 
@@ -833,8 +2162,8 @@ describe("BETRRewards", function () {
       });
 
       // Check claimable amounts (proportional to stake)
-      const claimable1 = await betrRewards.read.claimable([staker1.account.address]);
-      const claimable2 = await betrRewards.read.claimable([staker2.account.address]);
+      const claimable1 = await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address]);
+      const claimable2 = await betrRewards.read.claimable([mockRewardToken.address, staker2.account.address]);
 
       expect(claimable1).to.equal(parseEther("100")); // 100/400 * 400 = 100
       expect(claimable2).to.equal(parseEther("300")); // 300/400 * 400 = 300
@@ -879,7 +2208,7 @@ describe("BETRRewards", function () {
       });
 
       // Check claimable before claiming
-      let claimable = await betrRewards.read.claimable([staker1.account.address]);
+      let claimable = await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address]);
       expect(claimable).to.equal(rewardAmount);
 
       // Claim reward
@@ -888,7 +2217,7 @@ describe("BETRRewards", function () {
       });
 
       // Check claimable after claiming
-      claimable = await betrRewards.read.claimable([staker1.account.address]);
+      claimable = await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address]);
       expect(claimable).to.equal(0n);
     });
 
@@ -941,8 +2270,8 @@ describe("BETRRewards", function () {
       });
 
       // Check claimable after first distribution
-      let claimable1 = await betrRewards.read.claimable([staker1.account.address]);
-      let claimable2 = await betrRewards.read.claimable([staker2.account.address]);
+      let claimable1 = await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address]);
+      let claimable2 = await betrRewards.read.claimable([mockRewardToken.address, staker2.account.address]);
       expect(claimable1).to.equal(parseEther("100")); // 100/300 * 300
       expect(claimable2).to.equal(parseEther("200")); // 200/300 * 300
 
@@ -953,8 +2282,8 @@ describe("BETRRewards", function () {
       });
 
       // Check claimable after second distribution (cumulative)
-      claimable1 = await betrRewards.read.claimable([staker1.account.address]);
-      claimable2 = await betrRewards.read.claimable([staker2.account.address]);
+      claimable1 = await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address]);
+      claimable2 = await betrRewards.read.claimable([mockRewardToken.address, staker2.account.address]);
       expect(claimable1).to.equal(parseEther("150")); // (100/300 * 300) + (100/300 * 150) = 100 + 50
       expect(claimable2).to.equal(parseEther("300")); // (200/300 * 300) + (200/300 * 150) = 200 + 100
     });
@@ -1008,8 +2337,8 @@ describe("BETRRewards", function () {
       });
 
       // Check initial claimable
-      let claimable1 = await betrRewards.read.claimable([staker1.account.address]);
-      let claimable2 = await betrRewards.read.claimable([staker2.account.address]);
+      let claimable1 = await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address]);
+      let claimable2 = await betrRewards.read.claimable([mockRewardToken.address, staker2.account.address]);
       expect(claimable1).to.equal(parseEther("100")); // 100/200 * 200
       expect(claimable2).to.equal(parseEther("100")); // 100/200 * 200
 
@@ -1026,8 +2355,8 @@ describe("BETRRewards", function () {
       });
 
       // Check claimable after stake change
-      claimable1 = await betrRewards.read.claimable([staker1.account.address]);
-      claimable2 = await betrRewards.read.claimable([staker2.account.address]);
+      claimable1 = await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address]);
+      claimable2 = await betrRewards.read.claimable([mockRewardToken.address, staker2.account.address]);
       expect(claimable1).to.be.closeTo(parseEther("166.666666666666666666"), 1e12); // 100 + (200/300 * 100)
       expect(claimable2).to.be.closeTo(parseEther("133.333333333333333333"), 1e12); // 100 + (100/300 * 100)
     });
@@ -1081,8 +2410,8 @@ describe("BETRRewards", function () {
       });
 
       // Check initial claimable
-      let claimable1 = await betrRewards.read.claimable([staker1.account.address]);
-      let claimable2 = await betrRewards.read.claimable([staker2.account.address]);
+      let claimable1 = await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address]);
+      let claimable2 = await betrRewards.read.claimable([mockRewardToken.address, staker2.account.address]);
       expect(claimable1).to.equal(parseEther("200")); // 200/300 * 300
       expect(claimable2).to.equal(parseEther("100")); // 100/300 * 300
 
@@ -1099,25 +2428,25 @@ describe("BETRRewards", function () {
       });
 
       // Check claimable after unstake
-      claimable1 = await betrRewards.read.claimable([staker1.account.address]);
-      claimable2 = await betrRewards.read.claimable([staker2.account.address]);
+      claimable1 = await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address]);
+      claimable2 = await betrRewards.read.claimable([mockRewardToken.address, staker2.account.address]);
       expect(claimable1).to.equal(parseEther("250")); // 200 + (100/200 * 100)
       expect(claimable2).to.equal(parseEther("150")); // 100 + (100/200 * 100)
     });
 
     it("Should handle zero address correctly", async function () {
-      const { betrRewards } = await loadFixture(deployBETRRewardsFixture);
+      const { betrRewards, mockRewardToken } = await loadFixture(deployBETRRewardsFixture);
 
       // Check claimable for zero address
-      const claimable = await betrRewards.read.claimable(["0x0000000000000000000000000000000000000000"]);
+      const claimable = await betrRewards.read.claimable([mockRewardToken.address, "0x0000000000000000000000000000000000000000"]);
       expect(claimable).to.equal(0n);
     });
 
     it("Should handle non-existent address correctly", async function () {
-      const { betrRewards } = await loadFixture(deployBETRRewardsFixture);
+      const { betrRewards, mockRewardToken } = await loadFixture(deployBETRRewardsFixture);
 
       // Check claimable for non-existent address
-      const claimable = await betrRewards.read.claimable(["0x1234567890123456789012345678901234567890"]);
+      const claimable = await betrRewards.read.claimable([mockRewardToken.address, "0x1234567890123456789012345678901234567890"]);
       expect(claimable).to.equal(0n);
     });
 
@@ -1164,8 +2493,8 @@ describe("BETRRewards", function () {
         account: staker1.account
       });
       
-      // Should return the claimable amount for the caller (staker1)
-      expect(claimable).to.equal(rewardAmount);
+      // Should return the claimable amounts for the caller (staker1)
+      expect(claimable).to.deep.equal([[getAddress(mockRewardToken.address)], [rewardAmount]]);
     });
   });
 
@@ -1209,15 +2538,15 @@ describe("BETRRewards", function () {
       });
 
       // Check claimable rewards
-      const claimable = await betrRewards.read.claimable([staker1.account.address]);
+      const claimable = await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address]);
       expect(claimable).to.equal(smallReward);
     });
 
     it("Should handle user with no rewards", async function () {
-      const { betrRewards, staker1 } = await loadFixture(deployBETRRewardsFixture);
+      const { betrRewards, staker1, mockRewardToken } = await loadFixture(deployBETRRewardsFixture);
 
       // Check claimable rewards for user with no rewards
-      const claimable = await betrRewards.read.claimable([staker1.account.address]);
+      const claimable = await betrRewards.read.claimable([mockRewardToken.address, staker1.account.address]);
       expect(claimable).to.equal(0n);
     });
   });
@@ -1259,7 +2588,7 @@ describe("BETRRewards", function () {
       const rewardAmount = parseEther("100");
       expect(await betrRewards.write.addReward([rewardAmount], {
         account: rewarder.account
-      })).to.emit(betrRewards, "RewardAdded").withArgs(rewardAmount);
+      })).to.emit(betrRewards, "RewardAdded").withArgs(mockRewardToken.address, rewardAmount);
     });
 
     it("Should emit correct events for reward claiming", async function () {
@@ -1303,7 +2632,7 @@ describe("BETRRewards", function () {
       // Claim reward
       expect(await betrRewards.write.claim({
         account: staker1.account
-      })).to.emit(betrRewards, "RewardClaimed").withArgs(staker1.account.address, rewardAmount);
+      })).to.emit(betrRewards, "RewardClaimed").withArgs(staker1.account.address, mockRewardToken.address, staker1.account.address, rewardAmount);
     });
 
     it("Should emit correct events for rewarding pause", async function () {
@@ -1,9 +1,12 @@
 import {
   loadFixture,
+  mine,
+  time,
 } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
 import { expect } from "chai";
 import hre from "hardhat";
-import { getAddress, parseEther } from "viem";
+import { concat, encodeAbiParameters, getAddress, keccak256, parseEther } from "viem";
+import { Signature } from "ethers";
 
 describe("BETRStaking", function () {
   // We define a fixture to reuse the same setup in every test.
@@ -1205,6 +1208,1164 @@ describe("BETRStaking", function () {
     });
   });
 
+  describe("Lock Positions", function () {
+    const THIRTY_DAYS = 30n * 24n * 60n * 60n;
+
+    it("Should set a lock multiplier", async function () {
+      const { betrStaking, owner } = await loadFixture(deployBETRStakingFixture);
+
+      expect(await betrStaking.write.setLockMultiplier([THIRTY_DAYS, 12000n], {
+        account: owner.account
+      })).to.emit(betrStaking, "LockMultiplierSet").withArgs(THIRTY_DAYS, 12000n);
+
+      expect(await betrStaking.read.lockMultipliers([THIRTY_DAYS])).to.equal(12000n);
+    });
+
+    it("Should not set a lock multiplier if sender is not owner", async function () {
+      const { betrStaking, otherAccount } = await loadFixture(deployBETRStakingFixture);
+
+      await expect(betrStaking.write.setLockMultiplier([THIRTY_DAYS, 12000n], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("NotOwner");
+    });
+
+    it("Should not set a lock multiplier for zero duration or below 1x", async function () {
+      const { betrStaking, owner } = await loadFixture(deployBETRStakingFixture);
+
+      await expect(betrStaking.write.setLockMultiplier([0n, 12000n], {
+        account: owner.account
+      })).to.be.rejectedWith("InvalidInput");
+      await expect(betrStaking.write.setLockMultiplier([THIRTY_DAYS, 9999n], {
+        account: owner.account
+      })).to.be.rejectedWith("InvalidInput");
+    });
+
+    it("Should stake locked tokens with a boosted effective stake", async function () {
+      const { betrStaking, mockToken, staker1, owner } = await loadFixture(deployBETRStakingFixture);
+
+      const mockRewarder = await hre.viem.deployContract("MockRewarder");
+      await betrStaking.write.addRewarder([mockRewarder.address], {
+        account: owner.account
+      });
+      await betrStaking.write.setLockMultiplier([THIRTY_DAYS, 15000n], {
+        account: owner.account
+      });
+
+      await mockToken.write.mint([staker1.account.address, parseEther("1000")], {
+        account: owner.account
+      });
+      await mockToken.write.approve([betrStaking.address, parseEther("1000")], {
+        account: staker1.account
+      });
+
+      await betrStaking.write.stake([parseEther("100")], {
+        account: staker1.account
+      });
+      expect(await betrStaking.write.stakeLocked([parseEther("100"), THIRTY_DAYS], {
+        account: staker1.account
+      })).to.emit(betrStaking, "Locked");
+
+      expect(await betrStaking.read.stakedAmount([staker1.account.address])).to.equal(parseEther("200"));
+      expect(await betrStaking.read.lockedAmount([staker1.account.address])).to.equal(parseEther("100"));
+      expect(await betrStaking.read.effectiveStakedAmount([staker1.account.address])).to.equal(parseEther("250"));
+      expect(await betrStaking.read.totalStakedAmount()).to.equal(parseEther("200"));
+      expect(await betrStaking.read.totalEffectiveStakedAmount()).to.equal(parseEther("250"));
+
+      const positions = await betrStaking.read.getLockPositions([staker1.account.address]);
+      expect(positions.length).to.equal(1);
+      expect(positions[0].amount).to.equal(parseEther("100"));
+      expect(positions[0].multiplier).to.equal(15000n);
+
+      // Rewarders receive the effective stake
+      const [, oldAmount, newAmount] = await mockRewarder.read.getLastStakeChange([staker1.account.address]);
+      expect(oldAmount).to.equal(parseEther("100"));
+      expect(newAmount).to.equal(parseEther("250"));
+    });
+
+    it("Should revert if lock duration is not allowed", async function () {
+      const { betrStaking, staker1 } = await loadFixture(deployBETRStakingFixture);
+
+      await expect(betrStaking.write.stakeLocked([parseEther("100"), THIRTY_DAYS], {
+        account: staker1.account
+      })).to.be.rejectedWith("InvalidLockDuration");
+    });
+
+    it("Should not unstake locked tokens", async function () {
+      const { betrStaking, mockToken, staker1, owner } = await loadFixture(deployBETRStakingFixture);
+
+      await betrStaking.write.setLockMultiplier([THIRTY_DAYS, 15000n], {
+        account: owner.account
+      });
+      await mockToken.write.mint([staker1.account.address, parseEther("1000")], {
+        account: owner.account
+      });
+      await mockToken.write.approve([betrStaking.address, parseEther("1000")], {
+        account: staker1.account
+      });
+
+      await betrStaking.write.stake([parseEther("50")], {
+        account: staker1.account
+      });
+      await betrStaking.write.stakeLocked([parseEther("100"), THIRTY_DAYS], {
+        account: staker1.account
+      });
+
+      await expect(betrStaking.write.unstake([parseEther("51")], {
+        account: staker1.account
+      })).to.be.rejectedWith("NotEnoughStakedAmount");
+
+      await betrStaking.write.unstake([parseEther("50")], {
+        account: staker1.account
+      });
+      expect(await betrStaking.read.stakedAmount([staker1.account.address])).to.equal(parseEther("100"));
+      expect(await betrStaking.read.effectiveStakedAmount([staker1.account.address])).to.equal(parseEther("150"));
+    });
+
+    it("Should unlock an expired position", async function () {
+      const { betrStaking, mockToken, staker1, otherAccount, owner } = await loadFixture(deployBETRStakingFixture);
+
+      await betrStaking.write.setLockMultiplier([THIRTY_DAYS, 15000n], {
+        account: owner.account
+      });
+      await mockToken.write.mint([staker1.account.address, parseEther("1000")], {
+        account: owner.account
+      });
+      await mockToken.write.approve([betrStaking.address, parseEther("1000")], {
+        account: staker1.account
+      });
+      await betrStaking.write.stakeLocked([parseEther("100"), THIRTY_DAYS], {
+        account: staker1.account
+      });
+
+      await expect(betrStaking.write.unlock([staker1.account.address, 0n], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("PositionLocked");
+
+      await time.increase(THIRTY_DAYS);
+
+      // Anyone can unlock an expired position
+      expect(await betrStaking.write.unlock([staker1.account.address, 0n], {
+        account: otherAccount.account
+      })).to.emit(betrStaking, "Unlocked").withArgs(staker1.account.address, parseEther("100"));
+
+      expect(await betrStaking.read.lockedAmount([staker1.account.address])).to.equal(0n);
+      expect(await betrStaking.read.effectiveStakedAmount([staker1.account.address])).to.equal(parseEther("100"));
+      expect(await betrStaking.read.totalEffectiveStakedAmount()).to.equal(parseEther("100"));
+      expect((await betrStaking.read.getLockPositions([staker1.account.address])).length).to.equal(0);
+
+      await betrStaking.write.unstake([parseEther("100")], {
+        account: staker1.account
+      });
+      expect(await mockToken.read.balanceOf([staker1.account.address])).to.equal(parseEther("1000"));
+    });
+
+    it("Should revert unlock for a non-existent position", async function () {
+      const { betrStaking, staker1 } = await loadFixture(deployBETRStakingFixture);
+
+      await expect(betrStaking.write.unlock([staker1.account.address, 0n], {
+        account: staker1.account
+      })).to.be.rejectedWith("InvalidInput");
+    });
+
+    it("Should release lock positions on batch unstake", async function () {
+      const { betrStaking, mockToken, staker1, owner } = await loadFixture(deployBETRStakingFixture);
+
+      await betrStaking.write.setLockMultiplier([THIRTY_DAYS, 15000n], {
+        account: owner.account
+      });
+      await mockToken.write.mint([staker1.account.address, parseEther("1000")], {
+        account: owner.account
+      });
+      await mockToken.write.approve([betrStaking.address, parseEther("1000")], {
+        account: staker1.account
+      });
+      await betrStaking.write.stakeLocked([parseEther("100"), THIRTY_DAYS], {
+        account: staker1.account
+      });
+
+      await betrStaking.write.batchUnstake([[staker1.account.address], [parseEther("40")]], {
+        account: owner.account
+      });
+
+      expect(await betrStaking.read.stakedAmount([staker1.account.address])).to.equal(parseEther("60"));
+      expect(await betrStaking.read.lockedAmount([staker1.account.address])).to.equal(0n);
+      expect(await betrStaking.read.effectiveStakedAmount([staker1.account.address])).to.equal(parseEther("60"));
+      expect(await betrStaking.read.totalEffectiveStakedAmount()).to.equal(parseEther("60"));
+    });
+  });
+
+  describe("Unbonding", function () {
+    const SEVEN_DAYS = 7n * 24n * 60n * 60n;
+
+    async function deployUnbondingFixture() {
+      const fixture = await deployBETRStakingFixture();
+      const { betrStaking, mockToken, staker1, owner } = fixture;
+
+      await betrStaking.write.setUnbondingPeriod([SEVEN_DAYS], {
+        account: owner.account
+      });
+      await mockToken.write.mint([staker1.account.address, parseEther("1000")], {
+        account: owner.account
+      });
+      await mockToken.write.approve([betrStaking.address, parseEther("1000")], {
+        account: staker1.account
+      });
+      await betrStaking.write.stake([parseEther("100")], {
+        account: staker1.account
+      });
+
+      return fixture;
+    }
+
+    it("Should set the unbonding period", async function () {
+      const { betrStaking, owner } = await loadFixture(deployBETRStakingFixture);
+
+      expect(await betrStaking.write.setUnbondingPeriod([SEVEN_DAYS], {
+        account: owner.account
+      })).to.emit(betrStaking, "UnbondingPeriodSet").withArgs(SEVEN_DAYS);
+
+      expect(await betrStaking.read.unbondingPeriod()).to.equal(SEVEN_DAYS);
+    });
+
+    it("Should not set the unbonding period if sender is not owner", async function () {
+      const { betrStaking, otherAccount } = await loadFixture(deployBETRStakingFixture);
+
+      await expect(betrStaking.write.setUnbondingPeriod([SEVEN_DAYS], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("NotOwner");
+    });
+
+    it("Should not set the unbonding period above the maximum", async function () {
+      const { betrStaking, owner } = await loadFixture(deployBETRStakingFixture);
+
+      const maxUnbondingPeriod = await betrStaking.read.MAX_UNBONDING_PERIOD();
+      await expect(betrStaking.write.setUnbondingPeriod([maxUnbondingPeriod + 1n], {
+        account: owner.account
+      })).to.be.rejectedWith("InvalidInput");
+    });
+
+    it("Should queue unstaked tokens instead of transferring them", async function () {
+      const { betrStaking, mockToken, staker1 } = await loadFixture(deployUnbondingFixture);
+
+      expect(await betrStaking.write.unstake([parseEther("40")], {
+        account: staker1.account
+      })).to.emit(betrStaking, "UnbondingStarted");
+
+      expect(await betrStaking.read.stakedAmount([staker1.account.address])).to.equal(parseEther("60"));
+      expect(await betrStaking.read.totalStakedAmount()).to.equal(parseEther("60"));
+      expect(await betrStaking.read.unbondingAmount([staker1.account.address])).to.equal(parseEther("40"));
+      expect(await betrStaking.read.totalUnbondingAmount()).to.equal(parseEther("40"));
+      expect(await mockToken.read.balanceOf([staker1.account.address])).to.equal(parseEther("900"));
+
+      const requests = await betrStaking.read.getUnbondingRequests([staker1.account.address]);
+      expect(requests.length).to.equal(1);
+      expect(requests[0].amount).to.equal(parseEther("40"));
+      expect(await betrStaking.read.withdrawableAmount([staker1.account.address])).to.equal(0n);
+    });
+
+    it("Should not withdraw before the unbonding period", async function () {
+      const { betrStaking, staker1 } = await loadFixture(deployUnbondingFixture);
+
+      await betrStaking.write.unstake([parseEther("40")], {
+        account: staker1.account
+      });
+
+      await expect(betrStaking.write.withdraw({
+        account: staker1.account
+      })).to.be.rejectedWith("NothingToWithdraw");
+    });
+
+    it("Should withdraw released requests after the unbonding period", async function () {
+      const { betrStaking, mockToken, staker1 } = await loadFixture(deployUnbondingFixture);
+
+      await betrStaking.write.unstake([parseEther("40")], {
+        account: staker1.account
+      });
+      await time.increase(SEVEN_DAYS);
+      await betrStaking.write.unstake([parseEther("10")], {
+        account: staker1.account
+      });
+
+      expect(await betrStaking.read.withdrawableAmount([staker1.account.address])).to.equal(parseEther("40"));
+
+      expect(await betrStaking.write.withdraw({
+        account: staker1.account
+      })).to.emit(betrStaking, "Withdrawn").withArgs(staker1.account.address, parseEther("40"));
+
+      expect(await mockToken.read.balanceOf([staker1.account.address])).to.equal(parseEther("940"));
+      expect(await betrStaking.read.unbondingAmount([staker1.account.address])).to.equal(parseEther("10"));
+      expect((await betrStaking.read.getUnbondingRequests([staker1.account.address])).length).to.equal(1);
+    });
+
+    it("Should cancel an unbonding request and restake", async function () {
+      const { betrStaking, staker1, owner } = await loadFixture(deployUnbondingFixture);
+
+      const mockRewarder = await hre.viem.deployContract("MockRewarder");
+      await betrStaking.write.addRewarder([mockRewarder.address], {
+        account: owner.account
+      });
+
+      await betrStaking.write.unstake([parseEther("40")], {
+        account: staker1.account
+      });
+
+      expect(await betrStaking.write.cancelUnbonding([0n], {
+        account: staker1.account
+      })).to.emit(betrStaking, "UnbondingCancelled").withArgs(staker1.account.address, parseEther("40"));
+
+      expect(await betrStaking.read.stakedAmount([staker1.account.address])).to.equal(parseEther("100"));
+      expect(await betrStaking.read.unbondingAmount([staker1.account.address])).to.equal(0n);
+      expect(await betrStaking.read.totalUnbondingAmount()).to.equal(0n);
+
+      const [, oldAmount, newAmount] = await mockRewarder.read.getLastStakeChange([staker1.account.address]);
+      expect(oldAmount).to.equal(parseEther("60"));
+      expect(newAmount).to.equal(parseEther("100"));
+    });
+
+    it("Should revert cancelUnbonding for a non-existent request", async function () {
+      const { betrStaking, staker1 } = await loadFixture(deployUnbondingFixture);
+
+      await expect(betrStaking.write.cancelUnbonding([0n], {
+        account: staker1.account
+      })).to.be.rejectedWith("InvalidInput");
+    });
+
+    it("Should bypass the unbonding period and release pending requests on batch unstake", async function () {
+      const { betrStaking, mockToken, staker1, owner } = await loadFixture(deployUnbondingFixture);
+
+      await betrStaking.write.unstake([parseEther("40")], {
+        account: staker1.account
+      });
+
+      await betrStaking.write.batchUnstake([[staker1.account.address], [0n]], {
+        account: owner.account
+      });
+
+      expect(await mockToken.read.balanceOf([staker1.account.address])).to.equal(parseEther("1000"));
+      expect(await betrStaking.read.stakedAmount([staker1.account.address])).to.equal(0n);
+      expect(await betrStaking.read.unbondingAmount([staker1.account.address])).to.equal(0n);
+      expect(await betrStaking.read.totalUnbondingAmount()).to.equal(0n);
+    });
+
+    it("Should revert withdraw and cancelUnbonding if staking is paused", async function () {
+      const { betrStaking, staker1, owner } = await loadFixture(deployUnbondingFixture);
+
+      await betrStaking.write.unstake([parseEther("40")], {
+        account: staker1.account
+      });
+      await betrStaking.write.setStakingPaused([true], {
+        account: owner.account
+      });
+
+      await expect(betrStaking.write.withdraw({
+        account: staker1.account
+      })).to.be.rejectedWith("StakingPaused");
+      await expect(betrStaking.write.cancelUnbonding([0n], {
+        account: staker1.account
+      })).to.be.rejectedWith("StakingPaused");
+    });
+  });
+
+  describe("Checkpoints", function () {
+    it("Should track historical staked amounts", async function () {
+      const { betrStaking, mockToken, staker1, staker2, owner, publicClient } = await loadFixture(deployBETRStakingFixture);
+
+      await mockToken.write.mint([staker1.account.address, parseEther("1000")], {
+        account: owner.account
+      });
+      await mockToken.write.approve([betrStaking.address, parseEther("1000")], {
+        account: staker1.account
+      });
+
+      const blockBefore = await publicClient.getBlockNumber();
+
+      await betrStaking.write.stake([parseEther("100")], {
+        account: staker1.account
+      });
+      const blockStaked = await publicClient.getBlockNumber();
+
+      await mockToken.write.approve([betrStaking.address, parseEther("1000")], {
+        account: staker2.account
+      });
+      await mockToken.write.mint([staker2.account.address, parseEther("1000")], {
+        account: owner.account
+      });
+      await betrStaking.write.stakeFor([staker2.account.address, parseEther("50")], {
+        account: staker1.account
+      });
+      const blockStakedFor = await publicClient.getBlockNumber();
+
+      await betrStaking.write.unstake([parseEther("30")], {
+        account: staker1.account
+      });
+      const blockUnstaked = await publicClient.getBlockNumber();
+
+      await betrStaking.write.batchUnstake([[staker2.account.address], [0n]], {
+        account: owner.account
+      });
+      const blockBatchUnstaked = await publicClient.getBlockNumber();
+
+      await mine();
+
+      expect(await betrStaking.read.stakedAmountAt([staker1.account.address, blockBefore])).to.equal(0n);
+      expect(await betrStaking.read.stakedAmountAt([staker1.account.address, blockStaked])).to.equal(parseEther("100"));
+      expect(await betrStaking.read.stakedAmountAt([staker1.account.address, blockUnstaked])).to.equal(parseEther("70"));
+      expect(await betrStaking.read.stakedAmountAt([staker2.account.address, blockStakedFor])).to.equal(parseEther("50"));
+      expect(await betrStaking.read.stakedAmountAt([staker2.account.address, blockBatchUnstaked])).to.equal(0n);
+
+      expect(await betrStaking.read.totalStakedAmountAt([blockBefore])).to.equal(0n);
+      expect(await betrStaking.read.totalStakedAmountAt([blockStaked])).to.equal(parseEther("100"));
+      expect(await betrStaking.read.totalStakedAmountAt([blockStakedFor])).to.equal(parseEther("150"));
+      expect(await betrStaking.read.totalStakedAmountAt([blockUnstaked])).to.equal(parseEther("120"));
+      expect(await betrStaking.read.totalStakedAmountAt([blockBatchUnstaked])).to.equal(parseEther("70"));
+    });
+
+    it("Should revert lookups for the current or future blocks", async function () {
+      const { betrStaking, staker1, publicClient } = await loadFixture(deployBETRStakingFixture);
+
+      const currentBlock = await publicClient.getBlockNumber();
+
+      await expect(betrStaking.read.stakedAmountAt([staker1.account.address, currentBlock + 1n])).to.be.rejectedWith("FutureLookup");
+      await expect(betrStaking.read.totalStakedAmountAt([currentBlock + 1n])).to.be.rejectedWith("FutureLookup");
+    });
+  });
+
+  describe("Voting Power", function () {
+    async function deployVotingFixture() {
+      const fixture = await deployBETRStakingFixture();
+      const { betrStaking, mockToken, staker1, staker2, owner } = fixture;
+
+      for (const staker of [staker1, staker2]) {
+        await mockToken.write.mint([staker.account.address, parseEther("1000")], {
+          account: owner.account
+        });
+        await mockToken.write.approve([betrStaking.address, parseEther("1000")], {
+          account: staker.account
+        });
+      }
+
+      return fixture;
+    }
+
+    it("Should use the block number clock", async function () {
+      const { betrStaking, publicClient } = await loadFixture(deployBETRStakingFixture);
+
+      expect(await betrStaking.read.CLOCK_MODE()).to.equal("mode=blocknumber&from=default");
+      expect(BigInt(await betrStaking.read.clock())).to.equal(await publicClient.getBlockNumber());
+    });
+
+    it("Should not count staked tokens as votes until delegated", async function () {
+      const { betrStaking, staker1 } = await loadFixture(deployVotingFixture);
+
+      await betrStaking.write.stake([parseEther("100")], {
+        account: staker1.account
+      });
+
+      expect(await betrStaking.read.getVotes([staker1.account.address])).to.equal(0n);
+
+      expect(await betrStaking.write.delegate([staker1.account.address], {
+        account: staker1.account
+      })).to.emit(betrStaking, "DelegateChanged");
+
+      expect(await betrStaking.read.getVotes([staker1.account.address])).to.equal(parseEther("100"));
+      expect(await betrStaking.read.delegates([staker1.account.address])).to.equal(getAddress(staker1.account.address));
+    });
+
+    it("Should move votes on stake, stakeFor and unstake", async function () {
+      const { betrStaking, staker1, staker2, otherAccount, publicClient } = await loadFixture(deployVotingFixture);
+
+      await betrStaking.write.delegate([otherAccount.account.address], {
+        account: staker1.account
+      });
+      await betrStaking.write.stake([parseEther("100")], {
+        account: staker1.account
+      });
+      const blockStaked = await publicClient.getBlockNumber();
+
+      await betrStaking.write.stakeFor([staker1.account.address, parseEther("50")], {
+        account: staker2.account
+      });
+      expect(await betrStaking.read.getVotes([otherAccount.account.address])).to.equal(parseEther("150"));
+
+      await betrStaking.write.unstake([parseEther("120")], {
+        account: staker1.account
+      });
+      expect(await betrStaking.read.getVotes([otherAccount.account.address])).to.equal(parseEther("30"));
+
+      await mine();
+
+      expect(await betrStaking.read.getPastVotes([otherAccount.account.address, blockStaked])).to.equal(parseEther("100"));
+      expect(await betrStaking.read.getPastTotalSupply([blockStaked])).to.equal(parseEther("100"));
+    });
+
+    it("Should move existing votes when changing delegate", async function () {
+      const { betrStaking, staker1, otherAccount } = await loadFixture(deployVotingFixture);
+
+      await betrStaking.write.stake([parseEther("100")], {
+        account: staker1.account
+      });
+      await betrStaking.write.delegate([staker1.account.address], {
+        account: staker1.account
+      });
+      await betrStaking.write.delegate([otherAccount.account.address], {
+        account: staker1.account
+      });
+
+      expect(await betrStaking.read.getVotes([staker1.account.address])).to.equal(0n);
+      expect(await betrStaking.read.getVotes([otherAccount.account.address])).to.equal(parseEther("100"));
+    });
+
+    it("Should delegate by signature", async function () {
+      const { betrStaking, staker1, otherAccount, publicClient } = await loadFixture(deployVotingFixture);
+
+      await betrStaking.write.stake([parseEther("100")], {
+        account: staker1.account
+      });
+
+      const nonce = await betrStaking.read.nonces([staker1.account.address]);
+      const expiry = BigInt(Math.floor(Date.now() / 1000) + 3600);
+      const signature = await staker1.signTypedData({
+        domain: {
+          name: "BETRStaking",
+          version: "1",
+          chainId: await publicClient.getChainId(),
+          verifyingContract: betrStaking.address,
+        },
+        types: {
+          Delegation: [
+            { name: "delegatee", type: "address" },
+            { name: "nonce", type: "uint256" },
+            { name: "expiry", type: "uint256" },
+          ],
+        },
+        primaryType: "Delegation",
+        message: {
+          delegatee: otherAccount.account.address,
+          nonce,
+          expiry,
+        },
+      });
+      const { v, r, s } = Signature.from(signature);
+
+      await betrStaking.write.delegateBySig([
+        otherAccount.account.address,
+        nonce,
+        expiry,
+        v,
+        r as `0x${string}`,
+        s as `0x${string}`
+      ], {
+        account: otherAccount.account
+      });
+
+      expect(await betrStaking.read.delegates([staker1.account.address])).to.equal(getAddress(otherAccount.account.address));
+      expect(await betrStaking.read.getVotes([otherAccount.account.address])).to.equal(parseEther("100"));
+      expect(await betrStaking.read.nonces([staker1.account.address])).to.equal(nonce + 1n);
+    });
+  });
+
+  describe("Rewarder Failure Isolation", function () {
+    async function deployFailingRewarderFixture() {
+      const fixture = await deployBETRStakingFixture();
+      const { betrStaking, mockToken, staker1, owner } = fixture;
+
+      const mockRewarder = await hre.viem.deployContract("MockRewarder");
+      await betrStaking.write.addRewarder([mockRewarder.address], {
+        account: owner.account
+      });
+      await mockToken.write.mint([staker1.account.address, parseEther("1000")], {
+        account: owner.account
+      });
+      await mockToken.write.approve([betrStaking.address, parseEther("1000")], {
+        account: staker1.account
+      });
+
+      return { ...fixture, mockRewarder };
+    }
+
+    it("Should initialize with the default rewarder gas limit", async function () {
+      const { betrStaking } = await loadFixture(deployBETRStakingFixture);
+
+      expect(await betrStaking.read.rewarderGasLimit()).to.equal(await betrStaking.read.DEFAULT_REWARDER_GAS_LIMIT());
+    });
+
+    it("Should set the rewarder gas limit and max failures", async function () {
+      const { betrStaking, owner, otherAccount } = await loadFixture(deployBETRStakingFixture);
+
+      expect(await betrStaking.write.setRewarderGasLimit([100000n], {
+        account: owner.account
+      })).to.emit(betrStaking, "RewarderGasLimitSet").withArgs(100000n);
+      expect(await betrStaking.write.setMaxRewarderFailures([3n], {
+        account: owner.account
+      })).to.emit(betrStaking, "MaxRewarderFailuresSet").withArgs(3n);
+
+      expect(await betrStaking.read.rewarderGasLimit()).to.equal(100000n);
+      expect(await betrStaking.read.maxRewarderFailures()).to.equal(3n);
+
+      await expect(betrStaking.write.setRewarderGasLimit([0n], {
+        account: owner.account
+      })).to.be.rejectedWith("InvalidInput");
+      await expect(betrStaking.write.setRewarderGasLimit([100000n], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("NotOwner");
+      await expect(betrStaking.write.setMaxRewarderFailures([3n], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("NotOwner");
+    });
+
+    it("Should keep staking and unstaking when a rewarder reverts", async function () {
+      const { betrStaking, mockRewarder, staker1 } = await loadFixture(deployFailingRewarderFixture);
+
+      await mockRewarder.write.setShouldRevert([true]);
+
+      expect(await betrStaking.write.stake([parseEther("100")], {
+        account: staker1.account
+      })).to.emit(betrStaking, "RewarderNotificationFailed").withArgs(mockRewarder.address, staker1.account.address);
+      await betrStaking.write.unstake([parseEther("40")], {
+        account: staker1.account
+      });
+
+      expect(await betrStaking.read.stakedAmount([staker1.account.address])).to.equal(parseEther("60"));
+      expect(await betrStaking.read.rewarderFailureCount([mockRewarder.address])).to.equal(2n);
+
+      // The failed notification keeps the amount last processed by the rewarder
+      const [isPending, oldAmount] = await betrStaking.read.failedNotifications([mockRewarder.address, staker1.account.address]);
+      expect(isPending).to.be.true;
+      expect(oldAmount).to.equal(0n);
+      expect(await betrStaking.read.notifiedStakedAmount([mockRewarder.address, staker1.account.address])).to.equal(0n);
+    });
+
+    it("Should isolate rewarders consuming all their gas", async function () {
+      const { betrStaking, mockRewarder, staker1, owner } = await loadFixture(deployFailingRewarderFixture);
+
+      await betrStaking.write.setRewarderGasLimit([100000n], {
+        account: owner.account
+      });
+      await mockRewarder.write.setShouldConsumeAllGas([true]);
+
+      await betrStaking.write.stake([parseEther("100")], {
+        account: staker1.account
+      });
+
+      expect(await betrStaking.read.stakedAmount([staker1.account.address])).to.equal(parseEther("100"));
+      expect(await betrStaking.read.rewarderFailureCount([mockRewarder.address])).to.equal(1n);
+    });
+
+    it("Should revert if not enough gas is forwarded for the rewarder gas limit", async function () {
+      const { betrStaking, staker1, owner } = await loadFixture(deployFailingRewarderFixture);
+
+      await betrStaking.write.setRewarderGasLimit([1000000n], {
+        account: owner.account
+      });
+
+      await expect(betrStaking.write.stake([parseEther("100")], {
+        account: staker1.account,
+        gas: 500000n
+      })).to.be.rejectedWith("NotEnoughGas");
+    });
+
+    it("Should notify from the last processed amount once the rewarder recovers", async function () {
+      const { betrStaking, mockRewarder, staker1 } = await loadFixture(deployFailingRewarderFixture);
+
+      await mockRewarder.write.setShouldRevert([true]);
+      await betrStaking.write.stake([parseEther("100")], {
+        account: staker1.account
+      });
+      await mockRewarder.write.setShouldRevert([false]);
+      await betrStaking.write.stake([parseEther("50")], {
+        account: staker1.account
+      });
+
+      const [, oldAmount, newAmount] = await mockRewarder.read.getLastStakeChange([staker1.account.address]);
+      expect(oldAmount).to.equal(0n);
+      expect(newAmount).to.equal(parseEther("150"));
+
+      const [isPending] = await betrStaking.read.failedNotifications([mockRewarder.address, staker1.account.address]);
+      expect(isPending).to.be.false;
+    });
+
+    it("Should resync failed notifications", async function () {
+      const { betrStaking, mockRewarder, staker1, staker2, otherAccount } = await loadFixture(deployFailingRewarderFixture);
+
+      await mockRewarder.write.setShouldRevert([true]);
+      await betrStaking.write.stake([parseEther("100")], {
+        account: staker1.account
+      });
+      await betrStaking.write.unstake([parseEther("30")], {
+        account: staker1.account
+      });
+      await mockRewarder.write.setShouldRevert([false]);
+
+      expect(await betrStaking.write.resyncRewarder([mockRewarder.address, [staker1.account.address, staker2.account.address]], {
+        account: otherAccount.account
+      })).to.emit(betrStaking, "RewarderResynced").withArgs(mockRewarder.address, staker1.account.address);
+
+      const [, oldAmount, newAmount] = await mockRewarder.read.getLastStakeChange([staker1.account.address]);
+      expect(oldAmount).to.equal(0n);
+      expect(newAmount).to.equal(parseEther("70"));
+      expect(await mockRewarder.read.getUserCalls([staker2.account.address])).to.equal(0n);
+      expect(await betrStaking.read.notifiedStakedAmount([mockRewarder.address, staker1.account.address])).to.equal(parseEther("70"));
+    });
+
+    it("Should revert resync for a non-rewarder", async function () {
+      const { betrStaking, staker1, otherAccount } = await loadFixture(deployFailingRewarderFixture);
+
+      await expect(betrStaking.write.resyncRewarder([otherAccount.account.address, [staker1.account.address]], {
+        account: staker1.account
+      })).to.be.rejectedWith("InvalidInput");
+    });
+
+    it("Should not replay failed notifications once a rewarder is removed and added again", async function () {
+      const { betrStaking, mockRewarder, staker1, owner } = await loadFixture(deployFailingRewarderFixture);
+
+      await mockRewarder.write.setShouldRevert([true]);
+      await betrStaking.write.stake([parseEther("100")], {
+        account: staker1.account
+      });
+
+      await betrStaking.write.removeRewarder([mockRewarder.address], {
+        account: owner.account
+      });
+      expect(await betrStaking.read.rewarderEpoch([mockRewarder.address])).to.equal(1n);
+      const [isPending] = await betrStaking.read.failedNotifications([mockRewarder.address, staker1.account.address]);
+      expect(isPending).to.be.false;
+
+      await betrStaking.write.stake([parseEther("50")], {
+        account: staker1.account
+      });
+      await betrStaking.write.addRewarder([mockRewarder.address], {
+        account: owner.account
+      });
+      await mockRewarder.write.setShouldRevert([false]);
+
+      // Resyncing skips the stale failure and the next change starts from the current stake
+      await betrStaking.write.resyncRewarder([mockRewarder.address, [staker1.account.address]]);
+      expect(await mockRewarder.read.getTotalCalls()).to.equal(0n);
+      expect(await betrStaking.read.notifiedStakedAmount([mockRewarder.address, staker1.account.address])).to.equal(parseEther("150"));
+
+      await betrStaking.write.unstake([parseEther("30")], {
+        account: staker1.account
+      });
+      const [, oldAmount, newAmount] = await mockRewarder.read.getLastStakeChange([staker1.account.address]);
+      expect(oldAmount).to.equal(parseEther("150"));
+      expect(newAmount).to.equal(parseEther("120"));
+    });
+
+    it("Should quarantine a rewarder after too many failures", async function () {
+      const { betrStaking, mockRewarder, staker1, owner } = await loadFixture(deployFailingRewarderFixture);
+
+      await betrStaking.write.setMaxRewarderFailures([2n], {
+        account: owner.account
+      });
+      await mockRewarder.write.setShouldRevert([true]);
+
+      await betrStaking.write.stake([parseEther("10")], {
+        account: staker1.account
+      });
+      expect(await betrStaking.read.isRewarderQuarantined([mockRewarder.address])).to.be.false;
+
+      expect(await betrStaking.write.stake([parseEther("10")], {
+        account: staker1.account
+      })).to.emit(betrStaking, "RewarderQuarantinedSet").withArgs(mockRewarder.address, true);
+      expect(await betrStaking.read.isRewarderQuarantined([mockRewarder.address])).to.be.true;
+
+      // Quarantined rewarders are not called anymore
+      await mockRewarder.write.setShouldRevert([false]);
+      await betrStaking.write.stake([parseEther("10")], {
+        account: staker1.account
+      });
+      expect(await mockRewarder.read.getTotalCalls()).to.equal(0n);
+      expect(await betrStaking.read.rewarderFailureCount([mockRewarder.address])).to.equal(2n);
+
+      // Lifting the quarantine resets the failure count
+      await betrStaking.write.setRewarderQuarantined([mockRewarder.address, false], {
+        account: owner.account
+      });
+      expect(await betrStaking.read.rewarderFailureCount([mockRewarder.address])).to.equal(0n);
+
+      await betrStaking.write.resyncRewarder([mockRewarder.address, [staker1.account.address]]);
+      const [, oldAmount, newAmount] = await mockRewarder.read.getLastStakeChange([staker1.account.address]);
+      expect(oldAmount).to.equal(0n);
+      expect(newAmount).to.equal(parseEther("30"));
+    });
+
+    it("Should not set quarantine if sender is not owner or address is not a rewarder", async function () {
+      const { betrStaking, mockRewarder, owner, otherAccount } = await loadFixture(deployFailingRewarderFixture);
+
+      await expect(betrStaking.write.setRewarderQuarantined([mockRewarder.address, true], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("NotOwner");
+      await expect(betrStaking.write.setRewarderQuarantined([otherAccount.account.address, true], {
+        account: owner.account
+      })).to.be.rejectedWith("InvalidInput");
+    });
+  });
+
+  describe("Staking Caps and Allowlist", function () {
+    async function deployCapsFixture() {
+      const fixture = await deployBETRStakingFixture();
+      const { betrStaking, mockToken, staker1, staker2, owner } = fixture;
+
+      for (const staker of [staker1, staker2]) {
+        await mockToken.write.mint([staker.account.address, parseEther("1000")], {
+          account: owner.account
+        });
+        await mockToken.write.approve([betrStaking.address, parseEther("1000")], {
+          account: staker.account
+        });
+      }
+
+      return fixture;
+    }
+
+    function allowlistLeaf(address: `0x${string}`) {
+      return keccak256(keccak256(encodeAbiParameters([{ type: "address" }], [address])));
+    }
+
+    it("Should set the caps and allowlist configuration", async function () {
+      const { betrStaking, owner, staker1 } = await loadFixture(deployBETRStakingFixture);
+
+      const root = allowlistLeaf(staker1.account.address);
+
+      expect(await betrStaking.write.setMaxTotalStake([parseEther("1000")], {
+        account: owner.account
+      })).to.emit(betrStaking, "MaxTotalStakeSet").withArgs(parseEther("1000"));
+      expect(await betrStaking.write.setMaxStakePerUser([parseEther("100")], {
+        account: owner.account
+      })).to.emit(betrStaking, "MaxStakePerUserSet").withArgs(parseEther("100"));
+      expect(await betrStaking.write.setAllowlistEnabled([true], {
+        account: owner.account
+      })).to.emit(betrStaking, "AllowlistEnabledSet").withArgs(true);
+      expect(await betrStaking.write.setAllowlistRoot([root], {
+        account: owner.account
+      })).to.emit(betrStaking, "AllowlistRootSet").withArgs(root);
+
+      expect(await betrStaking.read.maxTotalStake()).to.equal(parseEther("1000"));
+      expect(await betrStaking.read.maxStakePerUser()).to.equal(parseEther("100"));
+      expect(await betrStaking.read.isAllowlistEnabled()).to.be.true;
+      expect(await betrStaking.read.allowlistRoot()).to.equal(root);
+    });
+
+    it("Should not set the caps and allowlist configuration if sender is not owner", async function () {
+      const { betrStaking, otherAccount } = await loadFixture(deployBETRStakingFixture);
+
+      await expect(betrStaking.write.setMaxTotalStake([1n], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("NotOwner");
+      await expect(betrStaking.write.setMaxStakePerUser([1n], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("NotOwner");
+      await expect(betrStaking.write.setAllowlistEnabled([true], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("NotOwner");
+      await expect(betrStaking.write.setAllowlistRoot([keccak256("0x01")], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("NotOwner");
+      await expect(betrStaking.write.setAllowlisted([[otherAccount.account.address], true], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("NotOwner");
+    });
+
+    it("Should enforce the maximum total stake", async function () {
+      const { betrStaking, owner, staker1, staker2 } = await loadFixture(deployCapsFixture);
+
+      await betrStaking.write.setMaxTotalStake([parseEther("150")], {
+        account: owner.account
+      });
+      await betrStaking.write.stake([parseEther("100")], {
+        account: staker1.account
+      });
+
+      await expect(betrStaking.write.stake([parseEther("51")], {
+        account: staker2.account
+      })).to.be.rejectedWith("MaxTotalStakeExceeded");
+      await expect(betrStaking.write.stakeFor([staker1.account.address, parseEther("51")], {
+        account: staker2.account
+      })).to.be.rejectedWith("MaxTotalStakeExceeded");
+
+      await betrStaking.write.stake([parseEther("50")], {
+        account: staker2.account
+      });
+      expect(await betrStaking.read.totalStakedAmount()).to.equal(parseEther("150"));
+    });
+
+    it("Should enforce the maximum stake per user", async function () {
+      const { betrStaking, owner, staker1, staker2 } = await loadFixture(deployCapsFixture);
+
+      await betrStaking.write.setMaxStakePerUser([parseEther("100")], {
+        account: owner.account
+      });
+      await betrStaking.write.stake([parseEther("80")], {
+        account: staker1.account
+      });
+
+      await expect(betrStaking.write.stake([parseEther("21")], {
+        account: staker1.account
+      })).to.be.rejectedWith("MaxStakePerUserExceeded");
+      await expect(betrStaking.write.stakeFor([staker1.account.address, parseEther("21")], {
+        account: staker2.account
+      })).to.be.rejectedWith("MaxStakePerUserExceeded");
+
+      // Other users are not affected
+      await betrStaking.write.stake([parseEther("100")], {
+        account: staker2.account
+      });
+    });
+
+    it("Should only allow allowlisted addresses to stake or receive stakeFor", async function () {
+      const { betrStaking, owner, staker1, staker2 } = await loadFixture(deployCapsFixture);
+
+      await betrStaking.write.setAllowlistEnabled([true], {
+        account: owner.account
+      });
+
+      await expect(betrStaking.write.stake([parseEther("10")], {
+        account: staker1.account
+      })).to.be.rejectedWith("NotAllowlisted");
+
+      expect(await betrStaking.write.setAllowlisted([[staker1.account.address], true], {
+        account: owner.account
+      })).to.emit(betrStaking, "AllowlistedSet").withArgs(staker1.account.address, true);
+
+      await betrStaking.write.stake([parseEther("10")], {
+        account: staker1.account
+      });
+
+      // A non-allowlisted caller can stake for an allowlisted user, not the other way around
+      await betrStaking.write.stakeFor([staker1.account.address, parseEther("10")], {
+        account: staker2.account
+      });
+      await expect(betrStaking.write.stakeFor([staker2.account.address, parseEther("10")], {
+        account: staker1.account
+      })).to.be.rejectedWith("NotAllowlisted");
+
+      expect(await betrStaking.read.stakedAmount([staker1.account.address])).to.equal(parseEther("20"));
+    });
+
+    it("Should allowlist addresses with a Merkle proof", async function () {
+      const { betrStaking, owner, staker1, staker2, otherAccount } = await loadFixture(deployCapsFixture);
+
+      const leaf1 = allowlistLeaf(staker1.account.address);
+      const leaf2 = allowlistLeaf(otherAccount.account.address);
+      const root = keccak256(leaf1 < leaf2 ? concat([leaf1, leaf2]) : concat([leaf2, leaf1]));
+
+      await betrStaking.write.setAllowlistEnabled([true], {
+        account: owner.account
+      });
+      await betrStaking.write.setAllowlistRoot([root], {
+        account: owner.account
+      });
+
+      await expect(betrStaking.write.claimAllowlist([staker2.account.address, [leaf2]], {
+        account: staker2.account
+      })).to.be.rejectedWith("InvalidProof");
+
+      // Anyone can submit the proof of an address
+      expect(await betrStaking.write.claimAllowlist([staker1.account.address, [leaf2]], {
+        account: staker2.account
+      })).to.emit(betrStaking, "AllowlistedSet").withArgs(staker1.account.address, true);
+
+      expect(await betrStaking.read.isAllowlisted([staker1.account.address])).to.be.true;
+      await betrStaking.write.stake([parseEther("10")], {
+        account: staker1.account
+      });
+    });
+
+    it("Should not set allowlisted for empty arrays or zero addresses", async function () {
+      const { betrStaking, owner } = await loadFixture(deployBETRStakingFixture);
+
+      await expect(betrStaking.write.setAllowlisted([[], true], {
+        account: owner.account
+      })).to.be.rejectedWith("InvalidInput");
+      await expect(betrStaking.write.setAllowlisted([["0x0000000000000000000000000000000000000000"], true], {
+        account: owner.account
+      })).to.be.rejectedWith("InvalidInput");
+    });
+  });
+
+  describe("Gasless Staking", function () {
+    async function deployGaslessFixture() {
+      const fixture = await deployBETRStakingFixture();
+      const { mockToken, staker1, owner } = fixture;
+
+      await mockToken.write.mint([staker1.account.address, parseEther("1000")], {
+        account: owner.account
+      });
+
+      return fixture;
+    }
+
+    async function signStakingAction(
+      betrStaking: { address: `0x${string}`, read: { nonces: (args: [`0x${string}`]) => Promise<bigint> } },
+      signer: Awaited<ReturnType<typeof hre.viem.getWalletClients>>[number],
+      primaryType: "Stake" | "Unstake",
+      amount: bigint,
+      deadline: bigint
+    ) {
+      const publicClient = await hre.viem.getPublicClient();
+      const nonce = await betrStaking.read.nonces([signer.account.address]);
+      const signature = await signer.signTypedData({
+        domain: {
+          name: "BETRStaking",
+          version: "1",
+          chainId: await publicClient.getChainId(),
+          verifyingContract: betrStaking.address,
+        },
+        types: {
+          [primaryType]: [
+            { name: "user", type: "address" },
+            { name: "amount", type: "uint256" },
+            { name: "nonce", type: "uint256" },
+            { name: "deadline", type: "uint256" },
+          ],
+        },
+        primaryType,
+        message: {
+          user: signer.account.address,
+          amount,
+          nonce,
+          deadline,
+        },
+      });
+      const { v, r, s } = Signature.from(signature);
+      return { v, r: r as `0x${string}`, s: s as `0x${string}` };
+    }
+
+    it("Should stake with an EIP-2612 permit", async function () {
+      const { betrStaking, mockToken, staker1, publicClient } = await loadFixture(deployGaslessFixture);
+
+      const amount = parseEther("100");
+      const deadline = BigInt(Math.floor(Date.now() / 1000) + 3600);
+      const signature = await staker1.signTypedData({
+        domain: {
+          name: await mockToken.read.name(),
+          version: "1",
+          chainId: await publicClient.getChainId(),
+          verifyingContract: mockToken.address,
+        },
+        types: {
+          Permit: [
+            { name: "owner", type: "address" },
+            { name: "spender", type: "address" },
+            { name: "value", type: "uint256" },
+            { name: "nonce", type: "uint256" },
+            { name: "deadline", type: "uint256" },
+          ],
+        },
+        primaryType: "Permit",
+        message: {
+          owner: staker1.account.address,
+          spender: betrStaking.address,
+          value: amount,
+          nonce: await mockToken.read.nonces([staker1.account.address]),
+          deadline,
+        },
+      });
+      const { v, r, s } = Signature.from(signature);
+
+      expect(await betrStaking.write.stakeWithPermit([amount, deadline, v, r as `0x${string}`, s as `0x${string}`], {
+        account: staker1.account
+      })).to.emit(betrStaking, "Staked").withArgs(staker1.account.address, amount);
+
+      expect(await betrStaking.read.stakedAmount([staker1.account.address])).to.equal(amount);
+      expect(await mockToken.read.allowance([staker1.account.address, betrStaking.address])).to.equal(0n);
+    });
+
+    it("Should stake with an existing allowance if the permit fails", async function () {
+      const { betrStaking, mockToken, staker1 } = await loadFixture(deployGaslessFixture);
+
+      await mockToken.write.approve([betrStaking.address, parseEther("100")], {
+        account: staker1.account
+      });
+
+      await betrStaking.write.stakeWithPermit([
+        parseEther("100"),
+        BigInt(Math.floor(Date.now() / 1000) + 3600),
+        27,
+        "0x1234567890123456789012345678901234567890123456789012345678901234",
+        "0x1234567890123456789012345678901234567890123456789012345678901234"
+      ], {
+        account: staker1.account
+      });
+
+      expect(await betrStaking.read.stakedAmount([staker1.account.address])).to.equal(parseEther("100"));
+    });
+
+    it("Should stake and unstake by signature through a relayer", async function () {
+      const { betrStaking, mockToken, staker1, otherAccount } = await loadFixture(deployGaslessFixture);
+
+      await mockToken.write.approve([betrStaking.address, parseEther("100")], {
+        account: staker1.account
+      });
+
+      const deadline = BigInt(Math.floor(Date.now() / 1000) + 3600);
+      const stakeSig = await signStakingAction(betrStaking, staker1, "Stake", parseEther("100"), deadline);
+      await betrStaking.write.stakeBySig([staker1.account.address, parseEther("100"), deadline, stakeSig.v, stakeSig.r, stakeSig.s], {
+        account: otherAccount.account
+      });
+
+      expect(await betrStaking.read.stakedAmount([staker1.account.address])).to.equal(parseEther("100"));
+      expect(await betrStaking.read.nonces([staker1.account.address])).to.equal(1n);
+
+      const unstakeSig = await signStakingAction(betrStaking, staker1, "Unstake", parseEther("40"), deadline);
+      await betrStaking.write.unstakeBySig([staker1.account.address, parseEther("40"), deadline, unstakeSig.v, unstakeSig.r, unstakeSig.s], {
+        account: otherAccount.account
+      });
+
+      expect(await betrStaking.read.stakedAmount([staker1.account.address])).to.equal(parseEther("60"));
+      expect(await mockToken.read.balanceOf([staker1.account.address])).to.equal(parseEther("940"));
+      expect(await betrStaking.read.nonces([staker1.account.address])).to.equal(2n);
+    });
+
+    it("Should not replay a signature", async function () {
+      const { betrStaking, mockToken, staker1, otherAccount } = await loadFixture(deployGaslessFixture);
+
+      await mockToken.write.approve([betrStaking.address, parseEther("200")], {
+        account: staker1.account
+      });
+
+      const deadline = BigInt(Math.floor(Date.now() / 1000) + 3600);
+      const { v, r, s } = await signStakingAction(betrStaking, staker1, "Stake", parseEther("100"), deadline);
+      await betrStaking.write.stakeBySig([staker1.account.address, parseEther("100"), deadline, v, r, s], {
+        account: otherAccount.account
+      });
+
+      await expect(betrStaking.write.stakeBySig([staker1.account.address, parseEther("100"), deadline, v, r, s], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("InvalidSigner");
+    });
+
+    it("Should not accept a signature from another signer or for another action", async function () {
+      const { betrStaking, mockToken, staker1, staker2, otherAccount } = await loadFixture(deployGaslessFixture);
+
+      await mockToken.write.approve([betrStaking.address, parseEther("100")], {
+        account: staker1.account
+      });
+
+      const deadline = BigInt(Math.floor(Date.now() / 1000) + 3600);
+      const otherSig = await signStakingAction(betrStaking, staker2, "Stake", parseEther("100"), deadline);
+      await expect(betrStaking.write.stakeBySig([staker1.account.address, parseEther("100"), deadline, otherSig.v, otherSig.r, otherSig.s], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("InvalidSigner");
+
+      const stakeSig = await signStakingAction(betrStaking, staker1, "Stake", parseEther("100"), deadline);
+      await expect(betrStaking.write.unstakeBySig([staker1.account.address, parseEther("100"), deadline, stakeSig.v, stakeSig.r, stakeSig.s], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("InvalidSigner");
+    });
+
+    it("Should not accept an expired signature", async function () {
+      const { betrStaking, staker1, otherAccount } = await loadFixture(deployGaslessFixture);
+
+      const deadline = BigInt(await time.latest()) - 1n;
+      const { v, r, s } = await signStakingAction(betrStaking, staker1, "Stake", parseEther("100"), deadline);
+
+      await expect(betrStaking.write.stakeBySig([staker1.account.address, parseEther("100"), deadline, v, r, s], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("SignatureExpired");
+    });
+  });
+
   describe("Edge Cases", function () {
     it("Should handle very small amounts", async function () {
       const { betrStaking, mockToken, staker1, owner } = await loadFixture(deployBETRStakingFixture);
@@ -0,0 +1,261 @@
+import {
+  loadFixture,
+} from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { getAddress, parseEther } from "viem";
+
+describe("BETRStakingReceipt", function () {
+  // We define a fixture to reuse the same setup in every test.
+  async function deployBETRStakingReceiptFixture() {
+    // Contracts are deployed using the first signer/account by default
+    const [owner, otherAccount, staker1, staker2] = await hre.viem.getWalletClients();
+
+    // Deploy mock ERC20 token for staking
+    const mockToken = await hre.viem.deployContract("MockERC20", ["Staking Token", "STK", 18]);
+
+    // Deploy BETRStaking
+    const betrStaking = await hre.viem.deployContract("BETRStaking", [owner.account.address, mockToken.address]);
+
+    // Deploy BETRStakingReceipt
+    const betrStakingReceipt = await hre.viem.deployContract("BETRStakingReceipt", ["Staked Token", "stSTK", betrStaking.address]);
+
+    const publicClient = await hre.viem.getPublicClient();
+
+    return {
+      betrStaking,
+      betrStakingReceipt,
+      mockToken,
+      owner,
+      otherAccount,
+      staker1,
+      staker2,
+      publicClient,
+    };
+  }
+
+  // Fixture with the receipt token set and a funded staker
+  async function deployWithReceiptFixture() {
+    const fixture = await deployBETRStakingReceiptFixture();
+    const { betrStaking, betrStakingReceipt, mockToken, owner, staker1 } = fixture;
+
+    await betrStaking.write.setReceiptToken([betrStakingReceipt.address], {
+      account: owner.account
+    });
+    await mockToken.write.mint([staker1.account.address, parseEther("1000")], {
+      account: owner.account
+    });
+    await mockToken.write.approve([betrStaking.address, parseEther("1000")], {
+      account: staker1.account
+    });
+
+    return fixture;
+  }
+
+  describe("Deployment", function () {
+    it("Should set the right name, symbol and staking contract", async function () {
+      const { betrStakingReceipt, betrStaking } = await loadFixture(deployBETRStakingReceiptFixture);
+
+      expect(await betrStakingReceipt.read.name()).to.equal("Staked Token");
+      expect(await betrStakingReceipt.read.symbol()).to.equal("stSTK");
+      expect(await betrStakingReceipt.read.stakingContract()).to.equal(
+        getAddress(betrStaking.address)
+      );
+    });
+
+    it("Should revert if staking contract is zero address", async function () {
+      await expect(
+        hre.viem.deployContract("BETRStakingReceipt", [
+          "Staked Token",
+          "stSTK",
+          "0x0000000000000000000000000000000000000000"
+        ])
+      ).to.be.rejectedWith("InvalidInput");
+    });
+  });
+
+  describe("Receipt Token Management", function () {
+    it("Should set the receipt token", async function () {
+      const { betrStaking, betrStakingReceipt, owner } = await loadFixture(deployBETRStakingReceiptFixture);
+
+      expect(await betrStaking.write.setReceiptToken([betrStakingReceipt.address], {
+        account: owner.account
+      })).to.emit(betrStaking, "ReceiptTokenSet").withArgs(betrStakingReceipt.address);
+
+      expect(await betrStaking.read.receiptToken()).to.equal(
+        getAddress(betrStakingReceipt.address)
+      );
+    });
+
+    it("Should not set the receipt token if sender is not owner", async function () {
+      const { betrStaking, betrStakingReceipt, otherAccount } = await loadFixture(deployBETRStakingReceiptFixture);
+
+      await expect(betrStaking.write.setReceiptToken([betrStakingReceipt.address], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("NotOwner");
+    });
+
+    it("Should not set the receipt token twice", async function () {
+      const { betrStaking, betrStakingReceipt, owner } = await loadFixture(deployWithReceiptFixture);
+
+      await expect(betrStaking.write.setReceiptToken([betrStakingReceipt.address], {
+        account: owner.account
+      })).to.be.rejectedWith("InvalidInput");
+    });
+
+    it("Should not set the receipt token while tokens are staked", async function () {
+      const { betrStaking, betrStakingReceipt, mockToken, owner, staker1 } = await loadFixture(deployBETRStakingReceiptFixture);
+
+      await mockToken.write.mint([staker1.account.address, parseEther("100")], {
+        account: owner.account
+      });
+      await mockToken.write.approve([betrStaking.address, parseEther("100")], {
+        account: staker1.account
+      });
+      await betrStaking.write.stake([parseEther("100")], {
+        account: staker1.account
+      });
+
+      await expect(betrStaking.write.setReceiptToken([betrStakingReceipt.address], {
+        account: owner.account
+      })).to.be.rejectedWith("InvalidInput");
+    });
+
+    it("Should not set a receipt token bound to another staking contract", async function () {
+      const { betrStaking, mockToken, owner } = await loadFixture(deployBETRStakingReceiptFixture);
+
+      const otherStaking = await hre.viem.deployContract("BETRStaking", [owner.account.address, mockToken.address]);
+      const otherReceipt = await hre.viem.deployContract("BETRStakingReceipt", ["Staked Token", "stSTK", otherStaking.address]);
+
+      await expect(betrStaking.write.setReceiptToken([otherReceipt.address], {
+        account: owner.account
+      })).to.be.rejectedWith("InvalidInput");
+    });
+  });
+
+  describe("Minting and Burning", function () {
+    it("Should only allow the staking contract to mint and burn", async function () {
+      const { betrStakingReceipt, otherAccount } = await loadFixture(deployBETRStakingReceiptFixture);
+
+      await expect(betrStakingReceipt.write.mint([otherAccount.account.address, parseEther("1")], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("NotStakingContract");
+      await expect(betrStakingReceipt.write.burn([otherAccount.account.address, parseEther("1")], {
+        account: otherAccount.account
+      })).to.be.rejectedWith("NotStakingContract");
+    });
+
+    it("Should mint receipts on stake and stakeFor", async function () {
+      const { betrStaking, betrStakingReceipt, staker1, staker2 } = await loadFixture(deployWithReceiptFixture);
+
+      await betrStaking.write.stake([parseEther("100")], {
+        account: staker1.account
+      });
+      await betrStaking.write.stakeFor([staker2.account.address, parseEther("50")], {
+        account: staker1.account
+      });
+
+      expect(await betrStakingReceipt.read.balanceOf([staker1.account.address])).to.equal(parseEther("100"));
+      expect(await betrStakingReceipt.read.balanceOf([staker2.account.address])).to.equal(parseEther("50"));
+      expect(await betrStakingReceipt.read.totalSupply()).to.equal(parseEther("150"));
+    });
+
+    it("Should burn receipts on unstake and batchUnstake", async function () {
+      const { betrStaking, betrStakingReceipt, owner, staker1 } = await loadFixture(deployWithReceiptFixture);
+
+      await betrStaking.write.stake([parseEther("100")], {
+        account: staker1.account
+      });
+      await betrStaking.write.unstake([parseEther("40")], {
+        account: staker1.account
+      });
+      expect(await betrStakingReceipt.read.balanceOf([staker1.account.address])).to.equal(parseEther("60"));
+
+      await betrStaking.write.batchUnstake([[staker1.account.address], [0n]], {
+        account: owner.account
+      });
+      expect(await betrStakingReceipt.read.balanceOf([staker1.account.address])).to.equal(0n);
+      expect(await betrStakingReceipt.read.totalSupply()).to.equal(0n);
+    });
+  });
+
+  describe("Transfers", function () {
+    it("Should move the underlying stake and notify rewarders for both sides", async function () {
+      const { betrStaking, betrStakingReceipt, owner, staker1, staker2 } = await loadFixture(deployWithReceiptFixture);
+
+      const mockRewarder = await hre.viem.deployContract("MockRewarder");
+      await betrStaking.write.addRewarder([mockRewarder.address], {
+        account: owner.account
+      });
+
+      await betrStaking.write.stake([parseEther("100")], {
+        account: staker1.account
+      });
+
+      expect(await betrStakingReceipt.write.transfer([staker2.account.address, parseEther("30")], {
+        account: staker1.account
+      })).to.emit(betrStaking, "StakeTransferred").withArgs(staker1.account.address, staker2.account.address, parseEther("30"));
+
+      expect(await betrStaking.read.stakedAmount([staker1.account.address])).to.equal(parseEther("70"));
+      expect(await betrStaking.read.stakedAmount([staker2.account.address])).to.equal(parseEther("30"));
+      expect(await betrStaking.read.totalStakedAmount()).to.equal(parseEther("100"));
+      expect(await betrStakingReceipt.read.balanceOf([staker1.account.address])).to.equal(parseEther("70"));
+      expect(await betrStakingReceipt.read.balanceOf([staker2.account.address])).to.equal(parseEther("30"));
+
+      const [, oldAmount1, newAmount1] = await mockRewarder.read.getLastStakeChange([staker1.account.address]);
+      expect(oldAmount1).to.equal(parseEther("100"));
+      expect(newAmount1).to.equal(parseEther("70"));
+      const [, oldAmount2, newAmount2] = await mockRewarder.read.getLastStakeChange([staker2.account.address]);
+      expect(oldAmount2).to.equal(0n);
+      expect(newAmount2).to.equal(parseEther("30"));
+
+      // The receiver can unstake the transferred stake
+      await betrStaking.write.unstake([parseEther("30")], {
+        account: staker2.account
+      });
+      expect(await betrStakingReceipt.read.balanceOf([staker2.account.address])).to.equal(0n);
+    });
+
+    it("Should not transfer locked stake", async function () {
+      const { betrStaking, betrStakingReceipt, owner, staker1, staker2 } = await loadFixture(deployWithReceiptFixture);
+
+      const thirtyDays = 30n * 24n * 60n * 60n;
+      await betrStaking.write.setLockMultiplier([thirtyDays, 15000n], {
+        account: owner.account
+      });
+      await betrStaking.write.stake([parseEther("50")], {
+        account: staker1.account
+      });
+      await betrStaking.write.stakeLocked([parseEther("50"), thirtyDays], {
+        account: staker1.account
+      });
+
+      await expect(betrStakingReceipt.write.transfer([staker2.account.address, parseEther("51")], {
+        account: staker1.account
+      })).to.be.rejectedWith("NotEnoughStakedAmount");
+    });
+
+    it("Should not transfer while staking is paused", async function () {
+      const { betrStaking, betrStakingReceipt, owner, staker1, staker2 } = await loadFixture(deployWithReceiptFixture);
+
+      await betrStaking.write.stake([parseEther("100")], {
+        account: staker1.account
+      });
+      await betrStaking.write.setStakingPaused([true], {
+        account: owner.account
+      });
+
+      await expect(betrStakingReceipt.write.transfer([staker2.account.address, parseEther("10")], {
+        account: staker1.account
+      })).to.be.rejectedWith("StakingPaused");
+    });
+
+    it("Should only accept stake transfers from the receipt token", async function () {
+      const { betrStaking, staker1, staker2 } = await loadFixture(deployWithReceiptFixture);
+
+      await expect(betrStaking.write.onReceiptTransfer([staker1.account.address, staker2.account.address, 1n], {
+        account: staker1.account
+      })).to.be.rejectedWith("NotReceiptToken");
+    });
+  });
+});